@@ -0,0 +1,178 @@
+import { BackpressureController } from './backpressureController';
+
+jest.mock('./logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('BackpressureController', () => {
+  let pause: jest.Mock;
+  let resume: jest.Mock;
+  let controller: BackpressureController;
+
+  beforeEach(() => {
+    pause = jest.fn();
+    resume = jest.fn();
+    controller = new BackpressureController(pause, resume, { highWaterMark: 3, lowWaterMark: 1 });
+  });
+
+  test('should validate water marks', () => {
+    expect(() => new BackpressureController(pause, resume, { highWaterMark: 0 })).toThrow(
+      'highWaterMark must be at least 1'
+    );
+    expect(
+      () => new BackpressureController(pause, resume, { highWaterMark: 2, lowWaterMark: 2 })
+    ).toThrow('lowWaterMark must be between 0 and highWaterMark');
+    expect(() => new BackpressureController(pause, resume, { maxHandlerLatencyMs: -1 })).toThrow(
+      'maxHandlerLatencyMs and latencyPauseMs must not be negative'
+    );
+  });
+
+  test('should pause at high-water mark and resume at low-water mark', () => {
+    controller.acquire('orders', 0, 2);
+    expect(pause).not.toHaveBeenCalled();
+
+    controller.acquire('orders', 0);
+    expect(pause).toHaveBeenCalledWith([{ topic: 'orders', partitions: [0] }]);
+    expect(controller.isPaused('orders', 0)).toBe(true);
+
+    controller.release('orders', 0);
+    expect(resume).not.toHaveBeenCalled();
+
+    controller.release('orders', 0);
+    expect(resume).toHaveBeenCalledWith([{ topic: 'orders', partitions: [0] }]);
+    expect(controller.isPaused('orders', 0)).toBe(false);
+    expect(controller.getInFlight('orders', 0)).toBe(1);
+  });
+
+  test('should track partitions independently', () => {
+    controller.acquire('orders', 0, 3);
+    controller.acquire('orders', 1);
+
+    expect(controller.isPaused('orders', 0)).toBe(true);
+    expect(controller.isPaused('orders', 1)).toBe(false);
+    expect(controller.getMetrics()).toEqual(
+      expect.objectContaining({ totalInFlight: 4, pausedPartitions: 1 })
+    );
+  });
+
+  test('should not pause automatically when disabled', () => {
+    controller = new BackpressureController(pause, resume, { enabled: false, highWaterMark: 1 });
+
+    controller.acquire('orders', 0, 10);
+
+    expect(pause).not.toHaveBeenCalled();
+  });
+
+  test('should keep manually paused partitions paused after load drops', () => {
+    controller.pausePartition('orders', 0);
+    controller.acquire('orders', 0, 3);
+    controller.release('orders', 0, 3);
+
+    expect(pause).toHaveBeenCalledTimes(1);
+    expect(resume).not.toHaveBeenCalled();
+
+    controller.resumePartition('orders', 0);
+    expect(resume).toHaveBeenCalledTimes(1);
+  });
+
+  test('should stay paused while overloaded after manual resume', () => {
+    controller.acquire('orders', 0, 3);
+    controller.pausePartition('orders', 0);
+
+    controller.resumePartition('orders', 0);
+    expect(resume).not.toHaveBeenCalled();
+
+    controller.release('orders', 0, 3);
+    expect(resume).toHaveBeenCalledTimes(1);
+  });
+
+  test('should report time spent paused per partition', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+
+    controller.pausePartition('orders', 2);
+    jest.advanceTimersByTime(1500);
+    expect(controller.getMetrics().partitions[0]).toEqual(
+      expect.objectContaining({ paused: true, manuallyPaused: true, pausedMs: 1500 })
+    );
+
+    controller.resumePartition('orders', 2);
+    jest.advanceTimersByTime(1000);
+    controller.pausePartition('orders', 2);
+    jest.advanceTimersByTime(500);
+
+    expect(controller.getMetrics().partitions[0]).toEqual({
+      topic: 'orders',
+      partition: 2,
+      inFlight: 0,
+      handlerLatencyMs: 0,
+      paused: true,
+      manuallyPaused: true,
+      pausedBy: ['manual'],
+      pauseCount: 2,
+      pausedMs: 2000
+    });
+    jest.useRealTimers();
+  });
+
+  test('should pause on sustained handler latency and resume after the cooldown', () => {
+    jest.useFakeTimers();
+    controller = new BackpressureController(pause, resume, {
+      maxHandlerLatencyMs: 100,
+      latencyPauseMs: 1000
+    });
+
+    controller.recordLatency('orders', 0, 200);
+    expect(pause).not.toHaveBeenCalled();
+
+    controller.recordLatency('orders', 0, 200);
+    expect(pause).toHaveBeenCalledWith([{ topic: 'orders', partitions: [0] }]);
+    expect(controller.getMetrics().partitions[0]).toEqual(
+      expect.objectContaining({ handlerLatencyMs: 102, pausedBy: ['latency'] })
+    );
+
+    jest.advanceTimersByTime(1000);
+    expect(resume).toHaveBeenCalledWith([{ topic: 'orders', partitions: [0] }]);
+    expect(controller.isPaused('orders', 0)).toBe(false);
+    jest.useRealTimers();
+  });
+
+  test('should not pause on handler latency when the limit is zero or while held manually', () => {
+    jest.useFakeTimers();
+    controller = new BackpressureController(pause, resume, { maxHandlerLatencyMs: 0 });
+    controller.recordLatency('orders', 0, 60000);
+    expect(pause).not.toHaveBeenCalled();
+
+    controller = new BackpressureController(pause, resume, {
+      maxHandlerLatencyMs: 100,
+      latencyPauseMs: 1000
+    });
+    controller.pausePartition('orders', 1);
+    controller.recordLatency('orders', 1, 1000);
+    jest.advanceTimersByTime(1000);
+
+    expect(pause).toHaveBeenCalledTimes(1);
+    expect(resume).not.toHaveBeenCalled();
+    expect(controller.isPaused('orders', 1)).toBe(true);
+    jest.useRealTimers();
+  });
+
+  test('should keep a partition paused until every holder releases it', () => {
+    controller.pausePartition('orders', 0);
+    controller.pausePartition('orders', 0, 'circuitBreaker');
+    expect(controller.getPausedBy('circuitBreaker')).toEqual([
+      { topic: 'orders', partitions: [0] }
+    ]);
+
+    controller.resumePartition('orders', 0, 'circuitBreaker');
+    expect(resume).not.toHaveBeenCalled();
+    expect(controller.getPausedBy('circuitBreaker')).toEqual([]);
+
+    controller.resumePartition('orders', 0);
+    expect(resume).toHaveBeenCalledWith([{ topic: 'orders', partitions: [0] }]);
+  });
+});
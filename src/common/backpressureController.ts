@@ -0,0 +1,254 @@
+import { TopicPartitions } from 'kafkajs';
+import { logger } from './logger';
+
+export const MANUAL_HOLD = 'manual';
+export const LATENCY_HOLD = 'latency';
+
+const LATENCY_SMOOTHING = 0.3;
+
+export type PartitionControl = (topicPartitions: TopicPartitions[]) => void;
+
+export interface BackpressureOptions {
+  enabled?: boolean;
+  // In-flight messages per partition. Only keyOrdered mode and batchHandlers hold more than one
+  // message per partition at a time; handler latency drives backpressure in the other modes.
+  highWaterMark?: number;
+  lowWaterMark?: number;
+  maxHandlerLatencyMs?: number;
+  latencyPauseMs?: number;
+}
+
+export interface PartitionPauseMetrics {
+  topic: string;
+  partition: number;
+  inFlight: number;
+  handlerLatencyMs: number;
+  paused: boolean;
+  manuallyPaused: boolean;
+  pausedBy: string[];
+  pauseCount: number;
+  pausedMs: number;
+}
+
+export interface BackpressureMetrics {
+  totalInFlight: number;
+  pausedPartitions: number;
+  partitions: PartitionPauseMetrics[];
+}
+
+interface PartitionState {
+  topic: string;
+  partition: number;
+  inFlight: number;
+  overloaded: boolean;
+  handlerLatencyMs: number;
+  latencyTimer?: NodeJS.Timeout;
+  holds: Set<string>;
+  pausedAt?: number;
+  pauseCount: number;
+  pausedMs: number;
+}
+
+export class BackpressureController {
+  private readonly enabled: boolean;
+  private readonly highWaterMark: number;
+  private readonly lowWaterMark: number;
+  private readonly maxHandlerLatencyMs: number;
+  private readonly latencyPauseMs: number;
+  private partitions: Map<string, PartitionState> = new Map();
+
+  constructor(
+    private pause: PartitionControl,
+    private resume: PartitionControl,
+    options: BackpressureOptions = {}
+  ) {
+    this.enabled = options.enabled ?? true;
+    this.highWaterMark = options.highWaterMark ?? 100;
+    this.lowWaterMark = options.lowWaterMark ?? Math.floor(this.highWaterMark / 2);
+    this.maxHandlerLatencyMs = options.maxHandlerLatencyMs ?? 5000;
+    this.latencyPauseMs = options.latencyPauseMs ?? this.maxHandlerLatencyMs;
+
+    if (this.highWaterMark < 1) {
+      throw new Error('highWaterMark must be at least 1');
+    }
+    if (this.lowWaterMark < 0 || this.lowWaterMark >= this.highWaterMark) {
+      throw new Error('lowWaterMark must be between 0 and highWaterMark');
+    }
+    if (this.maxHandlerLatencyMs < 0 || this.latencyPauseMs < 0) {
+      throw new Error('maxHandlerLatencyMs and latencyPauseMs must not be negative');
+    }
+  }
+
+  acquire(topic: string, partition: number, count = 1): void {
+    const state = this.getState(topic, partition);
+    state.inFlight += count;
+
+    if (this.enabled && !state.overloaded && state.inFlight >= this.highWaterMark) {
+      state.overloaded = true;
+      logger.info('Partition paused by backpressure', {
+        topic,
+        partition,
+        inFlight: state.inFlight,
+        highWaterMark: this.highWaterMark
+      });
+      this.applyPause(state);
+    }
+  }
+
+  release(topic: string, partition: number, count = 1): void {
+    const state = this.getState(topic, partition);
+    state.inFlight = Math.max(0, state.inFlight - count);
+
+    if (state.overloaded && state.inFlight <= this.lowWaterMark) {
+      state.overloaded = false;
+      logger.info('Partition resumed after backpressure', {
+        topic,
+        partition,
+        inFlight: state.inFlight,
+        lowWaterMark: this.lowWaterMark
+      });
+      this.applyResume(state);
+    }
+  }
+
+  recordLatency(topic: string, partition: number, durationMs: number): void {
+    const state = this.getState(topic, partition);
+    state.handlerLatencyMs += LATENCY_SMOOTHING * (durationMs - state.handlerLatencyMs);
+
+    if (
+      !this.enabled ||
+      this.maxHandlerLatencyMs === 0 ||
+      state.latencyTimer ||
+      state.handlerLatencyMs < this.maxHandlerLatencyMs
+    ) {
+      return;
+    }
+
+    state.holds.add(LATENCY_HOLD);
+    logger.info('Partition paused by handler latency', {
+      topic,
+      partition,
+      handlerLatencyMs: Math.round(state.handlerLatencyMs),
+      maxHandlerLatencyMs: this.maxHandlerLatencyMs,
+      pauseMs: this.latencyPauseMs
+    });
+    this.applyPause(state);
+
+    state.latencyTimer = setTimeout(() => {
+      state.latencyTimer = undefined;
+      state.holds.delete(LATENCY_HOLD);
+      logger.info('Partition resumed after handler latency cooldown', {
+        topic,
+        partition,
+        handlerLatencyMs: Math.round(state.handlerLatencyMs)
+      });
+      this.applyResume(state);
+    }, this.latencyPauseMs);
+    state.latencyTimer.unref();
+  }
+
+  pausePartition(topic: string, partition: number, holder = MANUAL_HOLD): void {
+    const state = this.getState(topic, partition);
+    if (state.holds.has(holder)) {
+      return;
+    }
+
+    state.holds.add(holder);
+    logger.info('Partition paused', { topic, partition, holder });
+    this.applyPause(state);
+  }
+
+  resumePartition(topic: string, partition: number, holder = MANUAL_HOLD): void {
+    const state = this.getState(topic, partition);
+    if (!state.holds.has(holder)) {
+      return;
+    }
+
+    state.holds.delete(holder);
+    logger.info('Partition resumed', { topic, partition, holder });
+    this.applyResume(state);
+  }
+
+  getPausedBy(holder: string): TopicPartitions[] {
+    return Array.from(this.partitions.values())
+      .filter(state => state.holds.has(holder))
+      .map(state => ({ topic: state.topic, partitions: [state.partition] }));
+  }
+
+  isPaused(topic: string, partition: number): boolean {
+    return this.partitions.get(this.getKey(topic, partition))?.pausedAt !== undefined;
+  }
+
+  getInFlight(topic: string, partition: number): number {
+    return this.partitions.get(this.getKey(topic, partition))?.inFlight ?? 0;
+  }
+
+  getMetrics(): BackpressureMetrics {
+    const now = Date.now();
+    const partitions = Array.from(this.partitions.values()).map(state => ({
+      topic: state.topic,
+      partition: state.partition,
+      inFlight: state.inFlight,
+      handlerLatencyMs: Math.round(state.handlerLatencyMs),
+      paused: state.pausedAt !== undefined,
+      manuallyPaused: state.holds.has(MANUAL_HOLD),
+      pausedBy: Array.from(state.holds),
+      pauseCount: state.pauseCount,
+      pausedMs: state.pausedMs + (state.pausedAt !== undefined ? now - state.pausedAt : 0)
+    }));
+
+    return {
+      totalInFlight: partitions.reduce((total, state) => total + state.inFlight, 0),
+      pausedPartitions: partitions.filter(state => state.paused).length,
+      partitions
+    };
+  }
+
+  clear(): void {
+    this.partitions.forEach(state => clearTimeout(state.latencyTimer));
+    this.partitions.clear();
+  }
+
+  private applyPause(state: PartitionState): void {
+    if (state.pausedAt !== undefined) {
+      return;
+    }
+
+    state.pausedAt = Date.now();
+    state.pauseCount++;
+    this.pause([{ topic: state.topic, partitions: [state.partition] }]);
+  }
+
+  private applyResume(state: PartitionState): void {
+    if (state.pausedAt === undefined || state.overloaded || state.holds.size > 0) {
+      return;
+    }
+
+    state.pausedMs += Date.now() - state.pausedAt;
+    state.pausedAt = undefined;
+    this.resume([{ topic: state.topic, partitions: [state.partition] }]);
+  }
+
+  private getState(topic: string, partition: number): PartitionState {
+    const key = this.getKey(topic, partition);
+    let state = this.partitions.get(key);
+    if (!state) {
+      state = {
+        topic,
+        partition,
+        inFlight: 0,
+        overloaded: false,
+        handlerLatencyMs: 0,
+        holds: new Set(),
+        pauseCount: 0,
+        pausedMs: 0
+      };
+      this.partitions.set(key, state);
+    }
+    return state;
+  }
+
+  private getKey(topic: string, partition: number): string {
+    return `${topic}:${partition}`;
+  }
+}
@@ -0,0 +1,118 @@
+import { CircuitBreaker } from './circuitBreaker';
+
+jest.mock('./logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    breaker = new CircuitBreaker({
+      windowSize: 4,
+      minimumCalls: 4,
+      failureRateThreshold: 0.5,
+      slowCallDurationMs: 100,
+      slowCallRateThreshold: 0.75,
+      openDurationMs: 1000
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should validate options', () => {
+    expect(() => new CircuitBreaker({ windowSize: 2, minimumCalls: 5 })).toThrow(
+      'windowSize must be at least minimumCalls, which must be at least 1'
+    );
+    expect(() => new CircuitBreaker({ failureRateThreshold: 0 })).toThrow(
+      'Rate thresholds must be between 0 (exclusive) and 1'
+    );
+    expect(() => new CircuitBreaker({ openDurationMs: 0 })).toThrow(
+      'openDurationMs must be positive'
+    );
+  });
+
+  test('should stay closed until minimum calls are recorded', () => {
+    breaker.recordFailure(1);
+    breaker.recordFailure(1);
+    breaker.recordFailure(1);
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  test('should open when failure rate reaches threshold and reject calls', () => {
+    const listener = jest.fn();
+    breaker.onStateChange(listener);
+
+    breaker.recordSuccess(1);
+    breaker.recordSuccess(1);
+    breaker.recordFailure(1);
+    breaker.recordFailure(1);
+
+    expect(breaker.getState()).toBe('open');
+    expect(listener).toHaveBeenCalledWith('open', 'closed');
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.getMetrics()).toEqual(
+      expect.objectContaining({ state: 'open', rejectedCalls: 1, transitions: 1 })
+    );
+  });
+
+  test('should open when slow call rate reaches threshold', () => {
+    breaker.recordSuccess(150);
+    breaker.recordSuccess(150);
+    breaker.recordSuccess(150);
+    breaker.recordSuccess(10);
+
+    expect(breaker.getState()).toBe('open');
+  });
+
+  test('should allow a single probe in half-open state', () => {
+    [1, 2, 3, 4].forEach(() => breaker.recordFailure(1));
+    jest.advanceTimersByTime(1000);
+
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.getState()).toBe('halfOpen');
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordSuccess(1);
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  test('should reopen when the probe fails', () => {
+    [1, 2, 3, 4].forEach(() => breaker.recordFailure(1));
+    jest.advanceTimersByTime(1000);
+    breaker.tryAcquire();
+
+    breaker.recordFailure(1);
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.getMetrics().transitions).toBe(3);
+  });
+
+  test('should wrap downstream calls with execute', async () => {
+    await expect(breaker.execute(async () => 'ok')).resolves.toBe('ok');
+
+    for (let i = 0; i < 3; i++) {
+      await expect(
+        breaker.execute(async () => {
+          throw new Error('downstream unavailable');
+        })
+      ).rejects.toThrow('downstream unavailable');
+    }
+
+    await expect(breaker.execute(async () => 'ok')).rejects.toThrow(
+      'Circuit breaker consumer-handlers is open'
+    );
+  });
+});
@@ -0,0 +1,215 @@
+import { logger } from './logger';
+
+export type CircuitState = 'closed' | 'open' | 'halfOpen';
+
+export type CircuitStateListener = (state: CircuitState, previous: CircuitState) => void;
+
+export interface CircuitBreakerOptions {
+  enabled?: boolean;
+  name?: string;
+  windowSize?: number;
+  minimumCalls?: number;
+  failureRateThreshold?: number;
+  slowCallDurationMs?: number;
+  slowCallRateThreshold?: number;
+  openDurationMs?: number;
+}
+
+export interface CircuitBreakerMetrics {
+  name: string;
+  state: CircuitState;
+  failureRate: number;
+  slowCallRate: number;
+  bufferedCalls: number;
+  rejectedCalls: number;
+  transitions: number;
+  lastTransitionAt?: number;
+}
+
+interface CallOutcome {
+  failed: boolean;
+  slow: boolean;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private window: CallOutcome[] = [];
+  private listeners: Set<CircuitStateListener> = new Set();
+  private openedAt = 0;
+  private probeInFlight = false;
+  private rejectedCalls = 0;
+  private transitions = 0;
+  private lastTransitionAt?: number;
+  private readonly name: string;
+  private readonly windowSize: number;
+  private readonly minimumCalls: number;
+  private readonly failureRateThreshold: number;
+  private readonly slowCallDurationMs: number;
+  private readonly slowCallRateThreshold: number;
+  private readonly openDurationMs: number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.name = options.name ?? 'consumer-handlers';
+    this.windowSize = options.windowSize ?? 20;
+    this.minimumCalls = options.minimumCalls ?? 10;
+    this.failureRateThreshold = options.failureRateThreshold ?? 0.5;
+    this.slowCallDurationMs = options.slowCallDurationMs ?? 10000;
+    this.slowCallRateThreshold = options.slowCallRateThreshold ?? 1;
+    this.openDurationMs = options.openDurationMs ?? 30000;
+
+    if (this.minimumCalls < 1 || this.windowSize < this.minimumCalls) {
+      throw new Error('windowSize must be at least minimumCalls, which must be at least 1');
+    }
+    [this.failureRateThreshold, this.slowCallRateThreshold].forEach(threshold => {
+      if (threshold <= 0 || threshold > 1) {
+        throw new Error('Rate thresholds must be between 0 (exclusive) and 1');
+      }
+    });
+    if (this.openDurationMs <= 0) {
+      throw new Error('openDurationMs must be positive');
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  getOpenDurationMs(): number {
+    return this.openDurationMs;
+  }
+
+  onStateChange(listener: CircuitStateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  tryAcquire(): boolean {
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < this.openDurationMs) {
+        this.rejectedCalls++;
+        return false;
+      }
+      this.transition('halfOpen');
+    }
+
+    if (this.state === 'halfOpen') {
+      if (this.probeInFlight) {
+        this.rejectedCalls++;
+        return false;
+      }
+      this.probeInFlight = true;
+    }
+
+    return true;
+  }
+
+  recordSuccess(durationMs: number): void {
+    this.record({ failed: false, slow: durationMs >= this.slowCallDurationMs });
+  }
+
+  recordFailure(durationMs: number): void {
+    this.record({ failed: true, slow: durationMs >= this.slowCallDurationMs });
+  }
+
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    if (!this.tryAcquire()) {
+      throw new Error(`Circuit breaker ${this.name} is open`);
+    }
+
+    const startTime = Date.now();
+    try {
+      const result = await operation();
+      this.recordSuccess(Date.now() - startTime);
+      return result;
+    } catch (error) {
+      this.recordFailure(Date.now() - startTime);
+      throw error;
+    }
+  }
+
+  getMetrics(): CircuitBreakerMetrics {
+    return {
+      name: this.name,
+      state: this.state,
+      failureRate: this.rate(outcome => outcome.failed),
+      slowCallRate: this.rate(outcome => outcome.slow),
+      bufferedCalls: this.window.length,
+      rejectedCalls: this.rejectedCalls,
+      transitions: this.transitions,
+      lastTransitionAt: this.lastTransitionAt
+    };
+  }
+
+  private record(outcome: CallOutcome): void {
+    if (this.state === 'halfOpen') {
+      this.probeInFlight = false;
+      this.transition(outcome.failed || outcome.slow ? 'open' : 'closed');
+      return;
+    }
+
+    this.window.push(outcome);
+    if (this.window.length > this.windowSize) {
+      this.window.shift();
+    }
+
+    if (
+      this.state === 'closed' &&
+      this.window.length >= this.minimumCalls &&
+      (this.rate(call => call.failed) >= this.failureRateThreshold ||
+        this.rate(call => call.slow) >= this.slowCallRateThreshold)
+    ) {
+      this.transition('open');
+    }
+  }
+
+  private rate(predicate: (outcome: CallOutcome) => boolean): number {
+    if (this.window.length === 0) {
+      return 0;
+    }
+    return this.window.filter(predicate).length / this.window.length;
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.state;
+    if (previous === state) {
+      return;
+    }
+
+    const metrics = this.getMetrics();
+    this.state = state;
+    this.transitions++;
+    this.lastTransitionAt = Date.now();
+
+    if (state === 'open') {
+      this.openedAt = Date.now();
+    }
+    if (state !== 'halfOpen') {
+      this.window = [];
+    }
+
+    logger.info('Circuit breaker state changed', {
+      name: this.name,
+      from: previous,
+      to: state,
+      failureRate: metrics.failureRate,
+      slowCallRate: metrics.slowCallRate
+    });
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(state, previous);
+      } catch (error) {
+        logger.error('Circuit breaker listener failed', {
+          name: this.name,
+          error: error instanceof Error ? error.message : error
+        });
+      }
+    });
+  }
+}
+
+export const createCircuitBreaker = (options?: CircuitBreakerOptions): CircuitBreaker => {
+  return new CircuitBreaker(options);
+};
@@ -0,0 +1,137 @@
+import { DeadLetterPublisher, DLQ_HEADERS, createDeadLetterPublisher } from './deadLetterPublisher';
+
+const mockProducer = {
+  send: jest.fn(),
+  disconnect: jest.fn()
+};
+
+jest.mock('./kafkaClient', () => ({
+  createProducer: jest.fn(() => Promise.resolve(mockProducer))
+}));
+
+jest.mock('./logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const { createProducer } = require('./kafkaClient');
+
+describe('DeadLetterPublisher', () => {
+  let publisher: DeadLetterPublisher;
+
+  const record = {
+    topic: 'orders',
+    partition: 2,
+    offset: '15',
+    key: Buffer.from('order-1'),
+    value: Buffer.from('{"id":"evt-1"}'),
+    headers: { 'x-msg-messageType': Buffer.from('OrderCreatedEvent') }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockProducer.send.mockResolvedValue([]);
+    mockProducer.disconnect.mockResolvedValue(undefined);
+    publisher = new DeadLetterPublisher({ consumerGroup: 'orders-group' });
+  });
+
+  describe('Topic Resolution', () => {
+    test('should default to <topic>.DLQ', () => {
+      expect(publisher.resolveTopic('orders')).toBe('orders.DLQ');
+    });
+
+    test('should use custom suffix', () => {
+      publisher = createDeadLetterPublisher({ topicSuffix: '-dead' });
+
+      expect(publisher.resolveTopic('orders')).toBe('orders-dead');
+    });
+
+    test('should use fixed topic when configured', () => {
+      publisher = new DeadLetterPublisher({ topic: 'all-dead-letters' });
+
+      expect(publisher.resolveTopic('orders')).toBe('all-dead-letters');
+    });
+  });
+
+  describe('Headers', () => {
+    test('should preserve original headers and add diagnostics', () => {
+      const headers = publisher.buildHeaders(record, 'Validation failed', new Error('bad amount'));
+
+      expect(headers['x-msg-messageType']).toEqual(Buffer.from('OrderCreatedEvent'));
+      expect(headers[DLQ_HEADERS.reason]).toEqual(Buffer.from('Validation failed'));
+      expect(headers[DLQ_HEADERS.originalTopic]).toEqual(Buffer.from('orders'));
+      expect(headers[DLQ_HEADERS.originalPartition]).toEqual(Buffer.from('2'));
+      expect(headers[DLQ_HEADERS.originalOffset]).toEqual(Buffer.from('15'));
+      expect(headers[DLQ_HEADERS.exceptionMessage]).toEqual(Buffer.from('bad amount'));
+      expect(headers[DLQ_HEADERS.consumerGroup]).toEqual(Buffer.from('orders-group'));
+      expect(headers[DLQ_HEADERS.firstFailureTimestamp]).toEqual(expect.any(Buffer));
+    });
+
+    test('should keep existing first-failure timestamp', () => {
+      const headers = publisher.buildHeaders(
+        {
+          ...record,
+          headers: { [DLQ_HEADERS.firstFailureTimestamp]: Buffer.from('1700000000000') }
+        },
+        'Retries exhausted'
+      );
+
+      expect(headers[DLQ_HEADERS.firstFailureTimestamp]).toEqual(Buffer.from('1700000000000'));
+      expect(headers[DLQ_HEADERS.exceptionMessage]).toBeUndefined();
+    });
+
+    test('should accept string errors', () => {
+      const headers = publisher.buildHeaders(record, 'Rejected', 'amount must be positive');
+
+      expect(headers[DLQ_HEADERS.exceptionMessage]).toEqual(Buffer.from('amount must be positive'));
+    });
+  });
+
+  describe('Publishing', () => {
+    test('should connect lazily and publish original key and value', async () => {
+      const result = await publisher.publish(record, 'Rejected');
+
+      expect(createProducer).toHaveBeenCalledTimes(1);
+      expect(mockProducer.send).toHaveBeenCalledWith({
+        topic: 'orders.DLQ',
+        messages: [
+          expect.objectContaining({
+            key: record.key,
+            value: record.value,
+            headers: expect.objectContaining({
+              [DLQ_HEADERS.reason]: Buffer.from('Rejected')
+            })
+          })
+        ]
+      });
+      expect(result).toEqual({ topic: 'orders.DLQ', reason: 'Rejected' });
+    });
+
+    test('should reuse connected producer', async () => {
+      await publisher.connect();
+      await publisher.publish(record, 'First');
+      await publisher.publish(record, 'Second');
+
+      expect(createProducer).toHaveBeenCalledTimes(1);
+      expect(publisher.isConnected()).toBe(true);
+    });
+
+    test('should propagate publish failures', async () => {
+      mockProducer.send.mockRejectedValue(new Error('Broker unavailable'));
+
+      await expect(publisher.publish(record, 'Rejected')).rejects.toThrow('Broker unavailable');
+    });
+
+    test('should disconnect producer', async () => {
+      await publisher.connect();
+
+      await publisher.disconnect();
+
+      expect(mockProducer.disconnect).toHaveBeenCalledTimes(1);
+      expect(publisher.isConnected()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { IHeaders, Producer } from 'kafkajs';
+import { createProducer } from './kafkaClient';
+import { config } from './config';
+import { logger } from './logger';
+import { headerValueToString } from './messageHandler';
+
+export const DLQ_HEADERS = {
+  reason: 'x-dlq-reason',
+  originalTopic: 'x-dlq-original-topic',
+  originalPartition: 'x-dlq-original-partition',
+  originalOffset: 'x-dlq-original-offset',
+  exceptionMessage: 'x-dlq-exception-message',
+  firstFailureTimestamp: 'x-dlq-first-failure-timestamp',
+  consumerGroup: 'x-dlq-consumer-group'
+} as const;
+
+export interface DeadLetterOptions {
+  enabled?: boolean;
+  topic?: string;
+  topicSuffix?: string;
+  consumerGroup?: string;
+}
+
+export interface DeadLetterRecord {
+  topic: string;
+  partition: number;
+  offset: string;
+  key?: Buffer | string | null;
+  value: Buffer | string | null;
+  headers?: IHeaders;
+}
+
+export interface DeadLetterResult {
+  topic: string;
+  reason: string;
+}
+
+export class DeadLetterPublisher {
+  private producer?: Producer;
+  private connecting?: Promise<Producer>;
+  private readonly topic?: string;
+  private readonly topicSuffix: string;
+  private readonly consumerGroup: string;
+
+  constructor(options: DeadLetterOptions = {}) {
+    this.topic = options.topic;
+    this.topicSuffix = options.topicSuffix ?? '.DLQ';
+    this.consumerGroup = options.consumerGroup ?? config.kafkaConsumerGroupId;
+  }
+
+  async connect(): Promise<void> {
+    if (this.producer) {
+      return;
+    }
+
+    if (!this.connecting) {
+      this.connecting = createProducer();
+    }
+
+    try {
+      this.producer = await this.connecting;
+      logger.info('Dead-letter publisher connected', { consumerGroup: this.consumerGroup });
+    } finally {
+      this.connecting = undefined;
+    }
+  }
+
+  resolveTopic(sourceTopic: string): string {
+    return this.topic || `${sourceTopic}${this.topicSuffix}`;
+  }
+
+  buildHeaders(record: DeadLetterRecord, reason: string, error?: unknown): IHeaders {
+    const headers: IHeaders = { ...record.headers };
+    const firstFailure =
+      headerValueToString(record.headers?.[DLQ_HEADERS.firstFailureTimestamp]) ||
+      Date.now().toString();
+
+    headers[DLQ_HEADERS.reason] = Buffer.from(reason);
+    headers[DLQ_HEADERS.originalTopic] = Buffer.from(record.topic);
+    headers[DLQ_HEADERS.originalPartition] = Buffer.from(record.partition.toString());
+    headers[DLQ_HEADERS.originalOffset] = Buffer.from(record.offset);
+    headers[DLQ_HEADERS.firstFailureTimestamp] = Buffer.from(firstFailure);
+    headers[DLQ_HEADERS.consumerGroup] = Buffer.from(this.consumerGroup);
+
+    if (error !== undefined) {
+      headers[DLQ_HEADERS.exceptionMessage] = Buffer.from(
+        error instanceof Error ? error.message : String(error)
+      );
+    } else {
+      delete headers[DLQ_HEADERS.exceptionMessage];
+    }
+
+    return headers;
+  }
+
+  async publish(
+    record: DeadLetterRecord,
+    reason: string,
+    error?: unknown
+  ): Promise<DeadLetterResult> {
+    await this.connect();
+
+    const topic = this.resolveTopic(record.topic);
+
+    try {
+      await this.producer!.send({
+        topic,
+        messages: [
+          {
+            key: record.key ?? null,
+            value: record.value,
+            headers: this.buildHeaders(record, reason, error)
+          }
+        ]
+      });
+
+      logger.info('Message published to dead-letter topic', {
+        dlqTopic: topic,
+        reason,
+        topic: record.topic,
+        partition: record.partition,
+        offset: record.offset
+      });
+
+      return { topic, reason };
+    } catch (publishError) {
+      logger.error('Failed to publish message to dead-letter topic', {
+        dlqTopic: topic,
+        reason,
+        topic: record.topic,
+        partition: record.partition,
+        offset: record.offset,
+        error: publishError instanceof Error ? publishError.message : publishError
+      });
+      throw publishError;
+    }
+  }
+
+  isConnected(): boolean {
+    return !!this.producer;
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.producer) {
+      await this.producer.disconnect();
+      this.producer = undefined;
+      logger.info('Dead-letter publisher disconnected');
+    }
+  }
+}
+
+export const createDeadLetterPublisher = (options?: DeadLetterOptions): DeadLetterPublisher => {
+  return new DeadLetterPublisher(options);
+};
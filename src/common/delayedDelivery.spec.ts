@@ -0,0 +1,65 @@
+import { KafkaMessage } from 'kafkajs';
+import {
+  DELAY_HEADERS,
+  buildDelayHeaders,
+  getDefaultDelayTopic,
+  getDeliverAt,
+  resolveDeliverAt,
+  stripDelayHeaders
+} from './delayedDelivery';
+import { config } from './config';
+
+describe('DelayedDelivery', () => {
+  const message = (headers: KafkaMessage['headers']): KafkaMessage =>
+    ({ offset: '0', key: null, value: null, timestamp: '0', attributes: 0, headers }) as any;
+
+  test('should derive the default delay topic from the configured topic', () => {
+    expect(getDefaultDelayTopic()).toBe(`${config.kafkaTopic}.delay`);
+  });
+
+  test('should prefer KAFKA_DELAY_TOPIC for the default delay topic', () => {
+    process.env.KAFKA_DELAY_TOPIC = 'orders.scheduled';
+    try {
+      expect(getDefaultDelayTopic()).toBe('orders.scheduled');
+    } finally {
+      delete process.env.KAFKA_DELAY_TOPIC;
+    }
+  });
+
+  test('should resolve delayMs relative to now', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1000);
+    expect(resolveDeliverAt({ delayMs: 500 })).toBe(1500);
+    jest.restoreAllMocks();
+  });
+
+  test('should resolve deliverAt from a date or epoch', () => {
+    expect(resolveDeliverAt({ deliverAt: new Date(5000) })).toBe(5000);
+    expect(resolveDeliverAt({ deliverAt: 7000 })).toBe(7000);
+    expect(resolveDeliverAt({})).toBeUndefined();
+  });
+
+  test('should reject invalid delay options', () => {
+    expect(() => resolveDeliverAt({ deliverAt: 1, delayMs: 1 })).toThrow(
+      'Specify either deliverAt or delayMs, not both'
+    );
+    expect(() => resolveDeliverAt({ delayMs: -1 })).toThrow(
+      'delayMs must be a non-negative number'
+    );
+    expect(() => resolveDeliverAt({ deliverAt: new Date('invalid') })).toThrow(
+      'deliverAt must be a valid date'
+    );
+  });
+
+  test('should build, read and strip delay headers', () => {
+    const headers: Record<string, Buffer> = {
+      ...buildDelayHeaders(9000, 'orders', 2),
+      source: Buffer.from('test')
+    };
+
+    expect(headers[DELAY_HEADERS.targetPartition]).toEqual(Buffer.from('2'));
+    expect(getDeliverAt(message(headers))).toBe(9000);
+    expect(getDeliverAt(message({}))).toBeUndefined();
+    expect(stripDelayHeaders(headers)).toEqual({ source: Buffer.from('test') });
+    expect(buildDelayHeaders(9000, 'orders')).not.toHaveProperty(DELAY_HEADERS.targetPartition);
+  });
+});
@@ -0,0 +1,73 @@
+import { IHeaders, KafkaMessage } from 'kafkajs';
+import { config } from './config';
+import { headerValueToString } from './messageHandler';
+
+export const DELAY_HEADERS = {
+  deliverAt: 'x-delay-deliver-at',
+  targetTopic: 'x-delay-target-topic',
+  targetPartition: 'x-delay-target-partition'
+} as const;
+
+export interface DelayOptions {
+  deliverAt?: Date | number;
+  delayMs?: number;
+}
+
+export function getDefaultDelayTopic(): string {
+  return process.env.KAFKA_DELAY_TOPIC || `${config.kafkaTopic}.delay`;
+}
+
+export function resolveDeliverAt(options: DelayOptions = {}): number | undefined {
+  if (options.deliverAt !== undefined && options.delayMs !== undefined) {
+    throw new Error('Specify either deliverAt or delayMs, not both');
+  }
+
+  if (options.delayMs !== undefined) {
+    if (!Number.isFinite(options.delayMs) || options.delayMs < 0) {
+      throw new Error('delayMs must be a non-negative number');
+    }
+    return Date.now() + options.delayMs;
+  }
+
+  if (options.deliverAt !== undefined) {
+    const deliverAt =
+      options.deliverAt instanceof Date ? options.deliverAt.getTime() : options.deliverAt;
+    if (!Number.isFinite(deliverAt)) {
+      throw new Error('deliverAt must be a valid date');
+    }
+    return deliverAt;
+  }
+
+  return undefined;
+}
+
+export function getDeliverAt(message: KafkaMessage): number | undefined {
+  const deliverAt = parseInt(
+    headerValueToString(message.headers?.[DELAY_HEADERS.deliverAt]) || '',
+    10
+  );
+  return isNaN(deliverAt) ? undefined : deliverAt;
+}
+
+export function buildDelayHeaders(
+  deliverAt: number,
+  targetTopic: string,
+  targetPartition?: number
+): Record<string, Buffer> {
+  const headers: Record<string, Buffer> = {
+    [DELAY_HEADERS.deliverAt]: Buffer.from(deliverAt.toString()),
+    [DELAY_HEADERS.targetTopic]: Buffer.from(targetTopic)
+  };
+  if (targetPartition !== undefined) {
+    headers[DELAY_HEADERS.targetPartition] = Buffer.from(targetPartition.toString());
+  }
+  return headers;
+}
+
+export function stripDelayHeaders(headers: IHeaders = {}): IHeaders {
+  const stripped: IHeaders = { ...headers };
+  Object.values(DELAY_HEADERS).forEach(header => {
+    delete stripped[header];
+  });
+  return stripped;
+}
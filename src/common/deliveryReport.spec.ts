@@ -0,0 +1,54 @@
+import { matchRecordMetadata } from './deliveryReport';
+
+describe('DeliveryReport', () => {
+  const metadata = (partition: number, baseOffset: string, logAppendTime = '-1') => ({
+    topicName: 'orders',
+    partition,
+    errorCode: 0,
+    baseOffset,
+    logAppendTime
+  });
+
+  test('should assign sequential offsets per explicit partition', () => {
+    const reports = matchRecordMetadata(
+      'orders',
+      [
+        { value: 'a', partition: 0, timestamp: '100' },
+        { value: 'b', partition: 1, timestamp: '101' },
+        { value: 'c', partition: 0, timestamp: '102' }
+      ],
+      [metadata(0, '10'), metadata(1, '20')]
+    );
+
+    expect(reports).toEqual([
+      { topic: 'orders', partition: 0, baseOffset: '10', offset: '10', timestamp: '100' },
+      { topic: 'orders', partition: 1, baseOffset: '20', offset: '20', timestamp: '101' },
+      { topic: 'orders', partition: 0, baseOffset: '10', offset: '11', timestamp: '102' }
+    ]);
+  });
+
+  test('should use the only partition when the broker chose it', () => {
+    const [report] = matchRecordMetadata(
+      'orders',
+      [{ value: 'a' }],
+      [metadata(2, '5', '1700000000000')]
+    );
+
+    expect(report).toEqual(
+      expect.objectContaining({ partition: 2, offset: '5', timestamp: '1700000000000' })
+    );
+  });
+
+  test('should leave offsets unset when the partition cannot be determined', () => {
+    const reports = matchRecordMetadata(
+      'orders',
+      [{ value: 'a', timestamp: '100' }],
+      [metadata(0, '1'), metadata(1, '2')]
+    );
+
+    expect(reports).toEqual([{ topic: 'orders', partition: undefined, timestamp: '100' }]);
+    expect(matchRecordMetadata('orders', [{ value: 'a' }])).toEqual([
+      { topic: 'orders', partition: undefined, timestamp: undefined }
+    ]);
+  });
+});
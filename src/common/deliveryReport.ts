@@ -0,0 +1,54 @@
+import { Message, RecordMetadata } from 'kafkajs';
+
+export interface DeliveryReport {
+  topic: string;
+  partition?: number;
+  baseOffset?: string;
+  offset?: string;
+  timestamp?: string;
+  messageId?: string;
+  correlationId?: string;
+  error?: Error;
+}
+
+export type DeliveryCallback = (report: DeliveryReport) => void;
+
+export function matchRecordMetadata(
+  topic: string,
+  messages: Message[],
+  recordMetadata: RecordMetadata[] = []
+): DeliveryReport[] {
+  const partitions = recordMetadata.filter(metadata => metadata.topicName === topic);
+  const positions: Map<number, number> = new Map();
+
+  return messages.map(message => {
+    const metadata =
+      message.partition !== undefined
+        ? partitions.find(candidate => candidate.partition === message.partition)
+        : partitions.length === 1
+          ? partitions[0]
+          : undefined;
+
+    const report: DeliveryReport = {
+      topic,
+      partition: metadata?.partition ?? message.partition,
+      timestamp: message.timestamp
+    };
+    if (!metadata) {
+      return report;
+    }
+
+    const baseOffset = metadata.baseOffset ?? metadata.offset;
+    const position = positions.get(metadata.partition) ?? 0;
+    positions.set(metadata.partition, position + 1);
+
+    report.baseOffset = baseOffset;
+    if (baseOffset !== undefined) {
+      report.offset = (BigInt(baseOffset) + BigInt(position)).toString();
+    }
+    if (metadata.logAppendTime && metadata.logAppendTime !== '-1') {
+      report.timestamp = metadata.logAppendTime;
+    }
+    return report;
+  });
+}
@@ -0,0 +1,107 @@
+import { DueTimeGate } from './dueTimeGate';
+
+jest.mock('./logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('DueTimeGate', () => {
+  const createPayload = (messages: Array<{ offset: string; dueTime?: number }>) => {
+    const resume = jest.fn();
+    return {
+      resume,
+      payload: {
+        batch: {
+          topic: 'orders.retry.5s',
+          partition: 0,
+          messages: messages.map(message => ({
+            offset: message.offset,
+            dueTime: message.dueTime
+          }))
+        },
+        resolveOffset: jest.fn(),
+        heartbeat: jest.fn().mockResolvedValue(undefined),
+        pause: jest.fn(() => resume),
+        isRunning: jest.fn(() => true),
+        isStale: jest.fn(() => false)
+      } as any
+    };
+  };
+
+  let gate: DueTimeGate;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    gate = new DueTimeGate((message: any) => message.dueTime);
+  });
+
+  afterEach(() => {
+    gate.clear();
+    jest.useRealTimers();
+  });
+
+  test('should process and resolve due messages', async () => {
+    const { payload } = createPayload([{ offset: '1', dueTime: Date.now() - 1 }, { offset: '2' }]);
+    const processMessage = jest.fn().mockResolvedValue(undefined);
+
+    await gate.processBatch(payload, processMessage);
+
+    expect(processMessage).toHaveBeenCalledTimes(2);
+    expect(payload.resolveOffset).toHaveBeenCalledWith('1');
+    expect(payload.resolveOffset).toHaveBeenCalledWith('2');
+    expect(payload.pause).not.toHaveBeenCalled();
+  });
+
+  test('should pause partition until head message is due', async () => {
+    const { payload, resume } = createPayload([
+      { offset: '1', dueTime: Date.now() - 1 },
+      { offset: '2', dueTime: Date.now() + 5000 },
+      { offset: '3', dueTime: Date.now() - 1 }
+    ]);
+    const processMessage = jest.fn().mockResolvedValue(undefined);
+
+    await gate.processBatch(payload, processMessage);
+
+    expect(processMessage).toHaveBeenCalledTimes(1);
+    expect(payload.resolveOffset).toHaveBeenCalledTimes(1);
+    expect(payload.pause).toHaveBeenCalledTimes(1);
+    expect(gate.getMetrics()).toEqual({ pauses: 1, pausedPartitions: 1 });
+
+    jest.advanceTimersByTime(5000);
+
+    expect(resume).toHaveBeenCalledTimes(1);
+    expect(gate.getMetrics().pausedPartitions).toBe(0);
+  });
+
+  test('should not resolve offset when processing fails', async () => {
+    const { payload } = createPayload([{ offset: '1' }]);
+
+    await expect(
+      gate.processBatch(payload, jest.fn().mockRejectedValue(new Error('failed')))
+    ).rejects.toThrow('failed');
+    expect(payload.resolveOffset).not.toHaveBeenCalled();
+  });
+
+  test('should stop when consumer is no longer running', async () => {
+    const { payload } = createPayload([{ offset: '1' }]);
+    payload.isRunning.mockReturnValue(false);
+    const processMessage = jest.fn();
+
+    await gate.processBatch(payload, processMessage);
+
+    expect(processMessage).not.toHaveBeenCalled();
+  });
+
+  test('should cancel pending resumes on clear', async () => {
+    const { payload, resume } = createPayload([{ offset: '1', dueTime: Date.now() + 1000 }]);
+
+    await gate.processBatch(payload, jest.fn());
+    gate.clear();
+    jest.advanceTimersByTime(1000);
+
+    expect(resume).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,78 @@
+import { EachBatchPayload, KafkaMessage } from 'kafkajs';
+import { logger } from './logger';
+
+export type DueTimeResolver = (message: KafkaMessage) => number | undefined;
+
+export interface DueTimeGateMetrics {
+  pauses: number;
+  pausedPartitions: number;
+}
+
+export class DueTimeGate {
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private pauses = 0;
+
+  constructor(private resolveDueTime: DueTimeResolver) {}
+
+  async processBatch(
+    payload: EachBatchPayload,
+    processMessage: (message: KafkaMessage) => Promise<void>
+  ): Promise<void> {
+    const { batch, resolveOffset, heartbeat, pause, isRunning, isStale } = payload;
+
+    for (const message of batch.messages) {
+      if (!isRunning() || isStale()) {
+        break;
+      }
+
+      const dueTime = this.resolveDueTime(message);
+      const waitMs = dueTime === undefined ? 0 : dueTime - Date.now();
+      if (waitMs > 0) {
+        this.pauseUntilDue(batch.topic, batch.partition, waitMs, pause);
+        break;
+      }
+
+      await processMessage(message);
+      resolveOffset(message.offset);
+      await heartbeat();
+    }
+  }
+
+  getMetrics(): DueTimeGateMetrics {
+    return {
+      pauses: this.pauses,
+      pausedPartitions: this.timers.size
+    };
+  }
+
+  clear(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  private pauseUntilDue(
+    topic: string,
+    partition: number,
+    waitMs: number,
+    pause: EachBatchPayload['pause']
+  ): void {
+    const key = `${topic}:${partition}`;
+    const existing = this.timers.get(key);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    const resume = pause();
+    this.pauses++;
+    logger.debug('Partition paused until head message is due', { topic, partition, waitMs });
+
+    this.timers.set(
+      key,
+      setTimeout(() => {
+        this.timers.delete(key);
+        resume();
+        logger.debug('Partition resumed', { topic, partition });
+      }, waitMs)
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import * as http from 'http';
+import { HealthServer, formatPrometheus } from './healthServer';
+
+jest.mock('./logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const request = (
+  port: number,
+  path: string,
+  method = 'GET'
+): Promise<{ status: number; headers: http.IncomingHttpHeaders; body: string }> =>
+  new Promise((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port, path, method }, res => {
+      let body = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => (body += chunk));
+      res.on('end', () => resolve({ status: res.statusCode!, headers: res.headers, body }));
+    });
+    req.on('error', reject);
+    req.end();
+  });
+
+describe('formatPrometheus', () => {
+  test('should render help, type and labelled samples', () => {
+    const text = formatPrometheus([
+      {
+        name: 'kafka_consumer_messages_total',
+        help: 'Messages handled',
+        type: 'counter',
+        samples: [
+          { labels: { result: 'processed' }, value: 3 },
+          { labels: { result: 'say "hi"' }, value: 1 }
+        ]
+      },
+      {
+        name: 'latency_ms',
+        help: 'Latency',
+        type: 'summary',
+        samples: [{ name: 'latency_ms_count', value: Infinity }]
+      }
+    ]);
+
+    expect(text).toBe(
+      [
+        '# HELP kafka_consumer_messages_total Messages handled',
+        '# TYPE kafka_consumer_messages_total counter',
+        'kafka_consumer_messages_total{result="processed"} 3',
+        'kafka_consumer_messages_total{result="say \\"hi\\""} 1',
+        '# HELP latency_ms Latency',
+        '# TYPE latency_ms summary',
+        'latency_ms_count +Inf',
+        ''
+      ].join('\n')
+    );
+  });
+});
+
+describe('HealthServer', () => {
+  let server: HealthServer;
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  test('should reject invalid ports', () => {
+    server = new HealthServer({ port: 0 });
+    expect(() => new HealthServer({ port: 70000 })).toThrow('Invalid health server port: 70000');
+    expect(() => new HealthServer({ port: -1 })).toThrow('Invalid health server port: -1');
+  });
+
+  test('should serve liveness, readiness and metrics', async () => {
+    let brokerConnected = false;
+    server = new HealthServer({
+      port: 0,
+      host: '127.0.0.1',
+      readinessChecks: { brokerConnectivity: () => brokerConnected },
+      collectors: [
+        () => [{ name: 'up', help: 'Process up', type: 'gauge', samples: [{ value: 1 }] }]
+      ]
+    });
+    await server.start();
+    const port = server.getPort()!;
+
+    const live = await request(port, '/health/live');
+    expect(live.status).toBe(200);
+    expect(JSON.parse(live.body)).toEqual({ status: 'ok' });
+
+    const notReady = await request(port, '/health/ready');
+    expect(notReady.status).toBe(503);
+    expect(JSON.parse(notReady.body)).toEqual({
+      status: 'not_ready',
+      checks: { brokerConnectivity: false }
+    });
+
+    brokerConnected = true;
+    const ready = await request(port, '/health/ready');
+    expect(ready.status).toBe(200);
+
+    const metrics = await request(port, '/metrics');
+    expect(metrics.status).toBe(200);
+    expect(metrics.headers['content-type']).toContain('text/plain; version=0.0.4');
+    expect(metrics.body).toContain('up 1');
+  });
+
+  test('should treat throwing readiness checks as not ready', async () => {
+    server = new HealthServer({ port: 0 });
+    server.addReadinessCheck('producerConnected', () => {
+      throw new Error('not initialized');
+    });
+
+    await expect(server.checkReadiness()).resolves.toEqual({
+      ready: false,
+      checks: { producerConnected: false }
+    });
+  });
+
+  test('should return 404 for unknown paths and 405 for other methods', async () => {
+    server = new HealthServer({ port: 0, host: '127.0.0.1' });
+    await server.start();
+    const port = server.getPort()!;
+
+    expect((await request(port, '/unknown')).status).toBe(404);
+    expect((await request(port, '/metrics', 'POST')).status).toBe(405);
+  });
+});
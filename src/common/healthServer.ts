@@ -0,0 +1,210 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { logger } from './logger';
+
+export type HealthCheck = () => boolean | Promise<boolean>;
+
+export type PrometheusMetricType = 'counter' | 'gauge' | 'summary' | 'histogram';
+
+export interface PrometheusSample {
+  name?: string;
+  labels?: Record<string, string | number>;
+  value: number;
+}
+
+export interface PrometheusMetric {
+  name: string;
+  help: string;
+  type: PrometheusMetricType;
+  samples: PrometheusSample[];
+}
+
+export type MetricsCollector = () => PrometheusMetric[];
+
+export interface HealthServerOptions {
+  port?: number;
+  host?: string;
+  readinessChecks?: Record<string, HealthCheck>;
+  collectors?: MetricsCollector[];
+}
+
+export interface ReadinessReport {
+  ready: boolean;
+  checks: Record<string, boolean>;
+}
+
+function escapeLabelValue(value: string | number): string {
+  return String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  return value.toString();
+}
+
+export function formatPrometheus(metrics: PrometheusMetric[]): string {
+  const lines: string[] = [];
+
+  for (const metric of metrics) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+
+    for (const sample of metric.samples) {
+      const labels = Object.entries(sample.labels ?? {})
+        .map(([label, value]) => `${label}="${escapeLabelValue(value)}"`)
+        .join(',');
+      const name = sample.name ?? metric.name;
+      lines.push(`${labels ? `${name}{${labels}}` : name} ${formatValue(sample.value)}`);
+    }
+  }
+
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+export class HealthServer {
+  private server?: http.Server;
+  private readonly port: number;
+  private readonly host?: string;
+  private readonly readinessChecks: Map<string, HealthCheck>;
+  private readonly collectors: MetricsCollector[];
+
+  constructor(options: HealthServerOptions = {}) {
+    this.port = options.port ?? parseInt(process.env.PORT || '3000', 10);
+    this.host = options.host;
+    this.readinessChecks = new Map(Object.entries(options.readinessChecks ?? {}));
+    this.collectors = [...(options.collectors ?? [])];
+
+    if (!Number.isInteger(this.port) || this.port < 0 || this.port > 65535) {
+      throw new Error(`Invalid health server port: ${this.port}`);
+    }
+  }
+
+  addReadinessCheck(name: string, check: HealthCheck): void {
+    this.readinessChecks.set(name, check);
+  }
+
+  addMetricsCollector(collector: MetricsCollector): void {
+    this.collectors.push(collector);
+  }
+
+  async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        logger.error('Health server request failed', {
+          url: req.url,
+          error: error instanceof Error ? error.message : error
+        });
+        if (!res.headersSent) {
+          res.writeHead(500, { 'Content-Type': 'text/plain' });
+        }
+        res.end('Internal Server Error');
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    logger.info('Health server listening', { port: this.getPort() });
+  }
+
+  getPort(): number | undefined {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? (address as AddressInfo).port : undefined;
+  }
+
+  async checkReadiness(): Promise<ReadinessReport> {
+    const checks: Record<string, boolean> = {};
+
+    await Promise.all(
+      Array.from(this.readinessChecks.entries()).map(async ([name, check]) => {
+        try {
+          checks[name] = await check();
+        } catch (error) {
+          logger.error('Readiness check failed', {
+            check: name,
+            error: error instanceof Error ? error.message : error
+          });
+          checks[name] = false;
+        }
+      })
+    );
+
+    return { ready: Object.values(checks).every(Boolean), checks };
+  }
+
+  collectMetrics(): string {
+    return formatPrometheus(this.collectors.flatMap(collector => collector()));
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = undefined;
+    await new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+      server.closeAllConnections();
+    });
+    logger.info('Health server stopped');
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const path = (req.url ?? '/').split('?')[0];
+
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { Allow: 'GET, HEAD', 'Content-Type': 'text/plain' });
+      res.end('Method Not Allowed');
+      return;
+    }
+
+    switch (path) {
+      case '/health/live':
+        this.sendJson(res, 200, { status: 'ok' });
+        return;
+
+      case '/health/ready': {
+        const report = await this.checkReadiness();
+        this.sendJson(res, report.ready ? 200 : 503, {
+          status: report.ready ? 'ready' : 'not_ready',
+          checks: report.checks
+        });
+        return;
+      }
+
+      case '/metrics':
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+        res.end(this.collectMetrics());
+        return;
+
+      default:
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('Not Found');
+    }
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
+
+export const createHealthServer = (options?: HealthServerOptions): HealthServer => {
+  return new HealthServer(options);
+};
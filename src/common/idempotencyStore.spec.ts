@@ -0,0 +1,199 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  FileIdempotencyStore,
+  InMemoryIdempotencyStore,
+  createIdempotencyStore
+} from './idempotencyStore';
+
+jest.mock('./logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('IdempotencyStore', () => {
+  describe('InMemoryIdempotencyStore', () => {
+    let store: InMemoryIdempotencyStore;
+
+    beforeEach(() => {
+      store = new InMemoryIdempotencyStore({ maxEntries: 3, ttlMs: 1000 });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('should reject invalid options', () => {
+      expect(() => new InMemoryIdempotencyStore({ maxEntries: 0 })).toThrow(
+        'maxEntries must be at least 1'
+      );
+      expect(() => new InMemoryIdempotencyStore({ ttlMs: 0 })).toThrow('ttlMs must be positive');
+    });
+
+    test('should remember added ids', async () => {
+      await store.add('evt-1');
+
+      expect(await store.has('evt-1')).toBe(true);
+      expect(await store.has('evt-2')).toBe(false);
+      expect(store.size()).toBe(1);
+    });
+
+    test('should evict least recently used id when full', async () => {
+      await store.add('evt-1');
+      await store.add('evt-2');
+      await store.add('evt-3');
+      await store.has('evt-1');
+      await store.add('evt-4');
+
+      expect(await store.has('evt-2')).toBe(false);
+      expect(await store.has('evt-1')).toBe(true);
+      expect(store.getMetrics().evictions).toBe(1);
+    });
+
+    test('should expire ids after ttl', async () => {
+      jest.useFakeTimers();
+      await store.add('evt-1');
+
+      jest.advanceTimersByTime(1001);
+
+      expect(await store.has('evt-1')).toBe(false);
+      expect(store.size()).toBe(0);
+      expect(store.getMetrics().expirations).toBe(1);
+    });
+
+    test('should report hit rate', async () => {
+      await store.add('evt-1');
+      await store.has('evt-1');
+      await store.has('evt-1');
+      await store.has('evt-2');
+
+      const metrics = store.getMetrics();
+      expect(metrics.hits).toBe(2);
+      expect(metrics.misses).toBe(1);
+      expect(metrics.hitRate).toBeCloseTo(2 / 3);
+    });
+
+    test('should clear ids', async () => {
+      await store.add('evt-1');
+
+      await store.clear();
+
+      expect(store.size()).toBe(0);
+    });
+  });
+
+  describe('FileIdempotencyStore', () => {
+    let directory: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'idempotency-'));
+      filePath = path.join(directory, 'store', 'processed.log');
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    test('should require open before use', async () => {
+      const store = new FileIdempotencyStore({ filePath });
+
+      await expect(store.has('evt-1')).rejects.toThrow('File idempotency store is not open');
+    });
+
+    test('should survive restarts', async () => {
+      const store = new FileIdempotencyStore({ filePath, compactionIntervalMs: 0 });
+      await store.open();
+      await store.add('evt-1');
+      await store.add('evt-2');
+      await store.close();
+
+      const restarted = new FileIdempotencyStore({ filePath, compactionIntervalMs: 0 });
+      await restarted.open();
+
+      expect(await restarted.has('evt-1')).toBe(true);
+      expect(await restarted.has('evt-2')).toBe(true);
+      expect(restarted.size()).toBe(2);
+      await restarted.close();
+    });
+
+    test('should append one log line per add', async () => {
+      const store = new FileIdempotencyStore({ filePath, compactionIntervalMs: 0 });
+      await store.open();
+      await store.add('evt-1');
+      await store.add('evt-1');
+
+      const content = await fs.readFile(filePath, 'utf8');
+      expect(content.trim().split('\n')).toHaveLength(2);
+      await store.close();
+    });
+
+    test('should compact log when it grows past the ratio', async () => {
+      const store = new FileIdempotencyStore({
+        filePath,
+        compactionIntervalMs: 0,
+        compactionRatio: 2,
+        minCompactionLines: 4
+      });
+      await store.open();
+      for (let i = 0; i < 4; i++) {
+        await store.add('evt-1');
+      }
+
+      const content = await fs.readFile(filePath, 'utf8');
+      expect(content.trim().split('\n')).toHaveLength(1);
+      expect(store.getMetrics().compactions).toBe(1);
+      await store.close();
+    });
+
+    test('should drop expired and corrupt entries on open', async () => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(
+        filePath,
+        [
+          JSON.stringify({ id: 'expired', expiresAt: Date.now() - 1 }),
+          'not-json',
+          JSON.stringify({ id: 'live', expiresAt: Date.now() + 60000 })
+        ].join('\n')
+      );
+
+      const store = createIdempotencyStore({ filePath, compactionIntervalMs: 0 });
+      await store.open!();
+
+      expect(await store.has('live')).toBe(true);
+      expect(await store.has('expired')).toBe(false);
+      const content = await fs.readFile(filePath, 'utf8');
+      expect(content.trim().split('\n')).toHaveLength(1);
+      await store.close!();
+    });
+
+    test('should clear log file', async () => {
+      const store = new FileIdempotencyStore({ filePath, compactionIntervalMs: 0 });
+      await store.open();
+      await store.add('evt-1');
+
+      await store.clear();
+
+      expect(await fs.readFile(filePath, 'utf8')).toBe('');
+      expect(store.size()).toBe(0);
+      await store.close();
+    });
+  });
+
+  describe('createIdempotencyStore', () => {
+    test('should create in-memory store without file path', () => {
+      expect(createIdempotencyStore()).toBeInstanceOf(InMemoryIdempotencyStore);
+      expect(createIdempotencyStore({ filePath: '' })).toBeInstanceOf(InMemoryIdempotencyStore);
+    });
+
+    test('should create file store with file path', () => {
+      expect(createIdempotencyStore({ filePath: '/tmp/processed.log' })).toBeInstanceOf(
+        FileIdempotencyStore
+      );
+    });
+  });
+});
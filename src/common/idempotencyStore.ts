@@ -0,0 +1,307 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { logger } from './logger';
+
+export interface IdempotencyStoreMetrics {
+  size: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  evictions: number;
+  expirations: number;
+}
+
+export interface IdempotencyStore {
+  open?(): Promise<void>;
+  has(id: string): Promise<boolean>;
+  add(id: string): Promise<void>;
+  size(): number;
+  clear(): Promise<void>;
+  getMetrics(): IdempotencyStoreMetrics;
+  close?(): Promise<void>;
+}
+
+export interface InMemoryIdempotencyStoreOptions {
+  maxEntries?: number;
+  ttlMs?: number;
+}
+
+export interface FileIdempotencyStoreOptions extends InMemoryIdempotencyStoreOptions {
+  filePath: string;
+  compactionIntervalMs?: number;
+  compactionRatio?: number;
+  minCompactionLines?: number;
+}
+
+interface LogEntry {
+  id: string;
+  expiresAt: number;
+}
+
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private entries: Map<string, number> = new Map();
+  private readonly maxEntries: number;
+  private readonly ttlMs: number;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private expirations = 0;
+
+  constructor(options: InMemoryIdempotencyStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 100000;
+    this.ttlMs = options.ttlMs ?? 24 * 60 * 60 * 1000;
+
+    if (this.maxEntries < 1) {
+      throw new Error('maxEntries must be at least 1');
+    }
+    if (this.ttlMs <= 0) {
+      throw new Error('ttlMs must be positive');
+    }
+  }
+
+  async has(id: string): Promise<boolean> {
+    const expiresAt = this.entries.get(id);
+    if (expiresAt === undefined) {
+      this.misses++;
+      return false;
+    }
+
+    if (expiresAt <= Date.now()) {
+      this.entries.delete(id);
+      this.expirations++;
+      this.misses++;
+      return false;
+    }
+
+    this.entries.delete(id);
+    this.entries.set(id, expiresAt);
+    this.hits++;
+    return true;
+  }
+
+  async add(id: string): Promise<void> {
+    this.restore(id, Date.now() + this.ttlMs);
+  }
+
+  getTtlMs(): number {
+    return this.ttlMs;
+  }
+
+  restore(id: string, expiresAt: number): void {
+    if (expiresAt <= Date.now()) {
+      this.entries.delete(id);
+      return;
+    }
+
+    this.entries.delete(id);
+    this.entries.set(id, expiresAt);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  entriesSnapshot(): LogEntry[] {
+    const now = Date.now();
+    const snapshot: LogEntry[] = [];
+    this.entries.forEach((expiresAt, id) => {
+      if (expiresAt > now) {
+        snapshot.push({ id, expiresAt });
+      }
+    });
+    return snapshot;
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  getMetrics(): IdempotencyStoreMetrics {
+    const lookups = this.hits + this.misses;
+    return {
+      size: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups,
+      evictions: this.evictions,
+      expirations: this.expirations
+    };
+  }
+}
+
+export class FileIdempotencyStore implements IdempotencyStore {
+  private readonly memory: InMemoryIdempotencyStore;
+  private readonly filePath: string;
+  private readonly compactionIntervalMs: number;
+  private readonly compactionRatio: number;
+  private readonly minCompactionLines: number;
+  private compactionTimer?: NodeJS.Timeout;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private logLines = 0;
+  private compactions = 0;
+  private opened = false;
+
+  constructor(options: FileIdempotencyStoreOptions) {
+    this.memory = new InMemoryIdempotencyStore(options);
+    this.filePath = options.filePath;
+    this.compactionIntervalMs = options.compactionIntervalMs ?? 60000;
+    this.compactionRatio = options.compactionRatio ?? 2;
+    this.minCompactionLines = options.minCompactionLines ?? 1000;
+  }
+
+  async open(): Promise<void> {
+    if (this.opened) {
+      return;
+    }
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    let content = '';
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      this.logLines++;
+      try {
+        const entry: LogEntry = JSON.parse(line);
+        this.memory.restore(entry.id, entry.expiresAt);
+      } catch {
+        logger.error('Skipping corrupt idempotency log line', { filePath: this.filePath });
+      }
+    }
+
+    this.opened = true;
+    if (this.logLines > this.memory.size()) {
+      await this.compact();
+    }
+
+    if (this.compactionIntervalMs > 0) {
+      this.compactionTimer = setInterval(() => {
+        if (this.logLines <= this.memory.size()) {
+          return;
+        }
+        this.compact().catch(error =>
+          logger.error('Idempotency log compaction failed', {
+            filePath: this.filePath,
+            error: error instanceof Error ? error.message : error
+          })
+        );
+      }, this.compactionIntervalMs);
+      this.compactionTimer.unref();
+    }
+
+    logger.info('File idempotency store opened', {
+      filePath: this.filePath,
+      entries: this.memory.size()
+    });
+  }
+
+  async has(id: string): Promise<boolean> {
+    this.ensureOpen();
+    return this.memory.has(id);
+  }
+
+  async add(id: string): Promise<void> {
+    this.ensureOpen();
+    const entry: LogEntry = { id, expiresAt: Date.now() + this.memory.getTtlMs() };
+    this.memory.restore(entry.id, entry.expiresAt);
+    await this.enqueueWrite(() => fs.appendFile(this.filePath, `${JSON.stringify(entry)}\n`));
+    this.logLines++;
+
+    if (
+      this.logLines >= Math.max(this.memory.size() * this.compactionRatio, this.minCompactionLines)
+    ) {
+      await this.compact();
+    }
+  }
+
+  size(): number {
+    return this.memory.size();
+  }
+
+  async clear(): Promise<void> {
+    await this.memory.clear();
+    await this.enqueueWrite(() => fs.writeFile(this.filePath, ''));
+    this.logLines = 0;
+  }
+
+  async compact(): Promise<void> {
+    if (!this.opened) {
+      return;
+    }
+
+    await this.enqueueWrite(async () => {
+      const entries = this.memory.entriesSnapshot();
+      const tmpPath = `${this.filePath}.tmp`;
+      const content = entries.map(entry => JSON.stringify(entry)).join('\n');
+      await fs.writeFile(tmpPath, content ? `${content}\n` : '');
+      await fs.rename(tmpPath, this.filePath);
+
+      this.logLines = entries.length;
+      this.compactions++;
+      logger.debug('Idempotency log compacted', {
+        filePath: this.filePath,
+        entries: entries.length
+      });
+    });
+  }
+
+  getMetrics(): IdempotencyStoreMetrics & { compactions: number; logLines: number } {
+    return {
+      ...this.memory.getMetrics(),
+      compactions: this.compactions,
+      logLines: this.logLines
+    };
+  }
+
+  async close(): Promise<void> {
+    if (!this.opened) {
+      return;
+    }
+
+    if (this.compactionTimer) {
+      clearInterval(this.compactionTimer);
+      this.compactionTimer = undefined;
+    }
+
+    await this.compact();
+    await this.writeQueue;
+    this.opened = false;
+    logger.info('File idempotency store closed', { filePath: this.filePath });
+  }
+
+  private ensureOpen(): void {
+    if (!this.opened) {
+      throw new Error('File idempotency store is not open. Call open() first.');
+    }
+  }
+
+  private enqueueWrite(operation: () => Promise<void>): Promise<void> {
+    const result = this.writeQueue.then(operation);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+export const createIdempotencyStore = (
+  options: InMemoryIdempotencyStoreOptions | FileIdempotencyStoreOptions = {}
+): IdempotencyStore => {
+  if ('filePath' in options && options.filePath) {
+    return new FileIdempotencyStore(options);
+  }
+  return new InMemoryIdempotencyStore(options);
+};
@@ -0,0 +1,67 @@
+import { InFlightWatchdog } from './inFlightWatchdog';
+
+jest.mock('./logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const { logger } = require('./logger');
+const mockLogger = logger as jest.Mocked<typeof logger>;
+
+describe('InFlightWatchdog', () => {
+  let watchdog: InFlightWatchdog;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    watchdog = new InFlightWatchdog({ warnAfterMs: 1000, intervalMs: 250 });
+  });
+
+  afterEach(() => {
+    watchdog.stop();
+    jest.useRealTimers();
+  });
+
+  test('should validate options', () => {
+    expect(() => new InFlightWatchdog({ warnAfterMs: 0 })).toThrow('warnAfterMs must be positive');
+    expect(() => new InFlightWatchdog({ warnAfterMs: 10, intervalMs: 0 })).toThrow(
+      'intervalMs must be positive'
+    );
+  });
+
+  test('should warn once for messages in flight beyond the threshold', () => {
+    watchdog.track('orders', 2, '41');
+    watchdog.start();
+
+    jest.advanceTimersByTime(750);
+    expect(mockLogger.error).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1000);
+    expect(mockLogger.error).toHaveBeenCalledTimes(1);
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      'Message processing exceeded warning threshold',
+      expect.objectContaining({ topic: 'orders', partition: 2, offset: '41', warnAfterMs: 1000 })
+    );
+    expect(watchdog.getMetrics()).toEqual({
+      inFlight: 1,
+      stuckMessages: 1,
+      warnings: 1,
+      oldestInFlightMs: 1750
+    });
+  });
+
+  test('should stop tracking completed messages', () => {
+    const untrack = watchdog.track('orders', 0, '1');
+    jest.advanceTimersByTime(500);
+    untrack();
+    jest.advanceTimersByTime(1000);
+
+    watchdog.check();
+
+    expect(mockLogger.error).not.toHaveBeenCalled();
+    expect(watchdog.getMetrics().inFlight).toBe(0);
+  });
+});
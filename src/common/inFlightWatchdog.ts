@@ -0,0 +1,106 @@
+import { logger } from './logger';
+
+export interface InFlightWatchdogOptions {
+  warnAfterMs: number;
+  intervalMs?: number;
+}
+
+export interface InFlightWatchdogMetrics {
+  inFlight: number;
+  stuckMessages: number;
+  warnings: number;
+  oldestInFlightMs: number;
+}
+
+interface InFlightEntry {
+  topic: string;
+  partition: number;
+  offset: string;
+  startedAt: number;
+  warned: boolean;
+}
+
+export class InFlightWatchdog {
+  private entries: Map<number, InFlightEntry> = new Map();
+  private sequence = 0;
+  private warnings = 0;
+  private timer?: NodeJS.Timeout;
+  private readonly warnAfterMs: number;
+  private readonly intervalMs: number;
+
+  constructor(options: InFlightWatchdogOptions) {
+    this.warnAfterMs = options.warnAfterMs;
+    this.intervalMs = options.intervalMs ?? Math.min(options.warnAfterMs, 5000);
+
+    if (this.warnAfterMs <= 0) {
+      throw new Error('warnAfterMs must be positive');
+    }
+    if (this.intervalMs <= 0) {
+      throw new Error('intervalMs must be positive');
+    }
+  }
+
+  track(topic: string, partition: number, offset: string): () => void {
+    const id = this.sequence++;
+    this.entries.set(id, { topic, partition, offset, startedAt: Date.now(), warned: false });
+    return () => {
+      this.entries.delete(id);
+    };
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.check(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  check(): void {
+    const now = Date.now();
+    this.entries.forEach(entry => {
+      const elapsedMs = now - entry.startedAt;
+      if (entry.warned || elapsedMs < this.warnAfterMs) {
+        return;
+      }
+
+      entry.warned = true;
+      this.warnings++;
+      logger.error('Message processing exceeded warning threshold', {
+        topic: entry.topic,
+        partition: entry.partition,
+        offset: entry.offset,
+        elapsedMs,
+        warnAfterMs: this.warnAfterMs
+      });
+    });
+  }
+
+  getMetrics(): InFlightWatchdogMetrics {
+    const now = Date.now();
+    let stuckMessages = 0;
+    let oldestInFlightMs = 0;
+    this.entries.forEach(entry => {
+      const elapsedMs = now - entry.startedAt;
+      if (elapsedMs >= this.warnAfterMs) {
+        stuckMessages++;
+      }
+      oldestInFlightMs = Math.max(oldestInFlightMs, elapsedMs);
+    });
+
+    return {
+      inFlight: this.entries.size,
+      stuckMessages,
+      warnings: this.warnings,
+      oldestInFlightMs
+    };
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.entries.clear();
+  }
+}
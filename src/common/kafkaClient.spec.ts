@@ -1,4 +1,4 @@
-import { createKafka, createProducer, createConsumer } from './kafkaClient';
+import { createKafka, createProducer, createConsumer, createAdmin } from './kafkaClient';
 
 jest.mock('kafkajs', () => ({
   Kafka: jest.fn(),
@@ -21,7 +21,8 @@ const { Kafka } = require('kafkajs');
 
 const mockKafkaInstance = {
   producer: jest.fn(),
-  consumer: jest.fn()
+  consumer: jest.fn(),
+  admin: jest.fn()
 };
 
 const mockProducer = {
@@ -37,12 +38,18 @@ const mockConsumer = {
   disconnect: jest.fn()
 };
 
+const mockAdmin = {
+  connect: jest.fn(),
+  disconnect: jest.fn()
+};
+
 describe('KafkaClient', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     Kafka.mockImplementation(() => mockKafkaInstance);
     mockKafkaInstance.producer.mockReturnValue(mockProducer);
     mockKafkaInstance.consumer.mockReturnValue(mockConsumer);
+    mockKafkaInstance.admin.mockReturnValue(mockAdmin);
   });
 
   describe('createKafka', () => {
@@ -148,6 +155,30 @@ describe('KafkaClient', () => {
     });
   });
 
+  describe('createAdmin', () => {
+    test('should create and connect admin client', async () => {
+      mockAdmin.connect.mockResolvedValue(undefined);
+
+      const admin = await createAdmin();
+
+      expect(mockKafkaInstance.admin).toHaveBeenCalledTimes(1);
+      expect(mockAdmin.connect).toHaveBeenCalledTimes(1);
+      expect(admin).toBe(mockAdmin);
+    });
+
+    test('should handle admin connection errors', async () => {
+      mockAdmin.connect.mockRejectedValue(new Error('Admin connection failed'));
+
+      await expect(createAdmin()).rejects.toThrow('Admin connection failed');
+
+      const { logger } = require('./logger');
+      expect(logger.error).toHaveBeenCalledWith(
+        'Failed to create and connect admin client',
+        expect.any(Object)
+      );
+    });
+  });
+
   describe('Error handling and logging', () => {
     test('should log producer creation', async () => {
       mockProducer.connect.mockResolvedValue(undefined);
@@ -1,4 +1,4 @@
-import { Kafka, Consumer, Producer } from 'kafkajs';
+import { Kafka, Admin, Consumer, Producer } from 'kafkajs';
 import { config } from './config';
 import { logger } from './logger';
 
@@ -49,3 +49,20 @@ export async function createConsumer(groupIdOverride?: string): Promise<Consumer
     throw error;
   }
 }
+
+export async function createAdmin(): Promise<Admin> {
+  try {
+    const kafka = createKafka();
+    const admin = kafka.admin();
+
+    await admin.connect();
+    logger.info('Admin client connected successfully');
+
+    return admin;
+  } catch (error) {
+    logger.error('Failed to create and connect admin client', {
+      error: error instanceof Error ? error.message : error
+    });
+    throw error;
+  }
+}
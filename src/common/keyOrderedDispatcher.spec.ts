@@ -0,0 +1,104 @@
+import { KeyOrderedDispatcher } from './keyOrderedDispatcher';
+
+describe('KeyOrderedDispatcher', () => {
+  const deferred = () => {
+    let resolve!: () => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<void>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise, resolve, reject };
+  };
+
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+
+  test('should reject invalid worker count', () => {
+    expect(() => new KeyOrderedDispatcher(0)).toThrow('workers must be a positive integer');
+  });
+
+  test('should serialize tasks with the same key', async () => {
+    const dispatcher = new KeyOrderedDispatcher(4);
+    const first = deferred();
+    const order: string[] = [];
+
+    const a = dispatcher.dispatch('order-1', async () => {
+      await first.promise;
+      order.push('a');
+    });
+    const b = dispatcher.dispatch('order-1', async () => {
+      order.push('b');
+    });
+
+    await flush();
+    expect(order).toEqual([]);
+
+    first.resolve();
+    await Promise.all([a, b]);
+
+    expect(order).toEqual(['a', 'b']);
+  });
+
+  test('should run different keys in parallel up to worker limit', async () => {
+    const dispatcher = new KeyOrderedDispatcher(2);
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const tasks = gates.map((gate, index) =>
+      dispatcher.dispatch(`key-${index}`, async () => {
+        started.push(index);
+        await gate.promise;
+      })
+    );
+
+    await flush();
+    expect(started).toEqual([0, 1]);
+    expect(dispatcher.getMetrics()).toEqual(
+      expect.objectContaining({ workers: 2, active: 2, queued: 1 })
+    );
+
+    gates[0].resolve();
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+
+    gates[1].resolve();
+    gates[2].resolve();
+    await Promise.all(tasks);
+    expect(dispatcher.getMetrics()).toEqual(
+      expect.objectContaining({ active: 0, queued: 0, activeKeys: 0, dispatched: 3 })
+    );
+  });
+
+  test('should not run later tasks for a key after a failure', async () => {
+    const dispatcher = new KeyOrderedDispatcher(2);
+    const later = jest.fn();
+
+    const failing = dispatcher.dispatch('order-1', async () => {
+      throw new Error('handler failed');
+    });
+    const following = dispatcher.dispatch('order-1', later);
+
+    await expect(failing).rejects.toThrow('handler failed');
+    await expect(following).rejects.toThrow('handler failed');
+    expect(later).not.toHaveBeenCalled();
+  });
+
+  test('should treat keyless tasks as independent', async () => {
+    const dispatcher = new KeyOrderedDispatcher(2);
+    const gate = deferred();
+    const started: string[] = [];
+
+    const first = dispatcher.dispatch(undefined, async () => {
+      started.push('first');
+      await gate.promise;
+    });
+    const second = dispatcher.dispatch(undefined, async () => {
+      started.push('second');
+    });
+
+    await second;
+    expect(started).toEqual(['first', 'second']);
+    gate.resolve();
+    await first;
+  });
+});
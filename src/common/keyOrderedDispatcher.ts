@@ -0,0 +1,82 @@
+export interface KeyOrderedDispatcherMetrics {
+  workers: number;
+  active: number;
+  queued: number;
+  activeKeys: number;
+  dispatched: number;
+}
+
+export class KeyOrderedDispatcher {
+  private readonly workers: number;
+  private tails: Map<string, Promise<unknown>> = new Map();
+  private waiting: Array<() => void> = [];
+  private active = 0;
+  private dispatched = 0;
+  private keylessSequence = 0;
+
+  constructor(workers: number) {
+    if (!Number.isInteger(workers) || workers < 1) {
+      throw new Error('workers must be a positive integer');
+    }
+    this.workers = workers;
+  }
+
+  dispatch<T>(key: string | undefined, task: () => Promise<T>): Promise<T> {
+    const routingKey = key ?? `__keyless_${this.keylessSequence++}`;
+    const previous = this.tails.get(routingKey) || Promise.resolve();
+    this.dispatched++;
+
+    const run = previous.then(() => this.runWithWorker(task));
+    const tail = run.catch(() => undefined);
+    this.tails.set(routingKey, run);
+
+    tail.then(() => {
+      if (this.tails.get(routingKey) === run) {
+        this.tails.delete(routingKey);
+      }
+    });
+
+    return run;
+  }
+
+  getMetrics(): KeyOrderedDispatcherMetrics {
+    return {
+      workers: this.workers,
+      active: this.active,
+      queued: this.waiting.length,
+      activeKeys: this.tails.size,
+      dispatched: this.dispatched
+    };
+  }
+
+  private async runWithWorker<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.workers) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+      this.waiting.push(() => {
+        this.active++;
+        resolve();
+      });
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    }
+  }
+}
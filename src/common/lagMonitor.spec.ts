@@ -0,0 +1,141 @@
+import { LagMonitor, LagReport } from './lagMonitor';
+
+const mockAdmin = {
+  fetchOffsets: jest.fn(),
+  fetchTopicOffsets: jest.fn(),
+  disconnect: jest.fn()
+};
+
+jest.mock('./kafkaClient', () => ({
+  createAdmin: jest.fn(() => Promise.resolve(mockAdmin))
+}));
+
+jest.mock('./logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('LagMonitor', () => {
+  const setOffsets = (committed: string[], high: string[], low = '0') => {
+    mockAdmin.fetchOffsets.mockResolvedValue([
+      {
+        topic: 'orders',
+        partitions: committed.map((offset, partition) => ({ partition, offset, metadata: null }))
+      }
+    ]);
+    mockAdmin.fetchTopicOffsets.mockResolvedValue(
+      high.map((offset, partition) => ({ partition, offset, high: offset, low }))
+    );
+  };
+
+  let monitor: LagMonitor;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAdmin.disconnect.mockResolvedValue(undefined);
+  });
+
+  afterEach(async () => {
+    await monitor.stop();
+    jest.useRealTimers();
+  });
+
+  test('should require start before checking', async () => {
+    monitor = new LagMonitor({ groupId: 'orders-group', topics: ['orders'] });
+
+    await expect(monitor.check()).rejects.toThrow('Lag monitor is not started');
+  });
+
+  test('should compute per-partition and total lag for the group', async () => {
+    setOffsets(['40', '-1'], ['50', '5'], '2');
+    monitor = new LagMonitor({ groupId: 'orders-group', topics: ['orders'] });
+    await monitor.start();
+
+    const report = await monitor.check();
+
+    expect(mockAdmin.fetchOffsets).toHaveBeenCalledWith({
+      groupId: 'orders-group',
+      topics: ['orders']
+    });
+    expect(mockAdmin.fetchTopicOffsets).toHaveBeenCalledWith('orders');
+    expect(report.partitions).toEqual([
+      { topic: 'orders', partition: 0, committedOffset: '40', highWatermark: '50', lag: 10 },
+      { topic: 'orders', partition: 1, committedOffset: '-1', highWatermark: '5', lag: 3 }
+    ]);
+    expect(report.totalLag).toBe(13);
+    expect(report.consumptionRatePerSec).toBeUndefined();
+    expect(monitor.getLastReport()).toBe(report);
+  });
+
+  test('should estimate time to catch up from consumption rate', async () => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    jest.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+    monitor = new LagMonitor({ topics: ['orders'], intervalMs: 60000 });
+    await monitor.start();
+
+    setOffsets(['100'], ['400']);
+    await monitor.check();
+
+    jest.setSystemTime(new Date('2024-01-01T00:00:10.000Z'));
+    setOffsets(['200'], ['500']);
+    const report = await monitor.check();
+
+    expect(report.consumptionRatePerSec).toBe(10);
+    expect(report.estimatedCatchUpMs).toBe(30000);
+  });
+
+  test('should fire threshold callbacks on crossing and recovery', async () => {
+    const onExceeded = jest.fn();
+    const onRecovered = jest.fn();
+    monitor = new LagMonitor({
+      topics: ['orders'],
+      thresholds: [{ maxLag: 10, onExceeded, onRecovered }]
+    });
+    await monitor.start();
+
+    setOffsets(['0'], ['20']);
+    await monitor.check();
+    await monitor.check();
+    expect(onExceeded).toHaveBeenCalledTimes(1);
+    expect((onExceeded.mock.calls[0][0] as LagReport).totalLag).toBe(20);
+
+    setOffsets(['15'], ['20']);
+    await monitor.check();
+    expect(onRecovered).toHaveBeenCalledTimes(1);
+  });
+
+  test('should evaluate partition-scoped thresholds against the worst partition', async () => {
+    const onExceeded = jest.fn();
+    monitor = new LagMonitor({
+      topics: ['orders'],
+      thresholds: [{ maxLag: 8, scope: 'partition', onExceeded }]
+    });
+    await monitor.start();
+
+    setOffsets(['0', '0'], ['6', '6']);
+    await monitor.check();
+    expect(onExceeded).not.toHaveBeenCalled();
+
+    setOffsets(['0', '0'], ['6', '9']);
+    await monitor.check();
+    expect(onExceeded).toHaveBeenCalledTimes(1);
+  });
+
+  test('should check periodically and disconnect on stop', async () => {
+    jest.useFakeTimers();
+    setOffsets(['0'], ['1']);
+    monitor = new LagMonitor({ topics: ['orders'], intervalMs: 1000 });
+    await monitor.start();
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(mockAdmin.fetchOffsets).toHaveBeenCalledTimes(2);
+
+    await monitor.stop();
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(mockAdmin.fetchOffsets).toHaveBeenCalledTimes(2);
+    expect(mockAdmin.disconnect).toHaveBeenCalledTimes(1);
+  });
+});
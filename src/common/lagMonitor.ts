@@ -0,0 +1,191 @@
+import { Admin } from 'kafkajs';
+import { createAdmin } from './kafkaClient';
+import { config } from './config';
+import { logger } from './logger';
+
+export interface PartitionLag {
+  topic: string;
+  partition: number;
+  committedOffset: string;
+  highWatermark: string;
+  lag: number;
+}
+
+export interface LagReport {
+  groupId: string;
+  timestamp: number;
+  totalLag: number;
+  partitions: PartitionLag[];
+  consumptionRatePerSec?: number;
+  estimatedCatchUpMs?: number;
+}
+
+export interface LagThreshold {
+  maxLag: number;
+  scope?: 'total' | 'partition';
+  onExceeded(report: LagReport): void;
+  onRecovered?(report: LagReport): void;
+}
+
+export interface LagMonitorOptions {
+  enabled?: boolean;
+  groupId?: string;
+  topics?: string[];
+  intervalMs?: number;
+  thresholds?: LagThreshold[];
+}
+
+export class LagMonitor {
+  private admin?: Admin;
+  private timer?: NodeJS.Timeout;
+  private lastReport?: LagReport;
+  private lastConsumed?: { timestamp: number; consumed: number };
+  private exceeded: Set<LagThreshold> = new Set();
+  private readonly groupId: string;
+  private readonly topics: string[];
+  private readonly intervalMs: number;
+  private readonly thresholds: LagThreshold[];
+
+  constructor(options: LagMonitorOptions = {}) {
+    this.groupId = options.groupId ?? config.kafkaConsumerGroupId;
+    this.topics = options.topics?.length ? [...options.topics] : [config.kafkaTopic];
+    this.intervalMs = options.intervalMs ?? 30000;
+    this.thresholds = options.thresholds ?? [];
+
+    if (this.intervalMs <= 0) {
+      throw new Error('intervalMs must be positive');
+    }
+  }
+
+  async start(): Promise<void> {
+    if (this.timer) {
+      return;
+    }
+
+    this.admin = await createAdmin();
+    this.timer = setInterval(() => {
+      this.check().catch(() => undefined);
+    }, this.intervalMs);
+    this.timer.unref();
+
+    logger.info('Lag monitor started', {
+      groupId: this.groupId,
+      topics: this.topics,
+      intervalMs: this.intervalMs
+    });
+  }
+
+  async check(): Promise<LagReport> {
+    if (!this.admin) {
+      throw new Error('Lag monitor is not started. Call start() first.');
+    }
+
+    try {
+      const report = await this.buildReport(this.admin);
+      this.lastReport = report;
+      this.evaluateThresholds(report);
+
+      logger.info('Consumer lag report', {
+        groupId: report.groupId,
+        totalLag: report.totalLag,
+        consumptionRatePerSec: report.consumptionRatePerSec,
+        estimatedCatchUpMs: report.estimatedCatchUpMs
+      });
+      return report;
+    } catch (error) {
+      logger.error('Failed to compute consumer lag', {
+        groupId: this.groupId,
+        error: error instanceof Error ? error.message : error
+      });
+      throw error;
+    }
+  }
+
+  getLastReport(): LagReport | undefined {
+    return this.lastReport;
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+
+    if (this.admin) {
+      await this.admin.disconnect();
+      this.admin = undefined;
+      logger.info('Lag monitor stopped', { groupId: this.groupId });
+    }
+  }
+
+  private async buildReport(admin: Admin): Promise<LagReport> {
+    const timestamp = Date.now();
+    const committed = await admin.fetchOffsets({ groupId: this.groupId, topics: this.topics });
+    const partitions: PartitionLag[] = [];
+    let consumed = 0;
+
+    for (const topic of this.topics) {
+      const topicOffsets = await admin.fetchTopicOffsets(topic);
+      const committedPartitions = committed.find(entry => entry.topic === topic)?.partitions || [];
+
+      topicOffsets.forEach(({ partition, high, low }) => {
+        const committedOffset =
+          committedPartitions.find(entry => entry.partition === partition)?.offset ?? '-1';
+        const position = Number(committedOffset) < 0 ? Number(low) : Number(committedOffset);
+
+        consumed += position;
+        partitions.push({
+          topic,
+          partition,
+          committedOffset,
+          highWatermark: high,
+          lag: Math.max(0, Number(high) - position)
+        });
+      });
+    }
+
+    const totalLag = partitions.reduce((total, partition) => total + partition.lag, 0);
+    const report: LagReport = { groupId: this.groupId, timestamp, totalLag, partitions };
+
+    if (this.lastConsumed && timestamp > this.lastConsumed.timestamp) {
+      const rate =
+        ((consumed - this.lastConsumed.consumed) * 1000) /
+        (timestamp - this.lastConsumed.timestamp);
+      report.consumptionRatePerSec = Math.max(0, rate);
+      if (rate > 0) {
+        report.estimatedCatchUpMs = Math.round((totalLag / rate) * 1000);
+      }
+    }
+    this.lastConsumed = { timestamp, consumed };
+
+    return report;
+  }
+
+  private evaluateThresholds(report: LagReport): void {
+    this.thresholds.forEach(threshold => {
+      const lag =
+        threshold.scope === 'partition'
+          ? Math.max(0, ...report.partitions.map(partition => partition.lag))
+          : report.totalLag;
+
+      try {
+        if (lag > threshold.maxLag && !this.exceeded.has(threshold)) {
+          this.exceeded.add(threshold);
+          threshold.onExceeded(report);
+        } else if (lag <= threshold.maxLag && this.exceeded.has(threshold)) {
+          this.exceeded.delete(threshold);
+          threshold.onRecovered?.(report);
+        }
+      } catch (error) {
+        logger.error('Lag threshold callback failed', {
+          maxLag: threshold.maxLag,
+          error: error instanceof Error ? error.message : error
+        });
+      }
+    });
+  }
+}
+
+export const createLagMonitor = (options?: LagMonitorOptions): LagMonitor => {
+  return new LagMonitor(options);
+};
@@ -0,0 +1,177 @@
+import {
+  HandlerRegistry,
+  MessageHandler,
+  MESSAGE_TYPE_HEADER,
+  createHandlerRegistry,
+  createMessageHandler,
+  headerValueToString,
+  headersToBuffers
+} from './messageHandler';
+import { JsonMessageSchema } from './messageValidator';
+
+describe('HandlerRegistry', () => {
+  let registry: HandlerRegistry;
+
+  const createTestHandler = (messageType: string): MessageHandler =>
+    createMessageHandler(messageType, async () => 'SUCCESS');
+
+  beforeEach(() => {
+    registry = new HandlerRegistry();
+  });
+
+  describe('Constructor', () => {
+    test('should default unknown type policy to dlq', () => {
+      expect(registry.getUnknownTypePolicy()).toBe('dlq');
+    });
+
+    test('should accept custom unknown type policy', () => {
+      const customRegistry = createHandlerRegistry({ unknownTypePolicy: 'skip' });
+
+      expect(customRegistry.getUnknownTypePolicy()).toBe('skip');
+    });
+  });
+
+  describe('Handler Management', () => {
+    test('should register handler', () => {
+      const handler = createTestHandler('OrderCreated');
+
+      registry.register(handler);
+
+      expect(registry.hasHandler('OrderCreated')).toBe(true);
+      expect(registry.getHandler('OrderCreated')).toBe(handler);
+      expect(registry.getMessageTypes()).toEqual(['OrderCreated']);
+    });
+
+    test('should reject duplicate registration', () => {
+      registry.register(createTestHandler('OrderCreated'));
+
+      expect(() => registry.register(createTestHandler('OrderCreated'))).toThrow(
+        'Handler for message type OrderCreated is already registered'
+      );
+    });
+
+    test('should unregister handler', () => {
+      registry.register(createTestHandler('OrderCreated'));
+
+      expect(registry.unregister('OrderCreated')).toBe(true);
+      expect(registry.unregister('OrderCreated')).toBe(false);
+      expect(registry.hasHandler('OrderCreated')).toBe(false);
+    });
+
+    test('should clear handlers', () => {
+      registry.register(createTestHandler('A'));
+      registry.register(createTestHandler('B'));
+
+      registry.clear();
+
+      expect(registry.getMessageTypes()).toEqual([]);
+    });
+
+    test('should update unknown type policy', () => {
+      registry.setUnknownTypePolicy('error');
+
+      expect(registry.getUnknownTypePolicy()).toBe('error');
+    });
+  });
+
+  describe('Message Type Resolution', () => {
+    test('should resolve type from metadata header', () => {
+      const messageType = registry.resolveMessageType(
+        { type: 'FromPayload' },
+        { [MESSAGE_TYPE_HEADER]: Buffer.from('FromHeader') }
+      );
+
+      expect(messageType).toBe('FromHeader');
+    });
+
+    test('should fall back to payload field', () => {
+      expect(registry.resolveMessageType({ type: 'FromPayload' }, {})).toBe('FromPayload');
+    });
+
+    test('should support nested payload field paths', () => {
+      registry = new HandlerRegistry({ messageTypeField: 'meta.eventType' });
+
+      expect(registry.resolveMessageType({ meta: { eventType: 'Nested' } })).toBe('Nested');
+    });
+
+    test('should fall back to default message type', () => {
+      registry = new HandlerRegistry({ defaultMessageType: 'Default' });
+
+      expect(registry.resolveMessageType({ other: 'value' })).toBe('Default');
+      expect(registry.resolveMessageType('not an object')).toBe('Default');
+    });
+
+    test('should return undefined when type cannot be resolved', () => {
+      expect(registry.resolveMessageType({ other: 'value' })).toBeUndefined();
+      expect(registry.resolveMessageType(null)).toBeUndefined();
+    });
+
+    test('should resolve registered handler', () => {
+      const handler = createTestHandler('OrderCreated');
+      registry.register(handler);
+
+      const resolution = registry.resolve({ type: 'OrderCreated' });
+
+      expect(resolution.messageType).toBe('OrderCreated');
+      expect(resolution.handler).toBe(handler);
+    });
+
+    test('should resolve without handler for unknown type', () => {
+      const resolution = registry.resolve({ type: 'Unknown' });
+
+      expect(resolution.messageType).toBe('Unknown');
+      expect(resolution.handler).toBeUndefined();
+    });
+  });
+
+  describe('createMessageHandler', () => {
+    test('should build handler with schema and event id extractor', async () => {
+      const schema = new JsonMessageSchema();
+      const handler = createMessageHandler<{ id: string }>('Typed', async () => 'SKIP', {
+        schema,
+        getEventId: event => event.id
+      });
+
+      expect(handler.messageType).toBe('Typed');
+      expect(handler.schema).toBe(schema);
+      expect(handler.getEventId!({ id: 'evt-1' })).toBe('evt-1');
+      await expect(
+        handler.handle(
+          { id: 'evt-1' },
+          {
+            topic: 't',
+            partition: 0,
+            offset: '0',
+            rawMessage: '',
+            envelope: { payload: { id: 'evt-1' }, headers: {}, metadata: {} }
+          }
+        )
+      ).resolves.toBe('SKIP');
+    });
+  });
+
+  describe('headerValueToString', () => {
+    test('should convert buffers, strings and arrays', () => {
+      expect(headerValueToString(Buffer.from('value'))).toBe('value');
+      expect(headerValueToString('value')).toBe('value');
+      expect(headerValueToString([Buffer.from('first'), 'second'])).toBe('first');
+      expect(headerValueToString(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('headersToBuffers', () => {
+    test('should normalize header values to buffers and drop undefined', () => {
+      expect(
+        headersToBuffers({
+          'x-msg-source': 'checkout',
+          'x-msg-messageId': [Buffer.from('msg-1')],
+          'x-empty': undefined
+        })
+      ).toEqual({
+        'x-msg-source': Buffer.from('checkout'),
+        'x-msg-messageId': Buffer.from('msg-1')
+      });
+      expect(headersToBuffers(undefined)).toEqual({});
+    });
+  });
+});
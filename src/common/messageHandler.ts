@@ -0,0 +1,181 @@
+import { IHeaders } from 'kafkajs';
+import { MessageSchema } from './messageValidator';
+import { EnhancedMessageMetadata } from './metadataManager';
+
+export type ProcessingResult = 'SUCCESS' | 'SKIP' | 'DLQ' | 'ERROR';
+
+export type UnknownMessageTypePolicy = 'skip' | 'dlq' | 'error';
+
+export const MESSAGE_TYPE_HEADER = 'x-msg-messageType';
+
+export interface MessageContext {
+  topic: string;
+  partition: number;
+  offset: string;
+  rawMessage: string;
+  key?: string;
+  headers?: IHeaders;
+  timestamp?: string;
+  rawKey?: Buffer | null;
+  rawValue?: Buffer | null;
+}
+
+export interface MessageEnvelope<T = any> {
+  payload: T;
+  key?: string;
+  headers: IHeaders;
+  metadata: Partial<EnhancedMessageMetadata>;
+}
+
+export interface HandlerContext<T = any> extends MessageContext {
+  envelope: MessageEnvelope<T>;
+  signal?: AbortSignal;
+}
+
+export interface MessageHandler<T = any> {
+  messageType: string;
+  schema?: MessageSchema;
+  getEventId?(event: T): string | undefined;
+  handle(event: T, context: HandlerContext<T>): Promise<ProcessingResult>;
+}
+
+export interface BatchContext {
+  topic: string;
+  partition: number;
+  highWatermark: string;
+  messages: MessageContext[];
+  heartbeat(): Promise<void>;
+  markProcessed(offset: string): void;
+  isRunning(): boolean;
+}
+
+export type BatchHandler = (batch: BatchContext) => Promise<void>;
+
+export interface HandlerRegistryOptions {
+  unknownTypePolicy?: UnknownMessageTypePolicy;
+  messageTypeField?: string;
+  messageTypeHeader?: string;
+  defaultMessageType?: string;
+}
+
+export interface HandlerResolution {
+  messageType?: string;
+  handler?: MessageHandler;
+}
+
+export function headerValueToString(value: IHeaders[string]): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const first = Array.isArray(value) ? value[0] : value;
+  return first === undefined ? undefined : first.toString();
+}
+
+export function headersToBuffers(headers?: IHeaders): Record<string, Buffer> {
+  const buffers: Record<string, Buffer> = {};
+  Object.entries(headers || {}).forEach(([key, value]) => {
+    const stringValue = headerValueToString(value);
+    if (stringValue !== undefined) {
+      buffers[key] = Buffer.from(stringValue);
+    }
+  });
+  return buffers;
+}
+
+export class HandlerRegistry {
+  private handlers: Map<string, MessageHandler> = new Map();
+  private unknownTypePolicy: UnknownMessageTypePolicy;
+  private messageTypeField: string;
+  private messageTypeHeader: string;
+  private defaultMessageType?: string;
+
+  constructor(options: HandlerRegistryOptions = {}) {
+    this.unknownTypePolicy = options.unknownTypePolicy ?? 'dlq';
+    this.messageTypeField = options.messageTypeField ?? 'type';
+    this.messageTypeHeader = options.messageTypeHeader ?? MESSAGE_TYPE_HEADER;
+    this.defaultMessageType = options.defaultMessageType;
+  }
+
+  register<T>(handler: MessageHandler<T>): void {
+    if (this.handlers.has(handler.messageType)) {
+      throw new Error(`Handler for message type ${handler.messageType} is already registered`);
+    }
+    this.handlers.set(handler.messageType, handler);
+  }
+
+  unregister(messageType: string): boolean {
+    return this.handlers.delete(messageType);
+  }
+
+  getHandler(messageType: string): MessageHandler | undefined {
+    return this.handlers.get(messageType);
+  }
+
+  hasHandler(messageType: string): boolean {
+    return this.handlers.has(messageType);
+  }
+
+  getMessageTypes(): string[] {
+    return Array.from(this.handlers.keys());
+  }
+
+  resolveMessageType(payload: any, headers?: IHeaders): string | undefined {
+    const headerType = headers ? headerValueToString(headers[this.messageTypeHeader]) : undefined;
+    if (headerType) {
+      return headerType;
+    }
+
+    const pathParts = this.messageTypeField.split('.');
+    let current = payload;
+    for (const part of pathParts) {
+      if (current === null || current === undefined || typeof current !== 'object') {
+        current = undefined;
+        break;
+      }
+      current = current[part];
+    }
+
+    if (typeof current === 'string' && current.length > 0) {
+      return current;
+    }
+
+    return this.defaultMessageType;
+  }
+
+  resolve(payload: any, headers?: IHeaders): HandlerResolution {
+    const messageType = this.resolveMessageType(payload, headers);
+    return {
+      messageType,
+      handler: messageType ? this.handlers.get(messageType) : undefined
+    };
+  }
+
+  getUnknownTypePolicy(): UnknownMessageTypePolicy {
+    return this.unknownTypePolicy;
+  }
+
+  setUnknownTypePolicy(policy: UnknownMessageTypePolicy): void {
+    this.unknownTypePolicy = policy;
+  }
+
+  clear(): void {
+    this.handlers.clear();
+  }
+}
+
+export const createMessageHandler = <T = any>(
+  messageType: string,
+  handle: (event: T, context: HandlerContext<T>) => Promise<ProcessingResult>,
+  options: { schema?: MessageSchema; getEventId?: (event: T) => string | undefined } = {}
+): MessageHandler<T> => {
+  return {
+    messageType,
+    schema: options.schema,
+    getEventId: options.getEventId,
+    handle
+  };
+};
+
+export const createHandlerRegistry = (options?: HandlerRegistryOptions): HandlerRegistry => {
+  return new HandlerRegistry(options);
+};
@@ -0,0 +1,143 @@
+import { MetricsRegistry } from './metricsRegistry';
+import { formatPrometheus } from './healthServer';
+
+describe('MetricsRegistry', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  test('should count by labels', () => {
+    const errors = registry.counter({
+      name: 'errors_total',
+      help: 'Errors',
+      labelNames: ['reason']
+    });
+
+    errors.inc({ reason: 'timeout' });
+    errors.inc({ reason: 'timeout' }, 2);
+    errors.inc({ reason: 'validation' });
+
+    expect(errors.get({ reason: 'timeout' })).toBe(3);
+    expect(registry.snapshot().errors_total).toEqual({
+      type: 'counter',
+      help: 'Errors',
+      values: [
+        { labels: { reason: 'timeout' }, value: 3 },
+        { labels: { reason: 'validation' }, value: 1 }
+      ]
+    });
+    expect(() => errors.inc({ reason: 'timeout' }, -1)).toThrow(
+      'Counter errors_total cannot be decreased'
+    );
+  });
+
+  test('should reject unknown labels and invalid names', () => {
+    const counter = registry.counter({ name: 'sent_total', help: 'Sent', labelNames: ['topic'] });
+
+    expect(() => counter.inc({ partition: 1 })).toThrow(
+      'Unknown labels for metric sent_total: partition'
+    );
+    expect(() => registry.counter({ name: 'bad-name', help: 'Bad' })).toThrow(
+      'Invalid metric name: bad-name'
+    );
+  });
+
+  test('should set, increment and decrement gauges', () => {
+    const inFlight = registry.gauge({ name: 'in_flight', help: 'In flight' });
+
+    inFlight.set(5);
+    inFlight.inc();
+    inFlight.dec(undefined, 3);
+
+    expect(inFlight.get()).toBe(3);
+  });
+
+  test('should bucket histogram observations', () => {
+    const duration = registry.histogram({
+      name: 'duration_ms',
+      help: 'Duration',
+      labelNames: ['messageType'],
+      buckets: [10, 100]
+    });
+
+    duration.observe(5, { messageType: 'Order' });
+    duration.observe(50, { messageType: 'Order' });
+    duration.observe(500, { messageType: 'Order' });
+
+    expect(duration.get({ messageType: 'Order' })).toEqual({
+      count: 3,
+      sum: 555,
+      buckets: { '10': 1, '100': 2, '+Inf': 3 }
+    });
+  });
+
+  test('should validate histogram buckets', () => {
+    expect(() => registry.histogram({ name: 'empty', help: 'Empty', buckets: [] })).toThrow(
+      'Histogram empty requires at least one bucket'
+    );
+    expect(() =>
+      registry.histogram({ name: 'unsorted', help: 'Unsorted', buckets: [5, 1] })
+    ).toThrow('Histogram unsorted buckets must be strictly increasing');
+  });
+
+  test('should time operations with startTimer', () => {
+    jest.useFakeTimers();
+    const duration = registry.histogram({
+      name: 'handler_ms',
+      help: 'Handler',
+      labelNames: ['result'],
+      buckets: [100]
+    });
+
+    const observe = duration.startTimer();
+    jest.advanceTimersByTime(40);
+    expect(observe({ result: 'SUCCESS' })).toBe(40);
+    jest.useRealTimers();
+
+    expect(duration.get({ result: 'SUCCESS' })).toEqual(expect.objectContaining({ sum: 40 }));
+  });
+
+  test('should reuse metrics by name and reject type conflicts', () => {
+    const first = registry.counter({ name: 'messages_total', help: 'Messages' });
+
+    expect(registry.counter({ name: 'messages_total', help: 'Messages' })).toBe(first);
+    expect(() => registry.gauge({ name: 'messages_total', help: 'Messages' })).toThrow(
+      'Metric messages_total is already registered as a counter'
+    );
+  });
+
+  test('should export histograms in Prometheus format', () => {
+    registry
+      .histogram({
+        name: 'batch_size',
+        help: 'Batch size',
+        labelNames: ['topic'],
+        buckets: [1, 10]
+      })
+      .observe(4, { topic: 'orders' });
+
+    expect(formatPrometheus(registry.toPrometheus())).toBe(
+      [
+        '# HELP batch_size Batch size',
+        '# TYPE batch_size histogram',
+        'batch_size_bucket{topic="orders",le="1"} 0',
+        'batch_size_bucket{topic="orders",le="10"} 1',
+        'batch_size_bucket{topic="orders",le="+Inf"} 1',
+        'batch_size_sum{topic="orders"} 4',
+        'batch_size_count{topic="orders"} 1',
+        ''
+      ].join('\n')
+    );
+  });
+
+  test('should reset recorded values', () => {
+    const counter = registry.counter({ name: 'resets_total', help: 'Resets' });
+    counter.inc();
+
+    registry.reset();
+
+    expect(registry.snapshot().resets_total.values).toEqual([]);
+  });
+});
@@ -0,0 +1,308 @@
+import { PrometheusMetric, PrometheusSample } from './healthServer';
+
+export type MetricLabels = Record<string, string | number>;
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export const DEFAULT_LATENCY_BUCKETS_MS = [
+  1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000
+];
+
+export const DEFAULT_SIZE_BUCKETS = [1, 5, 10, 25, 50, 100, 250, 500, 1000];
+
+export interface MetricOptions {
+  name: string;
+  help: string;
+  labelNames?: string[];
+}
+
+export interface HistogramOptions extends MetricOptions {
+  buckets?: number[];
+}
+
+export interface HistogramValue {
+  count: number;
+  sum: number;
+  buckets: Record<string, number>;
+}
+
+export interface MetricSnapshot {
+  type: MetricType;
+  help: string;
+  values: Array<{ labels: MetricLabels; value: number | HistogramValue }>;
+}
+
+export type MetricsSnapshot = Record<string, MetricSnapshot>;
+
+abstract class Metric<T> {
+  protected values: Map<string, { labels: MetricLabels; value: T }> = new Map();
+  readonly name: string;
+  readonly help: string;
+  private readonly labelNames: string[];
+
+  constructor(
+    readonly type: MetricType,
+    options: MetricOptions
+  ) {
+    if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(options.name)) {
+      throw new Error(`Invalid metric name: ${options.name}`);
+    }
+    this.name = options.name;
+    this.help = options.help;
+    this.labelNames = options.labelNames ?? [];
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+
+  snapshot(): MetricSnapshot {
+    return {
+      type: this.type,
+      help: this.help,
+      values: Array.from(this.values.values()).map(({ labels, value }) => ({
+        labels: { ...labels },
+        value: this.snapshotValue(value)
+      }))
+    };
+  }
+
+  abstract toPrometheus(): PrometheusMetric;
+
+  protected abstract createValue(): T;
+
+  protected abstract snapshotValue(value: T): number | HistogramValue;
+
+  protected entry(labels: MetricLabels = {}): { labels: MetricLabels; value: T } {
+    const unknown = Object.keys(labels).filter(label => !this.labelNames.includes(label));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown labels for metric ${this.name}: ${unknown.join(', ')}`);
+    }
+
+    const key = this.labelNames.map(label => `${labels[label] ?? ''}`).join('\u0000');
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { labels: { ...labels }, value: this.createValue() };
+      this.values.set(key, entry);
+    }
+    return entry;
+  }
+}
+
+export class Counter extends Metric<{ count: number }> {
+  constructor(options: MetricOptions) {
+    super('counter', options);
+  }
+
+  inc(labels?: MetricLabels, value = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} cannot be decreased`);
+    }
+    this.entry(labels).value.count += value;
+  }
+
+  get(labels?: MetricLabels): number {
+    return this.entry(labels).value.count;
+  }
+
+  toPrometheus(): PrometheusMetric {
+    return {
+      name: this.name,
+      help: this.help,
+      type: 'counter',
+      samples: Array.from(this.values.values()).map(({ labels, value }) => ({
+        labels,
+        value: value.count
+      }))
+    };
+  }
+
+  protected createValue(): { count: number } {
+    return { count: 0 };
+  }
+
+  protected snapshotValue(value: { count: number }): number {
+    return value.count;
+  }
+}
+
+export class Gauge extends Metric<{ current: number }> {
+  constructor(options: MetricOptions) {
+    super('gauge', options);
+  }
+
+  set(value: number, labels?: MetricLabels): void {
+    this.entry(labels).value.current = value;
+  }
+
+  inc(labels?: MetricLabels, value = 1): void {
+    this.entry(labels).value.current += value;
+  }
+
+  dec(labels?: MetricLabels, value = 1): void {
+    this.entry(labels).value.current -= value;
+  }
+
+  get(labels?: MetricLabels): number {
+    return this.entry(labels).value.current;
+  }
+
+  toPrometheus(): PrometheusMetric {
+    return {
+      name: this.name,
+      help: this.help,
+      type: 'gauge',
+      samples: Array.from(this.values.values()).map(({ labels, value }) => ({
+        labels,
+        value: value.current
+      }))
+    };
+  }
+
+  protected createValue(): { current: number } {
+    return { current: 0 };
+  }
+
+  protected snapshotValue(value: { current: number }): number {
+    return value.current;
+  }
+}
+
+interface HistogramState {
+  counts: number[];
+  count: number;
+  sum: number;
+}
+
+export class Histogram extends Metric<HistogramState> {
+  private readonly buckets: number[];
+
+  constructor(options: HistogramOptions) {
+    super('histogram', options);
+    this.buckets = [...(options.buckets ?? DEFAULT_LATENCY_BUCKETS_MS)];
+
+    if (this.buckets.length === 0) {
+      throw new Error(`Histogram ${this.name} requires at least one bucket`);
+    }
+    if (this.buckets.some((bucket, index) => index > 0 && bucket <= this.buckets[index - 1])) {
+      throw new Error(`Histogram ${this.name} buckets must be strictly increasing`);
+    }
+  }
+
+  observe(value: number, labels?: MetricLabels): void {
+    const state = this.entry(labels).value;
+    state.count++;
+    state.sum += value;
+    this.buckets.forEach((bucket, index) => {
+      if (value <= bucket) {
+        state.counts[index]++;
+      }
+    });
+  }
+
+  startTimer(labels?: MetricLabels): (extraLabels?: MetricLabels) => number {
+    const startTime = Date.now();
+    return extraLabels => {
+      const durationMs = Date.now() - startTime;
+      this.observe(durationMs, { ...labels, ...extraLabels });
+      return durationMs;
+    };
+  }
+
+  get(labels?: MetricLabels): HistogramValue {
+    return this.snapshotValue(this.entry(labels).value);
+  }
+
+  toPrometheus(): PrometheusMetric {
+    const samples: PrometheusSample[] = [];
+    this.values.forEach(({ labels, value }) => {
+      this.buckets.forEach((bucket, index) => {
+        samples.push({
+          name: `${this.name}_bucket`,
+          labels: { ...labels, le: bucket },
+          value: value.counts[index]
+        });
+      });
+      samples.push(
+        { name: `${this.name}_bucket`, labels: { ...labels, le: '+Inf' }, value: value.count },
+        { name: `${this.name}_sum`, labels, value: value.sum },
+        { name: `${this.name}_count`, labels, value: value.count }
+      );
+    });
+
+    return { name: this.name, help: this.help, type: 'histogram', samples };
+  }
+
+  protected createValue(): HistogramState {
+    return { counts: this.buckets.map(() => 0), count: 0, sum: 0 };
+  }
+
+  protected snapshotValue(value: HistogramState): HistogramValue {
+    const buckets: Record<string, number> = {};
+    this.buckets.forEach((bucket, index) => {
+      buckets[bucket.toString()] = value.counts[index];
+    });
+    buckets['+Inf'] = value.count;
+    return { count: value.count, sum: value.sum, buckets };
+  }
+}
+
+type AnyMetric = Counter | Gauge | Histogram;
+
+export class MetricsRegistry {
+  private metrics: Map<string, AnyMetric> = new Map();
+
+  counter(options: MetricOptions): Counter {
+    return this.register(options.name, Counter, () => new Counter(options));
+  }
+
+  gauge(options: MetricOptions): Gauge {
+    return this.register(options.name, Gauge, () => new Gauge(options));
+  }
+
+  histogram(options: HistogramOptions): Histogram {
+    return this.register(options.name, Histogram, () => new Histogram(options));
+  }
+
+  getMetric(name: string): AnyMetric | undefined {
+    return this.metrics.get(name);
+  }
+
+  snapshot(): MetricsSnapshot {
+    const snapshot: MetricsSnapshot = {};
+    this.metrics.forEach((metric, name) => {
+      snapshot[name] = metric.snapshot();
+    });
+    return snapshot;
+  }
+
+  toPrometheus(): PrometheusMetric[] {
+    return Array.from(this.metrics.values()).map(metric => metric.toPrometheus());
+  }
+
+  reset(): void {
+    this.metrics.forEach(metric => metric.reset());
+  }
+
+  private register<T extends AnyMetric>(
+    name: string,
+    type: new (options: HistogramOptions) => T,
+    create: () => T
+  ): T {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (!(existing instanceof type)) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      }
+      return existing;
+    }
+
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+export const createMetricsRegistry = (): MetricsRegistry => {
+  return new MetricsRegistry();
+};
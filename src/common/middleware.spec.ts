@@ -0,0 +1,299 @@
+import {
+  ConsumerMiddleware,
+  MiddlewarePipeline,
+  compose,
+  createDecodeMiddleware,
+  createDedupMiddleware,
+  createExpiryMiddleware,
+  createMiddlewareContext,
+  createRoutingMiddleware,
+  createTimeoutMiddleware,
+  createValidationMiddleware
+} from './middleware';
+import { HandlerRegistry, createMessageHandler } from './messageHandler';
+import { JsonSerializer } from './messageSerializer';
+import { MetadataManager } from './metadataManager';
+import { InMemoryIdempotencyStore } from './idempotencyStore';
+
+jest.mock('./logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const createCtx = (rawMessage: string, topic = 'orders') =>
+  createMiddlewareContext({ topic, partition: 0, offset: '1', rawMessage });
+
+describe('compose', () => {
+  test('should run middlewares in onion order', async () => {
+    const calls: string[] = [];
+    const trace =
+      (name: string): ConsumerMiddleware =>
+      async (_ctx, next) => {
+        calls.push(`${name}:before`);
+        await next();
+        calls.push(`${name}:after`);
+      };
+
+    await compose([trace('a'), trace('b')])(createCtx('{}'), async () => {
+      calls.push('terminal');
+    });
+
+    expect(calls).toEqual(['a:before', 'b:before', 'terminal', 'b:after', 'a:after']);
+  });
+
+  test('should reject when next is called multiple times', async () => {
+    const twice: ConsumerMiddleware = async (_ctx, next) => {
+      await next();
+      await next();
+    };
+
+    await expect(compose([twice])(createCtx('{}'))).rejects.toThrow('next() called multiple times');
+  });
+
+  test('should propagate synchronous errors as rejections', async () => {
+    const failing = (() => {
+      throw new Error('sync failure');
+    }) as unknown as ConsumerMiddleware;
+
+    await expect(compose([failing])(createCtx('{}'))).rejects.toThrow('sync failure');
+  });
+});
+
+describe('MiddlewarePipeline', () => {
+  const noop: ConsumerMiddleware = async (_ctx, next) => next();
+  let pipeline: MiddlewarePipeline;
+
+  beforeEach(() => {
+    pipeline = new MiddlewarePipeline().use(noop, 'first').use(noop, 'second');
+  });
+
+  test('should insert, replace and remove named middlewares', () => {
+    pipeline.useBefore('second', noop, 'tracing').useAfter('second', noop).replace('first', noop);
+
+    expect(pipeline.getNames()).toEqual(['first', 'tracing', 'second', 'middleware-1']);
+    expect(pipeline.remove('tracing')).toBe(true);
+    expect(pipeline.remove('tracing')).toBe(false);
+    expect(pipeline.getNames()).toEqual(['first', 'second', 'middleware-1']);
+  });
+
+  test('should reject duplicate and unknown names', () => {
+    expect(() => pipeline.use(noop, 'first')).toThrow('Middleware already registered: first');
+    expect(() => pipeline.replace('missing', noop)).toThrow('Middleware not found: missing');
+    expect(() => pipeline.useBefore('missing', noop)).toThrow('Middleware not found: missing');
+  });
+
+  test('should execute terminal after all middlewares', async () => {
+    const terminal = jest.fn().mockResolvedValue(undefined);
+    const ctx = createCtx('{}');
+
+    await pipeline.execute(ctx, terminal);
+
+    expect(terminal).toHaveBeenCalledWith(ctx);
+  });
+});
+
+describe('built-in middlewares', () => {
+  const next = jest.fn().mockResolvedValue(undefined);
+
+  beforeEach(() => {
+    next.mockClear();
+  });
+
+  describe('decode', () => {
+    const decode = createDecodeMiddleware(new JsonSerializer(), new MetadataManager());
+
+    test('should decode payload and metadata', async () => {
+      const ctx = createCtx('{"id":"evt-1"}');
+      ctx.message.headers = { 'x-msg-source': Buffer.from('checkout') };
+
+      await decode(ctx, next);
+
+      expect(ctx.event).toEqual({ id: 'evt-1' });
+      expect(ctx.envelope?.metadata).toEqual({ source: 'checkout' });
+      expect(next).toHaveBeenCalled();
+    });
+
+    test('should short-circuit empty and undecodable messages to DLQ', async () => {
+      const empty = createCtx('');
+      const invalid = createCtx('{not json');
+
+      await decode(empty, next);
+      await decode(invalid, next);
+
+      expect(empty).toEqual(
+        expect.objectContaining({ result: 'DLQ', reason: 'Empty message received' })
+      );
+      expect(invalid).toEqual(
+        expect.objectContaining({ result: 'DLQ', reason: 'Deserialization failed' })
+      );
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('routing', () => {
+    const registry = new HandlerRegistry({ unknownTypePolicy: 'skip' });
+    registry.register(createMessageHandler('Order', async () => 'SUCCESS'));
+    const routing = createRoutingMiddleware(() => registry);
+
+    test('should resolve handler and event id', async () => {
+      const ctx = createCtx('');
+      ctx.event = { id: 'evt-1', type: 'Order' };
+
+      await routing(ctx, next);
+
+      expect(ctx.messageType).toBe('Order');
+      expect(ctx.handler).toBe(registry.getHandler('Order'));
+      expect(ctx.eventId).toBe('evt-1');
+      expect(next).toHaveBeenCalled();
+    });
+
+    test('should apply unknown type policy', async () => {
+      const ctx = createCtx('');
+      ctx.event = { type: 'Mystery' };
+
+      await routing(ctx, next);
+
+      expect(ctx).toEqual(expect.objectContaining({ result: 'SKIP', unknownMessageType: true }));
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validation', () => {
+    test('should reject events failing handler schema', async () => {
+      const ctx = createCtx('');
+      ctx.event = { id: 'evt-1' };
+      ctx.handler = createMessageHandler('Order', async () => 'SUCCESS', {
+        schema: { validate: () => ({ isValid: false, error: 'amount is required' }) }
+      });
+
+      await createValidationMiddleware()(ctx, next);
+
+      expect(ctx).toEqual(
+        expect.objectContaining({
+          result: 'DLQ',
+          reason: 'Event structure validation failed',
+          error: 'amount is required'
+        })
+      );
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dedup', () => {
+    test('should skip seen events and record successful ones', async () => {
+      const store = new InMemoryIdempotencyStore();
+      const dedup = createDedupMiddleware(store);
+      const first = createCtx('');
+      first.eventId = 'evt-1';
+
+      await dedup(first, async () => {
+        first.result = 'SUCCESS';
+      });
+      const second = createCtx('');
+      second.eventId = 'evt-1';
+      await dedup(second, next);
+
+      expect(await store.has('evt-1')).toBe(true);
+      expect(second).toEqual(
+        expect.objectContaining({ result: 'SKIP', reason: 'Event already processed' })
+      );
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('timeout', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('should abort slow handlers and mark them retryable by default', async () => {
+      jest.useFakeTimers();
+      const ctx = createCtx('');
+      let signal: AbortSignal | undefined;
+      const pending = createTimeoutMiddleware(100)(ctx, () => {
+        signal = ctx.signal;
+        return new Promise(() => undefined);
+      });
+
+      jest.advanceTimersByTime(100);
+      await pending;
+
+      expect(signal?.aborted).toBe(true);
+      expect(ctx).toEqual(
+        expect.objectContaining({
+          timedOut: true,
+          result: 'ERROR',
+          reason: 'Handler timed out after 100ms'
+        })
+      );
+    });
+
+    test('should route timed out messages to DLQ when configured', async () => {
+      jest.useFakeTimers();
+      const ctx = createCtx('');
+      const pending = createTimeoutMiddleware(50, 'dlq')(ctx, () => new Promise(() => undefined));
+
+      jest.advanceTimersByTime(50);
+      await pending;
+
+      expect(ctx.result).toBe('DLQ');
+    });
+
+    test('should leave fast handlers untouched', async () => {
+      const ctx = createCtx('');
+
+      await createTimeoutMiddleware(1000)(ctx, async () => {
+        ctx.result = 'SUCCESS';
+      });
+
+      expect(ctx.result).toBe('SUCCESS');
+      expect(ctx.timedOut).toBeUndefined();
+      expect(ctx.signal?.aborted).toBe(false);
+    });
+
+    test('should reject non-positive timeouts', () => {
+      expect(() => createTimeoutMiddleware(0)).toThrow('timeoutMs must be positive');
+    });
+  });
+
+  describe('expiry', () => {
+    const createExpiringCtx = (ttl: number, sentAt?: number) => {
+      const ctx = createCtx('');
+      ctx.envelope = {
+        payload: {},
+        headers: {},
+        metadata: { ttl, timestamp: sentAt === undefined ? undefined : new Date(sentAt) }
+      };
+      return ctx;
+    };
+
+    test('should skip messages past their ttl', async () => {
+      const ctx = createExpiringCtx(100, Date.now() - 500);
+
+      await createExpiryMiddleware()(ctx, next);
+
+      expect(ctx).toEqual(
+        expect.objectContaining({ expired: true, result: 'SKIP', reason: 'Message expired' })
+      );
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    test('should use DLQ policy when configured', async () => {
+      const ctx = createExpiringCtx(100, Date.now() - 500);
+
+      await createExpiryMiddleware('dlq')(ctx, next);
+
+      expect(ctx.result).toBe('DLQ');
+    });
+
+    test('should pass through live messages and messages without a timestamp', async () => {
+      await createExpiryMiddleware()(createExpiringCtx(60000, Date.now()), next);
+      await createExpiryMiddleware()(createExpiringCtx(100), next);
+
+      expect(next).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,312 @@
+import { performance } from 'perf_hooks';
+import {
+  HandlerRegistry,
+  MessageContext,
+  MessageEnvelope,
+  MessageHandler,
+  ProcessingResult,
+  headersToBuffers
+} from './messageHandler';
+import { MessageSerializer } from './messageSerializer';
+import { MetadataManager } from './metadataManager';
+import { IdempotencyStore } from './idempotencyStore';
+import { getOriginalCoordinates } from './retryTopics';
+import { Histogram } from './metricsRegistry';
+
+export interface ConsumerMiddlewareContext {
+  message: MessageContext;
+  startTime: number;
+  envelope?: MessageEnvelope;
+  event?: any;
+  messageType?: string;
+  handler?: MessageHandler;
+  eventId?: string;
+  unknownMessageType?: boolean;
+  result?: ProcessingResult;
+  reason?: string;
+  errorCode?: ProcessingErrorCode;
+  error?: unknown;
+  signal?: AbortSignal;
+  timedOut?: boolean;
+  expired?: boolean;
+  state: Record<string, unknown>;
+}
+
+export type ProcessingErrorCode =
+  'empty_message' | 'deserialization' | 'expired' | 'unknown_type' | 'validation' | 'timeout';
+
+export type TimeoutPolicy = 'retry' | 'dlq';
+
+export type ExpiryPolicy = 'drop' | 'dlq';
+
+export type NextFunction = () => Promise<void>;
+
+export type ConsumerMiddleware = (
+  ctx: ConsumerMiddlewareContext,
+  next: NextFunction
+) => Promise<void>;
+
+interface NamedMiddleware {
+  name: string;
+  middleware: ConsumerMiddleware;
+}
+
+export function createMiddlewareContext(message: MessageContext): ConsumerMiddlewareContext {
+  return { message, startTime: Date.now(), state: {} };
+}
+
+export function compose(
+  middlewares: ConsumerMiddleware[]
+): (ctx: ConsumerMiddlewareContext, next?: NextFunction) => Promise<void> {
+  return (ctx, next) => {
+    let index = -1;
+
+    const dispatch = (i: number): Promise<void> => {
+      if (i <= index) {
+        return Promise.reject(new Error('next() called multiple times'));
+      }
+      index = i;
+
+      if (i === middlewares.length) {
+        return next ? next() : Promise.resolve();
+      }
+
+      try {
+        return Promise.resolve(middlewares[i](ctx, () => dispatch(i + 1)));
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    };
+
+    return dispatch(0);
+  };
+}
+
+export class MiddlewarePipeline {
+  private entries: NamedMiddleware[] = [];
+  private anonymousCount = 0;
+
+  use(middleware: ConsumerMiddleware, name?: string): this {
+    this.entries.push(this.createEntry(middleware, name));
+    return this;
+  }
+
+  useBefore(target: string, middleware: ConsumerMiddleware, name?: string): this {
+    this.entries.splice(this.indexOf(target), 0, this.createEntry(middleware, name));
+    return this;
+  }
+
+  useAfter(target: string, middleware: ConsumerMiddleware, name?: string): this {
+    this.entries.splice(this.indexOf(target) + 1, 0, this.createEntry(middleware, name));
+    return this;
+  }
+
+  replace(name: string, middleware: ConsumerMiddleware): this {
+    this.entries[this.indexOf(name)] = { name, middleware };
+    return this;
+  }
+
+  remove(name: string): boolean {
+    const index = this.entries.findIndex(entry => entry.name === name);
+    if (index === -1) {
+      return false;
+    }
+    this.entries.splice(index, 1);
+    return true;
+  }
+
+  has(name: string): boolean {
+    return this.entries.some(entry => entry.name === name);
+  }
+
+  getNames(): string[] {
+    return this.entries.map(entry => entry.name);
+  }
+
+  execute(
+    ctx: ConsumerMiddlewareContext,
+    terminal: (ctx: ConsumerMiddlewareContext) => Promise<void>
+  ): Promise<void> {
+    return compose(this.entries.map(entry => entry.middleware))(ctx, () => terminal(ctx));
+  }
+
+  private createEntry(middleware: ConsumerMiddleware, name?: string): NamedMiddleware {
+    const entryName = name ?? `middleware-${++this.anonymousCount}`;
+    if (this.has(entryName)) {
+      throw new Error(`Middleware already registered: ${entryName}`);
+    }
+    return { name: entryName, middleware };
+  }
+
+  private indexOf(name: string): number {
+    const index = this.entries.findIndex(entry => entry.name === name);
+    if (index === -1) {
+      throw new Error(`Middleware not found: ${name}`);
+    }
+    return index;
+  }
+}
+
+export const createDecodeMiddleware = (
+  serializer: MessageSerializer,
+  metadataManager: MetadataManager,
+  deserializationDuration?: Histogram
+): ConsumerMiddleware => {
+  return async (ctx, next) => {
+    const { message } = ctx;
+    if (!message.rawMessage) {
+      ctx.result = 'DLQ';
+      ctx.reason = 'Empty message received';
+      ctx.errorCode = 'empty_message';
+      return;
+    }
+
+    const startTime = performance.now();
+    try {
+      ctx.envelope = {
+        payload: serializer.deserialize(message.rawMessage),
+        key: message.key,
+        headers: message.headers || {},
+        metadata: metadataManager.headersToMetadata(headersToBuffers(message.headers))
+      };
+    } catch (error) {
+      ctx.result = 'DLQ';
+      ctx.reason = 'Deserialization failed';
+      ctx.errorCode = 'deserialization';
+      ctx.error = error;
+      return;
+    }
+    deserializationDuration?.observe(performance.now() - startTime);
+
+    ctx.event = ctx.envelope.payload;
+    await next();
+  };
+};
+
+export const createExpiryMiddleware = (onExpired: ExpiryPolicy = 'drop'): ConsumerMiddleware => {
+  return async (ctx, next) => {
+    const ttl = ctx.envelope?.metadata.ttl;
+    if (ttl !== undefined && !isNaN(ttl)) {
+      const sentAt =
+        ctx.envelope!.metadata.timestamp?.getTime() ??
+        (ctx.message.timestamp ? Number(ctx.message.timestamp) : NaN);
+
+      if (!isNaN(sentAt) && sentAt + ttl <= Date.now()) {
+        ctx.expired = true;
+        ctx.result = onExpired === 'dlq' ? 'DLQ' : 'SKIP';
+        ctx.reason = 'Message expired';
+        ctx.errorCode = 'expired';
+        return;
+      }
+    }
+
+    await next();
+  };
+};
+
+export const createRoutingMiddleware = (
+  resolveRegistry: (topic: string) => HandlerRegistry
+): ConsumerMiddleware => {
+  return async (ctx, next) => {
+    const registry = resolveRegistry(getOriginalCoordinates(ctx.message).topic);
+    const { messageType, handler } = registry.resolve(ctx.event, ctx.message.headers);
+    ctx.messageType = messageType;
+
+    if (!handler) {
+      ctx.unknownMessageType = true;
+      switch (registry.getUnknownTypePolicy()) {
+        case 'skip':
+          ctx.result = 'SKIP';
+          ctx.reason = 'Unknown message type';
+          ctx.errorCode = 'unknown_type';
+          return;
+        case 'dlq':
+          ctx.result = 'DLQ';
+          ctx.reason = `No handler registered for message type: ${messageType}`;
+          ctx.errorCode = 'unknown_type';
+          return;
+        case 'error':
+          throw new Error(`No handler registered for message type: ${messageType}`);
+      }
+    }
+
+    ctx.handler = handler;
+    ctx.eventId = handler!.getEventId ? handler!.getEventId(ctx.event) : ctx.event?.id;
+    await next();
+  };
+};
+
+export const createValidationMiddleware = (): ConsumerMiddleware => {
+  return async (ctx, next) => {
+    const schema = ctx.handler?.schema;
+    if (schema) {
+      const validationResult = schema.validate(ctx.event);
+      if (!validationResult.isValid) {
+        ctx.result = 'DLQ';
+        ctx.reason = 'Event structure validation failed';
+        ctx.errorCode = 'validation';
+        ctx.error = validationResult.error || 'Unknown validation error';
+        return;
+      }
+    }
+
+    await next();
+  };
+};
+
+export const createDedupMiddleware = (store: IdempotencyStore): ConsumerMiddleware => {
+  return async (ctx, next) => {
+    if (ctx.eventId && (await store.has(ctx.eventId))) {
+      ctx.result = 'SKIP';
+      ctx.reason = 'Event already processed';
+      return;
+    }
+
+    await next();
+
+    if (ctx.result === 'SUCCESS' && ctx.eventId) {
+      await store.add(ctx.eventId);
+    }
+  };
+};
+
+export const createTimeoutMiddleware = (
+  timeoutMs: number,
+  onTimeout: TimeoutPolicy = 'retry'
+): ConsumerMiddleware => {
+  if (timeoutMs <= 0) {
+    throw new Error('timeoutMs must be positive');
+  }
+
+  return async (ctx, next) => {
+    if (ctx.result) {
+      return next();
+    }
+
+    const controller = new AbortController();
+    ctx.signal = controller.signal;
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<void>(resolve => {
+      timer = setTimeout(() => {
+        const error = new Error(`Handler timed out after ${timeoutMs}ms`);
+        ctx.timedOut = true;
+        ctx.result = onTimeout === 'dlq' ? 'DLQ' : 'ERROR';
+        ctx.reason = error.message;
+        ctx.errorCode = 'timeout';
+        ctx.error = error;
+        controller.abort(error);
+        resolve();
+      }, timeoutMs);
+    });
+
+    const handling = next();
+    handling.catch(() => undefined);
+
+    try {
+      await Promise.race([handling, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+};
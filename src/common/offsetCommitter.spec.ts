@@ -0,0 +1,132 @@
+import { OffsetCommitter } from './offsetCommitter';
+
+jest.mock('./logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('OffsetCommitter', () => {
+  let commitOffsets: jest.Mock;
+
+  beforeEach(() => {
+    commitOffsets = jest.fn().mockResolvedValue(undefined);
+  });
+
+  test('should validate interval options', () => {
+    expect(() => new OffsetCommitter(commitOffsets, { strategy: 'interval' })).toThrow(
+      'interval commit strategy requires everyMessages or everyMs'
+    );
+    expect(
+      () => new OffsetCommitter(commitOffsets, { strategy: 'interval', everyMessages: 0 })
+    ).toThrow('everyMessages must be at least 1');
+    expect(() => new OffsetCommitter(commitOffsets, { strategy: 'interval', everyMs: -1 })).toThrow(
+      'everyMs must be positive'
+    );
+  });
+
+  test('should not track offsets with auto strategy', async () => {
+    const committer = new OffsetCommitter(commitOffsets);
+
+    await committer.afterMessage('orders', 0, '5');
+    await committer.afterBatch();
+    await committer.flush();
+
+    expect(committer.isAutoCommit()).toBe(true);
+    expect(commitOffsets).not.toHaveBeenCalled();
+  });
+
+  test('should commit next offset after each message', async () => {
+    const committer = new OffsetCommitter(commitOffsets, { strategy: 'perMessage' });
+
+    await committer.afterMessage('orders', 0, '5');
+    await committer.afterMessage('orders', 0, '6');
+
+    expect(commitOffsets.mock.calls).toEqual([
+      [[{ topic: 'orders', partition: 0, offset: '6' }]],
+      [[{ topic: 'orders', partition: 0, offset: '7' }]]
+    ]);
+  });
+
+  test('should commit every N messages with interval strategy', async () => {
+    const committer = new OffsetCommitter(commitOffsets, {
+      strategy: 'interval',
+      everyMessages: 3
+    });
+
+    await committer.afterMessage('orders', 0, '1');
+    await committer.afterMessage('orders', 1, '8');
+    expect(commitOffsets).not.toHaveBeenCalled();
+
+    await committer.afterMessage('orders', 0, '2');
+    expect(commitOffsets).toHaveBeenCalledWith([
+      { topic: 'orders', partition: 0, offset: '3' },
+      { topic: 'orders', partition: 1, offset: '9' }
+    ]);
+  });
+
+  test('should commit every T milliseconds with interval strategy', async () => {
+    jest.useFakeTimers();
+    const committer = new OffsetCommitter(commitOffsets, { strategy: 'interval', everyMs: 1000 });
+    committer.start();
+
+    committer.markProcessed('orders', 0, '10');
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(commitOffsets).toHaveBeenCalledWith([{ topic: 'orders', partition: 0, offset: '11' }]);
+    await committer.stop();
+    jest.useRealTimers();
+  });
+
+  test('should commit once per batch with batch strategy', async () => {
+    const committer = new OffsetCommitter(commitOffsets, { strategy: 'batch' });
+
+    await committer.afterMessage('orders', 0, '1');
+    await committer.afterMessage('orders', 0, '2');
+    expect(commitOffsets).not.toHaveBeenCalled();
+
+    await committer.afterBatch();
+    expect(commitOffsets).toHaveBeenCalledTimes(1);
+    expect(commitOffsets).toHaveBeenCalledWith([{ topic: 'orders', partition: 0, offset: '3' }]);
+  });
+
+  test('should keep offsets pending and count failures when commit fails', async () => {
+    commitOffsets.mockRejectedValueOnce(new Error('coordinator unavailable'));
+    const committer = new OffsetCommitter(commitOffsets, { strategy: 'batch' });
+    committer.markProcessed('orders', 0, '4');
+
+    await expect(committer.flush()).rejects.toThrow('coordinator unavailable');
+    expect(committer.getMetrics()).toEqual(
+      expect.objectContaining({ failedCommits: 1, commits: 0, pendingOffsets: 1 })
+    );
+
+    await committer.flush();
+    expect(commitOffsets).toHaveBeenLastCalledWith([
+      { topic: 'orders', partition: 0, offset: '5' }
+    ]);
+    expect(committer.getMetrics()).toEqual(
+      expect.objectContaining({ commits: 1, committedOffsets: 1, pendingOffsets: 0 })
+    );
+  });
+
+  test('should record commit latency', async () => {
+    jest.useFakeTimers();
+    commitOffsets.mockImplementation(() => new Promise(resolve => setTimeout(resolve, 50)));
+    const committer = new OffsetCommitter(commitOffsets, { strategy: 'perMessage' });
+
+    const committing = committer.afterMessage('orders', 0, '1');
+    await jest.advanceTimersByTimeAsync(50);
+    await committing;
+
+    expect(committer.getMetrics()).toEqual(
+      expect.objectContaining({
+        lastCommitLatencyMs: 50,
+        avgCommitLatencyMs: 50,
+        maxCommitLatencyMs: 50
+      })
+    );
+    jest.useRealTimers();
+  });
+});
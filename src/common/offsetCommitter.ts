@@ -0,0 +1,170 @@
+import { TopicPartitionOffsetAndMetadata } from 'kafkajs';
+import { logger } from './logger';
+import { nextOffset } from './offsetTracker';
+
+export type CommitStrategy = 'auto' | 'perMessage' | 'interval' | 'batch';
+
+export interface OffsetCommitOptions {
+  strategy?: CommitStrategy;
+  everyMessages?: number;
+  everyMs?: number;
+}
+
+export interface OffsetCommitMetrics {
+  strategy: CommitStrategy;
+  commits: number;
+  failedCommits: number;
+  committedOffsets: number;
+  pendingOffsets: number;
+  lastCommitLatencyMs: number;
+  avgCommitLatencyMs: number;
+  maxCommitLatencyMs: number;
+}
+
+export type CommitOffsetsFn = (offsets: TopicPartitionOffsetAndMetadata[]) => Promise<void>;
+
+export class OffsetCommitter {
+  private readonly strategy: CommitStrategy;
+  private readonly everyMessages?: number;
+  private readonly everyMs?: number;
+  private pending: Map<string, TopicPartitionOffsetAndMetadata> = new Map();
+  private commitQueue: Promise<void> = Promise.resolve();
+  private timer?: NodeJS.Timeout;
+  private messagesSinceCommit = 0;
+  private commits = 0;
+  private failedCommits = 0;
+  private committedOffsets = 0;
+  private totalLatencyMs = 0;
+  private lastCommitLatencyMs = 0;
+  private maxCommitLatencyMs = 0;
+
+  constructor(
+    private commitOffsets: CommitOffsetsFn,
+    options: OffsetCommitOptions = {}
+  ) {
+    this.strategy = options.strategy ?? 'auto';
+    this.everyMessages = options.everyMessages;
+    this.everyMs = options.everyMs;
+
+    if (this.everyMessages !== undefined && this.everyMessages < 1) {
+      throw new Error('everyMessages must be at least 1');
+    }
+    if (this.everyMs !== undefined && this.everyMs <= 0) {
+      throw new Error('everyMs must be positive');
+    }
+    if (this.strategy === 'interval' && !this.everyMessages && !this.everyMs) {
+      throw new Error('interval commit strategy requires everyMessages or everyMs');
+    }
+  }
+
+  isAutoCommit(): boolean {
+    return this.strategy === 'auto';
+  }
+
+  start(): void {
+    if (this.strategy !== 'interval' || !this.everyMs || this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.flush().catch(() => undefined);
+    }, this.everyMs);
+    this.timer.unref();
+  }
+
+  markProcessed(topic: string, partition: number, offset: string): void {
+    if (this.isAutoCommit()) {
+      return;
+    }
+
+    this.pending.set(`${topic}:${partition}`, { topic, partition, offset: nextOffset(offset) });
+    this.messagesSinceCommit++;
+  }
+
+  async afterMessage(topic: string, partition: number, offset: string): Promise<void> {
+    this.markProcessed(topic, partition, offset);
+
+    if (this.strategy === 'perMessage' || this.isCountDue()) {
+      await this.flush();
+    }
+  }
+
+  async afterBatch(): Promise<void> {
+    if (this.strategy === 'perMessage' || this.strategy === 'batch' || this.isCountDue()) {
+      await this.flush();
+    }
+  }
+
+  flush(): Promise<void> {
+    const result = this.commitQueue.then(() => this.commitPending());
+    this.commitQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    await this.flush();
+  }
+
+  getMetrics(): OffsetCommitMetrics {
+    return {
+      strategy: this.strategy,
+      commits: this.commits,
+      failedCommits: this.failedCommits,
+      committedOffsets: this.committedOffsets,
+      pendingOffsets: this.pending.size,
+      lastCommitLatencyMs: this.lastCommitLatencyMs,
+      avgCommitLatencyMs: this.commits === 0 ? 0 : this.totalLatencyMs / this.commits,
+      maxCommitLatencyMs: this.maxCommitLatencyMs
+    };
+  }
+
+  private isCountDue(): boolean {
+    return (
+      this.strategy === 'interval' &&
+      this.everyMessages !== undefined &&
+      this.messagesSinceCommit >= this.everyMessages
+    );
+  }
+
+  private async commitPending(): Promise<void> {
+    if (this.pending.size === 0) {
+      return;
+    }
+
+    const offsets = Array.from(this.pending.values());
+    this.pending.clear();
+    this.messagesSinceCommit = 0;
+    const startTime = Date.now();
+
+    try {
+      await this.commitOffsets(offsets);
+
+      const latencyMs = Date.now() - startTime;
+      this.commits++;
+      this.committedOffsets += offsets.length;
+      this.totalLatencyMs += latencyMs;
+      this.lastCommitLatencyMs = latencyMs;
+      this.maxCommitLatencyMs = Math.max(this.maxCommitLatencyMs, latencyMs);
+      logger.debug('Offsets committed', { strategy: this.strategy, offsets, latencyMs });
+    } catch (error) {
+      this.failedCommits++;
+      offsets.forEach(offset => {
+        const key = `${offset.topic}:${offset.partition}`;
+        if (!this.pending.has(key)) {
+          this.pending.set(key, offset);
+        }
+      });
+
+      logger.error('Offset commit failed', {
+        strategy: this.strategy,
+        offsets,
+        error: error instanceof Error ? error.message : error
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { OffsetTracker, nextOffset } from './offsetTracker';
+
+describe('OffsetTracker', () => {
+  let tracker: OffsetTracker;
+
+  beforeEach(() => {
+    tracker = new OffsetTracker();
+    ['10', '11', '12'].forEach(offset => tracker.track('orders', 0, offset));
+  });
+
+  test('should not advance watermark past incomplete offsets', () => {
+    expect(tracker.complete('orders', 0, '11')).toBeUndefined();
+    expect(tracker.complete('orders', 0, '12')).toBeUndefined();
+    expect(tracker.getWatermark('orders', 0)).toBeUndefined();
+    expect(tracker.pendingCount('orders', 0)).toBe(3);
+  });
+
+  test('should advance to highest contiguous completed offset', () => {
+    tracker.complete('orders', 0, '12');
+    tracker.complete('orders', 0, '11');
+
+    expect(tracker.complete('orders', 0, '10')).toBe('12');
+    expect(tracker.getWatermark('orders', 0)).toBe('12');
+    expect(tracker.pendingCount('orders', 0)).toBe(0);
+  });
+
+  test('should advance incrementally', () => {
+    expect(tracker.complete('orders', 0, '10')).toBe('10');
+    expect(tracker.complete('orders', 0, '11')).toBe('11');
+    expect(tracker.getWatermarks()).toEqual([{ topic: 'orders', partition: 0, offset: '11' }]);
+  });
+
+  test('should track partitions independently', () => {
+    tracker.track('orders', 1, '3');
+
+    expect(tracker.complete('orders', 1, '3')).toBe('3');
+    expect(tracker.getWatermark('orders', 0)).toBeUndefined();
+    expect(tracker.totalPending()).toBe(3);
+  });
+
+  test('should reject out-of-order tracking and unknown offsets', () => {
+    expect(() => tracker.track('orders', 0, '11')).toThrow(
+      'Offset 11 for orders:0 must be greater than last tracked offset 12'
+    );
+    expect(() => tracker.complete('orders', 0, '99')).toThrow(
+      'Offset 99 for orders:0 is not tracked'
+    );
+  });
+
+  test('should reset partition state', () => {
+    tracker.complete('orders', 0, '10');
+
+    tracker.reset('orders', 0);
+
+    expect(tracker.pendingCount('orders', 0)).toBe(0);
+    expect(tracker.getWatermark('orders', 0)).toBeUndefined();
+  });
+
+  test('should compute next offset', () => {
+    expect(nextOffset('41')).toBe('42');
+    expect(nextOffset('9007199254740993')).toBe('9007199254740994');
+  });
+});
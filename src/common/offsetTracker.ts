@@ -0,0 +1,95 @@
+interface TrackedOffset {
+  offset: string;
+  completed: boolean;
+}
+
+export interface TopicPartitionOffset {
+  topic: string;
+  partition: number;
+  offset: string;
+}
+
+export function nextOffset(offset: string): string {
+  return (BigInt(offset) + BigInt(1)).toString();
+}
+
+export class OffsetTracker {
+  private partitions: Map<string, TrackedOffset[]> = new Map();
+  private watermarks: Map<string, TopicPartitionOffset> = new Map();
+
+  track(topic: string, partition: number, offset: string): void {
+    const key = this.getKey(topic, partition);
+    const pending = this.partitions.get(key) || [];
+    const last = pending[pending.length - 1];
+
+    if (last && BigInt(offset) <= BigInt(last.offset)) {
+      throw new Error(
+        `Offset ${offset} for ${key} must be greater than last tracked offset ${last.offset}`
+      );
+    }
+
+    pending.push({ offset, completed: false });
+    this.partitions.set(key, pending);
+  }
+
+  complete(topic: string, partition: number, offset: string): string | undefined {
+    const key = this.getKey(topic, partition);
+    const pending = this.partitions.get(key);
+    const entry = pending?.find(tracked => tracked.offset === offset);
+    if (!pending || !entry) {
+      throw new Error(`Offset ${offset} for ${key} is not tracked`);
+    }
+
+    entry.completed = true;
+
+    let watermark: string | undefined;
+    while (pending.length > 0 && pending[0].completed) {
+      watermark = pending.shift()!.offset;
+    }
+
+    if (pending.length === 0) {
+      this.partitions.delete(key);
+    }
+
+    if (watermark !== undefined) {
+      this.watermarks.set(key, { topic, partition, offset: watermark });
+    }
+
+    return watermark;
+  }
+
+  getWatermark(topic: string, partition: number): string | undefined {
+    return this.watermarks.get(this.getKey(topic, partition))?.offset;
+  }
+
+  getWatermarks(): TopicPartitionOffset[] {
+    return Array.from(this.watermarks.values());
+  }
+
+  pendingCount(topic: string, partition: number): number {
+    return this.partitions.get(this.getKey(topic, partition))?.length ?? 0;
+  }
+
+  totalPending(): number {
+    let total = 0;
+    this.partitions.forEach(pending => {
+      total += pending.length;
+    });
+    return total;
+  }
+
+  reset(topic: string, partition: number): void {
+    const key = this.getKey(topic, partition);
+    this.partitions.delete(key);
+    this.watermarks.delete(key);
+  }
+
+  clear(): void {
+    this.partitions.clear();
+    this.watermarks.clear();
+  }
+
+  private getKey(topic: string, partition: number): string {
+    return `${topic}:${partition}`;
+  }
+}
@@ -0,0 +1,67 @@
+import { PriorityScheduler, clampPriority } from './priorityScheduler';
+
+describe('PriorityScheduler', () => {
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+
+  test('should validate concurrency', () => {
+    expect(() => new PriorityScheduler(0)).toThrow('concurrency must be a positive integer');
+  });
+
+  test('should clamp priorities into range', () => {
+    expect(clampPriority(-3)).toBe(0);
+    expect(clampPriority(4.6)).toBe(5);
+    expect(clampPriority(42)).toBe(10);
+  });
+
+  test('should run tasks immediately while slots are free', async () => {
+    const scheduler = new PriorityScheduler(2);
+
+    await expect(scheduler.schedule(1, async () => 'done')).resolves.toBe('done');
+    expect(scheduler.getMetrics()).toEqual({
+      concurrency: 2,
+      active: 0,
+      queued: 0,
+      dispatchedByPriority: { 1: 1 }
+    });
+  });
+
+  test('should weight queued tasks by priority without starving low priority', async () => {
+    const scheduler = new PriorityScheduler(1);
+    const order: string[] = [];
+    let release: () => void = () => undefined;
+
+    const blocker = scheduler.schedule(
+      0,
+      () =>
+        new Promise<void>(resolve => {
+          release = resolve;
+        })
+    );
+    const tasks: Array<Promise<void>> = [];
+    for (let i = 0; i < 4; i++) {
+      tasks.push(scheduler.schedule(9, async () => void order.push(`high-${i}`)));
+      tasks.push(scheduler.schedule(0, async () => void order.push(`low-${i}`)));
+    }
+    await flush();
+    expect(scheduler.getMetrics().queued).toBe(8);
+
+    release();
+    await Promise.all([blocker, ...tasks]);
+
+    expect(order.slice(0, 4)).toEqual(['high-0', 'high-1', 'high-2', 'high-3']);
+    expect(order).toContain('low-0');
+    expect(order).toHaveLength(8);
+  });
+
+  test('should release slot when a task fails', async () => {
+    const scheduler = new PriorityScheduler(1);
+
+    await expect(
+      scheduler.schedule(5, async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+    await expect(scheduler.schedule(5, async () => 'next')).resolves.toBe('next');
+    expect(scheduler.getMetrics().active).toBe(0);
+  });
+});
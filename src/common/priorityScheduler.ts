@@ -0,0 +1,121 @@
+export const MIN_PRIORITY = 0;
+export const MAX_PRIORITY = 10;
+
+export interface PrioritySchedulerMetrics {
+  concurrency: number;
+  active: number;
+  queued: number;
+  dispatchedByPriority: Record<number, number>;
+}
+
+interface PriorityLevel {
+  waiting: Array<() => void>;
+  currentWeight: number;
+}
+
+export function clampPriority(priority: number): number {
+  return Math.min(MAX_PRIORITY, Math.max(MIN_PRIORITY, Math.round(priority)));
+}
+
+export class PriorityScheduler {
+  private readonly concurrency: number;
+  private levels: Map<number, PriorityLevel> = new Map();
+  private dispatched: Map<number, number> = new Map();
+  private active = 0;
+
+  constructor(concurrency = 1) {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error('concurrency must be a positive integer');
+    }
+    this.concurrency = concurrency;
+  }
+
+  async schedule<T>(priority: number, task: () => Promise<T>): Promise<T> {
+    await this.acquire(clampPriority(priority));
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  getMetrics(): PrioritySchedulerMetrics {
+    return {
+      concurrency: this.concurrency,
+      active: this.active,
+      queued: this.queuedCount(),
+      dispatchedByPriority: Object.fromEntries(this.dispatched)
+    };
+  }
+
+  private acquire(priority: number): Promise<void> {
+    if (this.active < this.concurrency && this.queuedCount() === 0) {
+      this.grant(priority);
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+      let level = this.levels.get(priority);
+      if (!level) {
+        level = { waiting: [], currentWeight: 0 };
+        this.levels.set(priority, level);
+      }
+      level.waiting.push(() => {
+        this.grant(priority);
+        resolve();
+      });
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    const next = this.selectNext();
+    if (next) {
+      next();
+    }
+  }
+
+  private grant(priority: number): void {
+    this.active++;
+    this.dispatched.set(priority, (this.dispatched.get(priority) ?? 0) + 1);
+  }
+
+  private queuedCount(): number {
+    let queued = 0;
+    this.levels.forEach(level => {
+      queued += level.waiting.length;
+    });
+    return queued;
+  }
+
+  // Smooth weighted round-robin: higher priorities win more often, lower ones never starve.
+  private selectNext(): (() => void) | undefined {
+    let selected: PriorityLevel | undefined;
+    let selectedPriority = -1;
+    let totalWeight = 0;
+
+    this.levels.forEach((level, priority) => {
+      if (level.waiting.length === 0) {
+        return;
+      }
+      const weight = priority + 1;
+      level.currentWeight += weight;
+      totalWeight += weight;
+      if (
+        !selected ||
+        level.currentWeight > selected.currentWeight ||
+        (level.currentWeight === selected.currentWeight && priority > selectedPriority)
+      ) {
+        selected = level;
+        selectedPriority = priority;
+      }
+    });
+
+    if (!selected) {
+      return undefined;
+    }
+
+    selected.currentWeight -= totalWeight;
+    return selected.waiting.shift();
+  }
+}
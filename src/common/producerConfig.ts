@@ -1,4 +1,5 @@
 import { CompressionTypes, ProducerConfig } from 'kafkajs';
+import { BufferFullPolicy } from './recordAccumulator';
 
 export interface EnhancedProducerConfig {
   compression?: {
@@ -10,6 +11,9 @@ export interface EnhancedProducerConfig {
     maxBatchSize?: number;
     lingerMs?: number;
     maxInFlightRequests?: number;
+    bufferMemory?: number;
+    onBufferFull?: BufferFullPolicy;
+    maxBlockMs?: number;
   };
 
   retry?: {
@@ -0,0 +1,112 @@
+import { Consumer } from 'kafkajs';
+import { RebalanceListener } from './rebalanceListener';
+
+jest.mock('./logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const { logger } = require('./logger');
+const mockLogger = logger as jest.Mocked<typeof logger>;
+
+const createFakeConsumer = () => {
+  const listeners: Map<string, (event: any) => void> = new Map();
+  const remove = jest.fn();
+  const consumer = {
+    events: {
+      GROUP_JOIN: 'consumer.group_join',
+      REBALANCING: 'consumer.rebalancing',
+      STOP: 'consumer.stop'
+    },
+    on: jest.fn((eventName: string, listener: (event: any) => void) => {
+      listeners.set(eventName, listener);
+      return remove;
+    })
+  };
+  const emit = (eventName: string, payload: unknown = {}) =>
+    listeners.get(eventName)!({ id: 1, type: eventName, timestamp: Date.now(), payload });
+
+  return { consumer: consumer as unknown as Consumer, emit, remove };
+};
+
+describe('RebalanceListener', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should report assigned partitions on group join', async () => {
+    const onPartitionsAssigned = jest.fn();
+    const listener = new RebalanceListener({ onPartitionsAssigned });
+    const { consumer, emit } = createFakeConsumer();
+    listener.attach(consumer);
+
+    emit('consumer.group_join', { memberAssignment: { orders: [0, 1], payments: [] } });
+    await listener.whenIdle();
+
+    expect(onPartitionsAssigned).toHaveBeenCalledWith([{ topic: 'orders', partitions: [0, 1] }]);
+    expect(listener.getAssignment()).toEqual([{ topic: 'orders', partitions: [0, 1] }]);
+    expect(listener.getMetrics()).toEqual(
+      expect.objectContaining({ assignments: 1, rebalances: 0, inProgress: false })
+    );
+  });
+
+  test('should revoke on rebalance and measure rebalance duration', async () => {
+    jest.useFakeTimers();
+    const calls: string[] = [];
+    const listener = new RebalanceListener({
+      onPartitionsAssigned: async partitions => {
+        calls.push(`assigned:${partitions[0].partitions.join(',')}`);
+      },
+      onPartitionsRevoked: async partitions => {
+        calls.push(`revoked:${partitions[0].partitions.join(',')}`);
+      }
+    });
+    const { consumer, emit } = createFakeConsumer();
+    listener.attach(consumer);
+
+    emit('consumer.group_join', { memberAssignment: { orders: [0, 1] } });
+    emit('consumer.rebalancing');
+    expect(listener.getMetrics().inProgress).toBe(true);
+    jest.advanceTimersByTime(250);
+    emit('consumer.group_join', { memberAssignment: { orders: [1] } });
+    jest.useRealTimers();
+    await listener.whenIdle();
+
+    expect(calls).toEqual(['assigned:0,1', 'revoked:0,1', 'assigned:1']);
+    expect(listener.getMetrics()).toEqual(
+      expect.objectContaining({
+        rebalances: 1,
+        assignments: 2,
+        revocations: 1,
+        inProgress: false,
+        lastRebalanceDurationMs: 250,
+        averageRebalanceDurationMs: 250,
+        maxRebalanceDurationMs: 250
+      })
+    );
+  });
+
+  test('should revoke on stop and log hook failures', async () => {
+    const listener = new RebalanceListener({
+      onPartitionsRevoked: jest.fn().mockRejectedValue(new Error('flush failed'))
+    });
+    const { consumer, emit, remove } = createFakeConsumer();
+    listener.attach(consumer);
+
+    emit('consumer.group_join', { memberAssignment: { orders: [2] } });
+    emit('consumer.stop');
+    await listener.whenIdle();
+
+    expect(listener.getAssignment()).toEqual([]);
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      'Rebalance hook failed',
+      expect.objectContaining({ hook: 'onPartitionsRevoked', error: 'flush failed' })
+    );
+
+    listener.detach();
+    expect(remove).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,146 @@
+import { Consumer, IMemberAssignment, TopicPartitions } from 'kafkajs';
+import { logger } from './logger';
+
+export type PartitionsHook = (partitions: TopicPartitions[]) => void | Promise<void>;
+
+export interface RebalanceHooks {
+  onPartitionsAssigned?: PartitionsHook;
+  onPartitionsRevoked?: PartitionsHook;
+}
+
+export interface RebalanceMetrics {
+  rebalances: number;
+  assignments: number;
+  revocations: number;
+  inProgress: boolean;
+  lastRebalanceDurationMs?: number;
+  averageRebalanceDurationMs: number;
+  maxRebalanceDurationMs: number;
+  assignedPartitions: TopicPartitions[];
+}
+
+export class RebalanceListener {
+  private assignment: TopicPartitions[] = [];
+  private removeListeners: Array<() => void> = [];
+  private hookQueue: Promise<void> = Promise.resolve();
+  private rebalanceStartedAt?: number;
+  private groupMember = false;
+  private rebalances = 0;
+  private assignments = 0;
+  private revocations = 0;
+  private completedRebalances = 0;
+  private totalRebalanceMs = 0;
+  private maxRebalanceMs = 0;
+  private lastRebalanceMs?: number;
+
+  constructor(private hooks: RebalanceHooks = {}) {}
+
+  attach(consumer: Consumer): void {
+    this.detach();
+    const { GROUP_JOIN, REBALANCING, STOP } = consumer.events;
+    this.removeListeners = [
+      consumer.on(GROUP_JOIN, event => this.handleGroupJoin(event.payload.memberAssignment)),
+      consumer.on(REBALANCING, () => this.handleRebalancing()),
+      consumer.on(STOP, () => {
+        this.groupMember = false;
+        this.revokeAssignment();
+      })
+    ];
+  }
+
+  detach(): void {
+    this.removeListeners.forEach(remove => remove());
+    this.removeListeners = [];
+  }
+
+  whenIdle(): Promise<void> {
+    return this.hookQueue;
+  }
+
+  isGroupMember(): boolean {
+    return this.groupMember;
+  }
+
+  getAssignment(): TopicPartitions[] {
+    return this.assignment.map(({ topic, partitions }) => ({ topic, partitions: [...partitions] }));
+  }
+
+  getMetrics(): RebalanceMetrics {
+    return {
+      rebalances: this.rebalances,
+      assignments: this.assignments,
+      revocations: this.revocations,
+      inProgress: this.rebalanceStartedAt !== undefined,
+      lastRebalanceDurationMs: this.lastRebalanceMs,
+      averageRebalanceDurationMs:
+        this.completedRebalances === 0 ? 0 : this.totalRebalanceMs / this.completedRebalances,
+      maxRebalanceDurationMs: this.maxRebalanceMs,
+      assignedPartitions: this.getAssignment()
+    };
+  }
+
+  private handleRebalancing(): void {
+    if (this.rebalanceStartedAt === undefined) {
+      this.rebalanceStartedAt = Date.now();
+      this.rebalances++;
+      logger.info('Consumer group rebalancing', { assignedPartitions: this.assignment });
+    }
+    this.groupMember = false;
+    this.revokeAssignment();
+  }
+
+  private handleGroupJoin(memberAssignment: IMemberAssignment): void {
+    this.revokeAssignment();
+
+    if (this.rebalanceStartedAt !== undefined) {
+      const durationMs = Date.now() - this.rebalanceStartedAt;
+      this.rebalanceStartedAt = undefined;
+      this.completedRebalances++;
+      this.totalRebalanceMs += durationMs;
+      this.maxRebalanceMs = Math.max(this.maxRebalanceMs, durationMs);
+      this.lastRebalanceMs = durationMs;
+    }
+
+    this.assignment = Object.entries(memberAssignment)
+      .filter(([, partitions]) => partitions.length > 0)
+      .map(([topic, partitions]) => ({ topic, partitions: [...partitions] }));
+    this.assignments++;
+    this.groupMember = true;
+
+    const assigned = this.getAssignment();
+    logger.info('Partitions assigned', {
+      partitions: assigned,
+      rebalanceDurationMs: this.lastRebalanceMs
+    });
+    this.enqueue('onPartitionsAssigned', assigned);
+  }
+
+  private revokeAssignment(): void {
+    if (this.assignment.length === 0) {
+      return;
+    }
+
+    const revoked = this.assignment;
+    this.assignment = [];
+    this.revocations++;
+    logger.info('Partitions revoked', { partitions: revoked });
+    this.enqueue('onPartitionsRevoked', revoked);
+  }
+
+  private enqueue(hook: keyof RebalanceHooks, partitions: TopicPartitions[]): void {
+    const callback = this.hooks[hook];
+    if (!callback) {
+      return;
+    }
+
+    this.hookQueue = this.hookQueue
+      .then(() => callback(partitions))
+      .catch(error => {
+        logger.error('Rebalance hook failed', {
+          hook,
+          partitions,
+          error: error instanceof Error ? error.message : error
+        });
+      });
+  }
+}
@@ -0,0 +1,177 @@
+import { RecordAccumulator, estimateRecordSize } from './recordAccumulator';
+
+jest.mock('./logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('RecordAccumulator', () => {
+  const record = (value: string, partition?: number) => ({ value: Buffer.from(value), partition });
+
+  let sendBatch: jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    sendBatch = jest.fn((_topic: string, messages: unknown[]) =>
+      Promise.resolve(messages.map((_, index) => index))
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should reject invalid options', () => {
+    expect(() => new RecordAccumulator(sendBatch, { maxBatchSize: 0 })).toThrow(
+      'maxBatchSize must be a positive integer'
+    );
+    expect(() => new RecordAccumulator(sendBatch, { lingerMs: -1 })).toThrow(
+      'lingerMs must be non-negative'
+    );
+    expect(() => new RecordAccumulator(sendBatch, { bufferMemory: 0 })).toThrow(
+      'bufferMemory must be positive'
+    );
+  });
+
+  test('should estimate record size from key, value and headers', () => {
+    expect(
+      estimateRecordSize({ key: 'ab', value: Buffer.from('cde'), headers: { h: Buffer.from('v') } })
+    ).toBe(7);
+    expect(estimateRecordSize({ value: null })).toBe(0);
+  });
+
+  test('should send a batch per topic-partition after lingerMs', async () => {
+    const accumulator = new RecordAccumulator(sendBatch, { lingerMs: 20 });
+
+    const appends = [
+      accumulator.append('orders', record('a', 0)),
+      accumulator.append('orders', record('b', 0)),
+      accumulator.append('orders', record('c', 1))
+    ];
+    await jest.advanceTimersByTimeAsync(19);
+    expect(sendBatch).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    await Promise.all(appends);
+
+    expect(sendBatch).toHaveBeenCalledTimes(2);
+    expect(sendBatch).toHaveBeenCalledWith('orders', [record('a', 0), record('b', 0)]);
+    expect(sendBatch).toHaveBeenCalledWith('orders', [record('c', 1)]);
+    expect(accumulator.getMetrics()).toEqual(
+      expect.objectContaining({ bufferedRecords: 0, bufferedBytes: 0, flushedBatches: 2 })
+    );
+  });
+
+  test('should send immediately when maxBatchSize is reached', async () => {
+    const accumulator = new RecordAccumulator(sendBatch, { maxBatchSize: 2, lingerMs: 10000 });
+
+    await Promise.all([
+      accumulator.append('orders', record('a')),
+      accumulator.append('orders', record('b'))
+    ]);
+
+    expect(sendBatch).toHaveBeenCalledWith('orders', [record('a'), record('b')]);
+  });
+
+  test('should resolve each append with its result from the batch', async () => {
+    const accumulator = new RecordAccumulator<number>(sendBatch, { lingerMs: 10000 });
+
+    const appends = [
+      accumulator.append('orders', record('a')),
+      accumulator.append('orders', record('b'))
+    ];
+    await accumulator.flush();
+
+    await expect(Promise.all(appends)).resolves.toEqual([0, 1]);
+  });
+
+  test('should reject every record in a failed batch', async () => {
+    sendBatch.mockRejectedValue(new Error('broker down'));
+    const accumulator = new RecordAccumulator(sendBatch, { lingerMs: 10000 });
+
+    const first = accumulator.append('orders', record('a'));
+    const second = accumulator.append('orders', record('b'));
+    const flushed = accumulator.flush();
+
+    await expect(first).rejects.toThrow('broker down');
+    await expect(second).rejects.toThrow('broker down');
+    await flushed;
+    expect(accumulator.getMetrics()).toEqual(
+      expect.objectContaining({ failedBatches: 1, bufferedBytes: 0 })
+    );
+  });
+
+  test('should flush pending batches on demand', async () => {
+    const accumulator = new RecordAccumulator(sendBatch, { lingerMs: 10000 });
+
+    const pending = accumulator.append('orders', record('a'));
+    await Promise.resolve();
+    await accumulator.flush();
+    await pending;
+
+    expect(sendBatch).toHaveBeenCalledTimes(1);
+    expect(accumulator.getMetrics().inFlightBatches).toBe(0);
+  });
+
+  test('should reject appends when buffer memory is full and policy is reject', async () => {
+    const accumulator = new RecordAccumulator(sendBatch, {
+      lingerMs: 10000,
+      bufferMemory: 4,
+      onBufferFull: 'reject'
+    });
+
+    const first = accumulator.append('orders', record('abc'));
+    await expect(accumulator.append('orders', record('de'))).rejects.toThrow(
+      'Producer buffer memory exhausted'
+    );
+    await expect(accumulator.append('orders', record('abcde'))).rejects.toThrow(
+      'Record size 5 exceeds bufferMemory 4'
+    );
+
+    await accumulator.flush();
+    await first;
+    expect(accumulator.getMetrics().rejectedAppends).toBe(1);
+  });
+
+  test('should block appends until buffer memory is released', async () => {
+    const accumulator = new RecordAccumulator(sendBatch, { lingerMs: 100, bufferMemory: 4 });
+
+    const first = accumulator.append('orders', record('abc'));
+    const second = accumulator.append('orders', record('de'));
+    await Promise.resolve();
+    expect(accumulator.getMetrics()).toEqual(
+      expect.objectContaining({ bufferedRecords: 1, blockedAppends: 1 })
+    );
+
+    await jest.advanceTimersByTimeAsync(100);
+    await first;
+    await jest.advanceTimersByTimeAsync(100);
+    await second;
+
+    expect(sendBatch).toHaveBeenCalledTimes(2);
+    expect(sendBatch).toHaveBeenLastCalledWith('orders', [record('de')]);
+  });
+
+  test('should time out blocked appends after maxBlockMs', async () => {
+    const accumulator = new RecordAccumulator(sendBatch, {
+      lingerMs: 10000,
+      bufferMemory: 4,
+      maxBlockMs: 50
+    });
+
+    const first = accumulator.append('orders', record('abc'));
+    const blocked = accumulator.append('orders', record('de'));
+    const assertion = expect(blocked).rejects.toThrow(
+      'Timed out after 50ms waiting for producer buffer memory'
+    );
+
+    await jest.advanceTimersByTimeAsync(50);
+    await assertion;
+
+    await accumulator.flush();
+    await first;
+  });
+});
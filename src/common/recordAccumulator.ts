@@ -0,0 +1,246 @@
+import { Message } from 'kafkajs';
+import { logger } from './logger';
+
+export type BufferFullPolicy = 'block' | 'reject';
+
+export interface RecordAccumulatorOptions {
+  maxBatchSize?: number;
+  lingerMs?: number;
+  bufferMemory?: number;
+  onBufferFull?: BufferFullPolicy;
+  maxBlockMs?: number;
+}
+
+export type BatchSender<T> = (topic: string, messages: Message[]) => Promise<T[]>;
+
+export interface RecordAccumulatorMetrics {
+  bufferedRecords: number;
+  bufferedBytes: number;
+  bufferMemory: number;
+  inFlightBatches: number;
+  flushedBatches: number;
+  failedBatches: number;
+  blockedAppends: number;
+  rejectedAppends: number;
+}
+
+interface PendingRecord<T> {
+  message: Message;
+  size: number;
+  resolve: (result: T) => void;
+  reject: (error: unknown) => void;
+}
+
+interface ProducerBatch<T> {
+  topic: string;
+  records: PendingRecord<T>[];
+  timer?: NodeJS.Timeout;
+}
+
+export function estimateRecordSize(message: Message): number {
+  const sizeOf = (value: unknown): number =>
+    value === null || value === undefined
+      ? 0
+      : Buffer.isBuffer(value)
+        ? value.length
+        : Buffer.byteLength(String(value));
+
+  let size = sizeOf(message.key) + sizeOf(message.value);
+  Object.entries(message.headers || {}).forEach(([key, value]) => {
+    size += Buffer.byteLength(key) + sizeOf(value);
+  });
+  return size;
+}
+
+export class RecordAccumulator<T> {
+  private batches: Map<string, ProducerBatch<T>> = new Map();
+  private inFlight: Set<Promise<void>> = new Set();
+  private memoryWaiters: Array<() => void> = [];
+  private maxBatchSize: number;
+  private lingerMs: number;
+  private readonly bufferMemory: number;
+  private readonly onBufferFull: BufferFullPolicy;
+  private readonly maxBlockMs: number;
+  private bufferedRecords = 0;
+  private bufferedBytes = 0;
+  private flushedBatches = 0;
+  private failedBatches = 0;
+  private blockedAppends = 0;
+  private rejectedAppends = 0;
+
+  constructor(
+    private sendBatch: BatchSender<T>,
+    options: RecordAccumulatorOptions = {}
+  ) {
+    this.maxBatchSize = options.maxBatchSize ?? 16384;
+    this.lingerMs = options.lingerMs ?? 100;
+    this.bufferMemory = options.bufferMemory ?? 32 * 1024 * 1024;
+    this.onBufferFull = options.onBufferFull ?? 'block';
+    this.maxBlockMs = options.maxBlockMs ?? 60000;
+    this.validate();
+  }
+
+  append(topic: string, message: Message): Promise<T> {
+    const size = estimateRecordSize(message);
+    if (size > this.bufferMemory) {
+      return Promise.reject(
+        new Error(`Record size ${size} exceeds bufferMemory ${this.bufferMemory}`)
+      );
+    }
+
+    if (this.memoryWaiters.length === 0 && this.bufferedBytes + size <= this.bufferMemory) {
+      this.bufferedBytes += size;
+      return this.enqueue(topic, message, size);
+    }
+
+    return this.reserve(size).then(() => this.enqueue(topic, message, size));
+  }
+
+  async flush(): Promise<void> {
+    while (this.batches.size > 0 || this.inFlight.size > 0) {
+      Array.from(this.batches.keys()).forEach(key => this.drain(key));
+      await Promise.all(Array.from(this.inFlight));
+    }
+  }
+
+  configure(options: Pick<RecordAccumulatorOptions, 'maxBatchSize' | 'lingerMs'>): void {
+    this.maxBatchSize = options.maxBatchSize ?? this.maxBatchSize;
+    this.lingerMs = options.lingerMs ?? this.lingerMs;
+    this.validate();
+  }
+
+  getMetrics(): RecordAccumulatorMetrics {
+    return {
+      bufferedRecords: this.bufferedRecords,
+      bufferedBytes: this.bufferedBytes,
+      bufferMemory: this.bufferMemory,
+      inFlightBatches: this.inFlight.size,
+      flushedBatches: this.flushedBatches,
+      failedBatches: this.failedBatches,
+      blockedAppends: this.blockedAppends,
+      rejectedAppends: this.rejectedAppends
+    };
+  }
+
+  private validate(): void {
+    if (!Number.isInteger(this.maxBatchSize) || this.maxBatchSize < 1) {
+      throw new Error('maxBatchSize must be a positive integer');
+    }
+    if (this.lingerMs < 0) {
+      throw new Error('lingerMs must be non-negative');
+    }
+    if (this.bufferMemory <= 0) {
+      throw new Error('bufferMemory must be positive');
+    }
+  }
+
+  private enqueue(topic: string, message: Message, size: number): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const key = `${topic}:${message.partition ?? '*'}`;
+      const batch = this.batches.get(key) || { topic, records: [] };
+      this.batches.set(key, batch);
+      batch.records.push({ message, size, resolve, reject });
+      this.bufferedRecords++;
+
+      if (batch.records.length >= this.maxBatchSize) {
+        this.drain(key);
+      } else if (!batch.timer) {
+        batch.timer = setTimeout(() => this.drain(key), this.lingerMs);
+      }
+    });
+  }
+
+  private async reserve(size: number): Promise<void> {
+    const deadline = Date.now() + this.maxBlockMs;
+    let blocked = false;
+
+    while (this.bufferedBytes + size > this.bufferMemory) {
+      if (this.onBufferFull === 'reject') {
+        this.rejectedAppends++;
+        throw new Error('Producer buffer memory exhausted');
+      }
+
+      if (!blocked) {
+        blocked = true;
+        this.blockedAppends++;
+      }
+
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        throw new Error(`Timed out after ${this.maxBlockMs}ms waiting for producer buffer memory`);
+      }
+      await this.waitForMemory(remainingMs);
+    }
+
+    this.bufferedBytes += size;
+  }
+
+  private waitForMemory(timeoutMs: number): Promise<void> {
+    return new Promise(resolve => {
+      const waiter = (): void => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        this.memoryWaiters = this.memoryWaiters.filter(candidate => candidate !== waiter);
+        resolve();
+      }, timeoutMs);
+      this.memoryWaiters.push(waiter);
+    });
+  }
+
+  private drain(key: string): void {
+    const batch = this.batches.get(key);
+    if (!batch) {
+      return;
+    }
+
+    this.batches.delete(key);
+    if (batch.timer) {
+      clearTimeout(batch.timer);
+    }
+
+    const { topic, records } = batch;
+    const sending: Promise<void> = this.sendBatch(
+      topic,
+      records.map(record => record.message)
+    )
+      .then(
+        results => {
+          this.flushedBatches++;
+          records.forEach((record, index) => record.resolve(results[index]));
+        },
+        error => {
+          this.failedBatches++;
+          logger.error('Failed to send buffered batch', {
+            topic,
+            messageCount: records.length,
+            error: error instanceof Error ? error.message : error
+          });
+          records.forEach(record => record.reject(error));
+        }
+      )
+      .finally(() => {
+        this.inFlight.delete(sending);
+        this.release(records);
+      });
+
+    this.inFlight.add(sending);
+  }
+
+  private release(records: PendingRecord<T>[]): void {
+    this.bufferedRecords -= records.length;
+    this.bufferedBytes -= records.reduce((total, record) => total + record.size, 0);
+
+    const waiters = this.memoryWaiters;
+    this.memoryWaiters = [];
+    waiters.forEach(waiter => waiter());
+  }
+}
+
+export const createRecordAccumulator = <T>(
+  sendBatch: BatchSender<T>,
+  options?: RecordAccumulatorOptions
+): RecordAccumulator<T> => {
+  return new RecordAccumulator(sendBatch, options);
+};
@@ -0,0 +1,190 @@
+import {
+  RetryTopicPublisher,
+  RETRY_HEADERS,
+  DEFAULT_RETRY_DELAYS_MS,
+  createRetryTopicPublisher,
+  formatRetryDelay,
+  getOriginalCoordinates,
+  getRetryAttempt,
+  getRetryNotBefore
+} from './retryTopics';
+import { DLQ_HEADERS } from './deadLetterPublisher';
+
+const mockProducer = {
+  send: jest.fn(),
+  disconnect: jest.fn()
+};
+
+jest.mock('./kafkaClient', () => ({
+  createProducer: jest.fn(() => Promise.resolve(mockProducer))
+}));
+
+jest.mock('./logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('RetryTopics', () => {
+  const record = {
+    topic: 'orders',
+    partition: 1,
+    offset: '42',
+    key: Buffer.from('order-1'),
+    value: Buffer.from('{"id":"evt-1"}'),
+    headers: { 'x-msg-messageType': Buffer.from('OrderCreatedEvent') }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockProducer.send.mockResolvedValue([]);
+    mockProducer.disconnect.mockResolvedValue(undefined);
+  });
+
+  describe('Helpers', () => {
+    test('should format tier delays', () => {
+      expect(formatRetryDelay(5000)).toBe('5s');
+      expect(formatRetryDelay(60000)).toBe('1m');
+      expect(formatRetryDelay(600000)).toBe('10m');
+      expect(formatRetryDelay(7200000)).toBe('2h');
+      expect(formatRetryDelay(1500)).toBe('1500ms');
+    });
+
+    test('should read attempt counter from headers', () => {
+      expect(getRetryAttempt(undefined)).toBe(0);
+      expect(getRetryAttempt({ [RETRY_HEADERS.attempt]: Buffer.from('2') })).toBe(2);
+      expect(getRetryAttempt({ [RETRY_HEADERS.attempt]: Buffer.from('abc') })).toBe(0);
+    });
+
+    test('should read not-before timestamp from message', () => {
+      const message = {
+        headers: { [RETRY_HEADERS.notBefore]: Buffer.from('1700000000000') }
+      } as any;
+
+      expect(getRetryNotBefore(message)).toBe(1700000000000);
+      expect(getRetryNotBefore({ headers: {} } as any)).toBeUndefined();
+    });
+
+    test('should resolve original coordinates for retried records', () => {
+      expect(getOriginalCoordinates(record)).toEqual({
+        topic: 'orders',
+        partition: 1,
+        offset: '42'
+      });
+
+      expect(
+        getOriginalCoordinates({
+          topic: 'orders.retry.5s',
+          partition: 0,
+          offset: '3',
+          headers: {
+            [RETRY_HEADERS.originalTopic]: Buffer.from('orders'),
+            [RETRY_HEADERS.originalPartition]: Buffer.from('1'),
+            [RETRY_HEADERS.originalOffset]: Buffer.from('42')
+          }
+        })
+      ).toEqual({ topic: 'orders', partition: 1, offset: '42' });
+    });
+  });
+
+  describe('RetryTopicPublisher', () => {
+    let publisher: RetryTopicPublisher;
+
+    beforeEach(() => {
+      publisher = new RetryTopicPublisher();
+    });
+
+    test('should use default tiers', () => {
+      expect(publisher.getTierTopics('orders')).toEqual([
+        'orders.retry.5s',
+        'orders.retry.1m',
+        'orders.retry.10m'
+      ]);
+      expect(publisher.getMaxAttempts()).toBe(DEFAULT_RETRY_DELAYS_MS.length);
+    });
+
+    test('should reject invalid configuration', () => {
+      expect(() => new RetryTopicPublisher({ delaysMs: [0] })).toThrow(
+        'Retry delays must be positive'
+      );
+      expect(() => createRetryTopicPublisher({ maxAttempts: 0 })).toThrow(
+        'maxAttempts must be at least 1'
+      );
+    });
+
+    test('should pick tier by attempt', () => {
+      expect(publisher.decide('orders')).toEqual({
+        attempt: 1,
+        exhausted: false,
+        topic: 'orders.retry.5s',
+        delayMs: 5000
+      });
+      expect(publisher.decide('orders', { [RETRY_HEADERS.attempt]: Buffer.from('2') })).toEqual(
+        expect.objectContaining({ attempt: 3, topic: 'orders.retry.10m' })
+      );
+    });
+
+    test('should reuse last tier when max attempts exceed tier count', () => {
+      publisher = new RetryTopicPublisher({ delaysMs: [1000, 2000], maxAttempts: 4 });
+
+      expect(publisher.decide('orders', { [RETRY_HEADERS.attempt]: Buffer.from('3') })).toEqual(
+        expect.objectContaining({ attempt: 4, topic: 'orders.retry.2s' })
+      );
+    });
+
+    test('should report exhaustion after max attempts', () => {
+      expect(publisher.decide('orders', { [RETRY_HEADERS.attempt]: Buffer.from('3') })).toEqual({
+        attempt: 4,
+        exhausted: true
+      });
+    });
+
+    test('should publish with attempt, not-before and original coordinates', async () => {
+      const now = Date.now();
+      const decision = publisher.decide('orders');
+
+      await publisher.publish(record, decision, new Error('Downstream timeout'));
+
+      expect(mockProducer.send).toHaveBeenCalledTimes(1);
+      const [{ topic, messages }] = mockProducer.send.mock.calls[0];
+      const headers = messages[0].headers;
+      expect(topic).toBe('orders.retry.5s');
+      expect(messages[0].key).toBe(record.key);
+      expect(messages[0].value).toBe(record.value);
+      expect(headers['x-msg-messageType']).toEqual(Buffer.from('OrderCreatedEvent'));
+      expect(headers[RETRY_HEADERS.attempt]).toEqual(Buffer.from('1'));
+      expect(Number(headers[RETRY_HEADERS.notBefore].toString())).toBeGreaterThanOrEqual(
+        now + 5000
+      );
+      expect(headers[RETRY_HEADERS.originalTopic]).toEqual(Buffer.from('orders'));
+      expect(headers[RETRY_HEADERS.originalPartition]).toEqual(Buffer.from('1'));
+      expect(headers[RETRY_HEADERS.originalOffset]).toEqual(Buffer.from('42'));
+      expect(headers[RETRY_HEADERS.exceptionMessage]).toEqual(Buffer.from('Downstream timeout'));
+      expect(headers[DLQ_HEADERS.firstFailureTimestamp]).toEqual(expect.any(Buffer));
+    });
+
+    test('should refuse to publish exhausted decisions', async () => {
+      await expect(publisher.publish(record, { attempt: 4, exhausted: true })).rejects.toThrow(
+        'Retry attempts exhausted after 3 attempts'
+      );
+      expect(mockProducer.send).not.toHaveBeenCalled();
+    });
+
+    test('should propagate publish failures', async () => {
+      mockProducer.send.mockRejectedValue(new Error('Broker unavailable'));
+
+      await expect(publisher.publish(record, publisher.decide('orders'))).rejects.toThrow(
+        'Broker unavailable'
+      );
+    });
+
+    test('should disconnect producer', async () => {
+      await publisher.connect();
+      await publisher.disconnect();
+
+      expect(mockProducer.disconnect).toHaveBeenCalledTimes(1);
+    });
+  });
+});
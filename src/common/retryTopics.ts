@@ -0,0 +1,250 @@
+import { IHeaders, KafkaMessage, Producer } from 'kafkajs';
+import { createProducer } from './kafkaClient';
+import { logger } from './logger';
+import { headerValueToString } from './messageHandler';
+import { DLQ_HEADERS } from './deadLetterPublisher';
+
+export const RETRY_HEADERS = {
+  attempt: 'x-retry-attempt',
+  notBefore: 'x-retry-not-before',
+  originalTopic: 'x-retry-original-topic',
+  originalPartition: 'x-retry-original-partition',
+  originalOffset: 'x-retry-original-offset',
+  exceptionMessage: 'x-retry-exception-message'
+} as const;
+
+export const DEFAULT_RETRY_DELAYS_MS = [5000, 60000, 600000];
+
+export interface RetryTopicOptions {
+  enabled?: boolean;
+  delaysMs?: number[];
+  maxAttempts?: number;
+  groupIdSuffix?: string;
+}
+
+export interface RetryRecord {
+  topic: string;
+  partition: number;
+  offset: string;
+  key?: Buffer | string | null;
+  value: Buffer | string | null;
+  headers?: IHeaders;
+}
+
+export interface OriginalCoordinates {
+  topic: string;
+  partition: number;
+  offset: string;
+}
+
+export interface RetryDecision {
+  attempt: number;
+  exhausted: boolean;
+  topic?: string;
+  delayMs?: number;
+}
+
+export function formatRetryDelay(delayMs: number): string {
+  const units: Array<[number, string]> = [
+    [3600000, 'h'],
+    [60000, 'm'],
+    [1000, 's']
+  ];
+
+  for (const [size, unit] of units) {
+    if (delayMs >= size && delayMs % size === 0) {
+      return `${delayMs / size}${unit}`;
+    }
+  }
+
+  return `${delayMs}ms`;
+}
+
+export function getRetryAttempt(headers?: IHeaders): number {
+  const attempt = parseInt(headerValueToString(headers?.[RETRY_HEADERS.attempt]) || '0', 10);
+  return isNaN(attempt) ? 0 : attempt;
+}
+
+export function getRetryNotBefore(message: KafkaMessage): number | undefined {
+  const notBefore = headerValueToString(message.headers?.[RETRY_HEADERS.notBefore]);
+  if (!notBefore) {
+    return undefined;
+  }
+  const parsed = parseInt(notBefore, 10);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+export function getOriginalCoordinates(record: {
+  topic: string;
+  partition: number;
+  offset: string;
+  headers?: IHeaders;
+}): OriginalCoordinates {
+  const topic = headerValueToString(record.headers?.[RETRY_HEADERS.originalTopic]);
+  if (!topic) {
+    return { topic: record.topic, partition: record.partition, offset: record.offset };
+  }
+
+  return {
+    topic,
+    partition: parseInt(
+      headerValueToString(record.headers?.[RETRY_HEADERS.originalPartition]) ||
+        record.partition.toString(),
+      10
+    ),
+    offset: headerValueToString(record.headers?.[RETRY_HEADERS.originalOffset]) || record.offset
+  };
+}
+
+export class RetryTopicPublisher {
+  private producer?: Producer;
+  private connecting?: Promise<Producer>;
+  private readonly delaysMs: number[];
+  private readonly maxAttempts: number;
+
+  constructor(options: RetryTopicOptions = {}) {
+    this.delaysMs = options.delaysMs?.length ? [...options.delaysMs] : DEFAULT_RETRY_DELAYS_MS;
+    this.maxAttempts = options.maxAttempts ?? this.delaysMs.length;
+
+    if (this.delaysMs.some(delay => delay <= 0)) {
+      throw new Error('Retry delays must be positive');
+    }
+    if (this.maxAttempts < 1) {
+      throw new Error('maxAttempts must be at least 1');
+    }
+  }
+
+  async connect(): Promise<void> {
+    if (this.producer) {
+      return;
+    }
+
+    if (!this.connecting) {
+      this.connecting = createProducer();
+    }
+
+    try {
+      this.producer = await this.connecting;
+      logger.info('Retry topic publisher connected', {
+        delaysMs: this.delaysMs,
+        maxAttempts: this.maxAttempts
+      });
+    } finally {
+      this.connecting = undefined;
+    }
+  }
+
+  getTierTopics(sourceTopic: string): string[] {
+    return this.delaysMs.map(delay => this.getTierTopic(sourceTopic, delay));
+  }
+
+  getMaxAttempts(): number {
+    return this.maxAttempts;
+  }
+
+  decide(sourceTopic: string, headers?: IHeaders): RetryDecision {
+    const attempt = getRetryAttempt(headers) + 1;
+    if (attempt > this.maxAttempts) {
+      return { attempt, exhausted: true };
+    }
+
+    const delayMs = this.delaysMs[Math.min(attempt, this.delaysMs.length) - 1];
+    return {
+      attempt,
+      exhausted: false,
+      topic: this.getTierTopic(sourceTopic, delayMs),
+      delayMs
+    };
+  }
+
+  buildHeaders(
+    record: RetryRecord,
+    decision: RetryDecision,
+    original: OriginalCoordinates,
+    error?: unknown
+  ): IHeaders {
+    const headers: IHeaders = { ...record.headers };
+    const firstFailure =
+      headerValueToString(record.headers?.[DLQ_HEADERS.firstFailureTimestamp]) ||
+      Date.now().toString();
+
+    headers[RETRY_HEADERS.attempt] = Buffer.from(decision.attempt.toString());
+    headers[RETRY_HEADERS.notBefore] = Buffer.from((Date.now() + decision.delayMs!).toString());
+    headers[RETRY_HEADERS.originalTopic] = Buffer.from(original.topic);
+    headers[RETRY_HEADERS.originalPartition] = Buffer.from(original.partition.toString());
+    headers[RETRY_HEADERS.originalOffset] = Buffer.from(original.offset);
+    headers[DLQ_HEADERS.firstFailureTimestamp] = Buffer.from(firstFailure);
+
+    if (error !== undefined) {
+      headers[RETRY_HEADERS.exceptionMessage] = Buffer.from(
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+
+    return headers;
+  }
+
+  async publish(
+    record: RetryRecord,
+    decision: RetryDecision,
+    error?: unknown
+  ): Promise<RetryDecision> {
+    if (decision.exhausted || !decision.topic) {
+      throw new Error(`Retry attempts exhausted after ${this.maxAttempts} attempts`);
+    }
+
+    await this.connect();
+
+    const original = getOriginalCoordinates(record);
+
+    try {
+      await this.producer!.send({
+        topic: decision.topic,
+        messages: [
+          {
+            key: record.key ?? null,
+            value: record.value,
+            headers: this.buildHeaders(record, decision, original, error)
+          }
+        ]
+      });
+
+      logger.info('Message scheduled for retry', {
+        retryTopic: decision.topic,
+        attempt: decision.attempt,
+        delayMs: decision.delayMs,
+        originalTopic: original.topic,
+        partition: record.partition,
+        offset: record.offset
+      });
+
+      return decision;
+    } catch (publishError) {
+      logger.error('Failed to publish message to retry topic', {
+        retryTopic: decision.topic,
+        attempt: decision.attempt,
+        topic: record.topic,
+        partition: record.partition,
+        offset: record.offset,
+        error: publishError instanceof Error ? publishError.message : publishError
+      });
+      throw publishError;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.producer) {
+      await this.producer.disconnect();
+      this.producer = undefined;
+      logger.info('Retry topic publisher disconnected');
+    }
+  }
+
+  private getTierTopic(sourceTopic: string, delayMs: number): string {
+    return `${sourceTopic}.retry.${formatRetryDelay(delayMs)}`;
+  }
+}
+
+export const createRetryTopicPublisher = (options?: RetryTopicOptions): RetryTopicPublisher => {
+  return new RetryTopicPublisher(options);
+};
@@ -0,0 +1,69 @@
+import { registerShutdownSignals } from './shutdownSignals';
+
+jest.mock('./logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('registerShutdownSignals', () => {
+  const signal = 'SIGUSR2';
+  let dispose: (() => void) | undefined;
+
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+
+  afterEach(() => {
+    dispose?.();
+    dispose = undefined;
+  });
+
+  test('should stop target and exit with 0 on signal', async () => {
+    const target = { stop: jest.fn().mockResolvedValue(undefined) };
+    const exit = jest.fn();
+    dispose = registerShutdownSignals(target, { signals: [signal], drainTimeoutMs: 500, exit });
+
+    process.emit(signal, signal);
+    await flush();
+
+    expect(target.stop).toHaveBeenCalledWith({ drainTimeoutMs: 500 });
+    expect(exit).toHaveBeenCalledWith(0);
+  });
+
+  test('should exit with 1 when stop fails', async () => {
+    const target = { stop: jest.fn().mockRejectedValue(new Error('stop failed')) };
+    const exit = jest.fn();
+    dispose = registerShutdownSignals(target, { signals: [signal], exit });
+
+    process.emit(signal, signal);
+    await flush();
+
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+
+  test('should force exit on repeated signal', async () => {
+    const target = { stop: jest.fn(() => new Promise<void>(() => undefined)) };
+    const exit = jest.fn();
+    dispose = registerShutdownSignals(target, { signals: [signal], exit });
+
+    process.emit(signal, signal);
+    process.emit(signal, signal);
+    await flush();
+
+    expect(target.stop).toHaveBeenCalledTimes(1);
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+
+  test('should remove listeners when disposed', () => {
+    const before = process.listenerCount(signal);
+    const target = { stop: jest.fn() };
+
+    const remove = registerShutdownSignals(target, { signals: [signal], exit: jest.fn() });
+    expect(process.listenerCount(signal)).toBe(before + 1);
+
+    remove();
+    expect(process.listenerCount(signal)).toBe(before);
+    expect(target.stop).not.toHaveBeenCalled();
+  });
+});
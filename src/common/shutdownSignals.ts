@@ -0,0 +1,48 @@
+import { logger } from './logger';
+
+export interface Stoppable {
+  stop(options?: { drainTimeoutMs?: number }): Promise<void>;
+}
+
+export interface ShutdownSignalOptions {
+  signals?: NodeJS.Signals[];
+  drainTimeoutMs?: number;
+  exit?: (code: number) => void;
+}
+
+export function registerShutdownSignals(
+  target: Stoppable,
+  options: ShutdownSignalOptions = {}
+): () => void {
+  const signals = options.signals ?? ['SIGINT', 'SIGTERM'];
+  const exit = options.exit ?? ((code: number) => process.exit(code));
+  let shuttingDown = false;
+
+  const onSignal = async (signal: NodeJS.Signals): Promise<void> => {
+    if (shuttingDown) {
+      logger.info('Shutdown already in progress, forcing exit...', { signal });
+      exit(1);
+      return;
+    }
+
+    shuttingDown = true;
+    logger.info('Shutdown signal received, stopping gracefully...', { signal });
+
+    try {
+      await target.stop({ drainTimeoutMs: options.drainTimeoutMs });
+      exit(0);
+    } catch (error) {
+      logger.error('Graceful shutdown failed', {
+        signal,
+        error: error instanceof Error ? error.message : error
+      });
+      exit(1);
+    }
+  };
+
+  signals.forEach(signal => process.on(signal, onSignal));
+
+  return () => {
+    signals.forEach(signal => process.off(signal, onSignal));
+  };
+}
@@ -0,0 +1,138 @@
+import { TopicMetadataCache, isStaleMetadataError } from './topicMetadataCache';
+
+const mockAdmin = {
+  fetchTopicMetadata: jest.fn(),
+  disconnect: jest.fn()
+};
+
+jest.mock('./kafkaClient', () => ({
+  createAdmin: jest.fn(() => Promise.resolve(mockAdmin))
+}));
+
+jest.mock('./logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const { createAdmin } = require('./kafkaClient');
+
+describe('TopicMetadataCache', () => {
+  let cache: TopicMetadataCache;
+
+  const metadata = (partitions: number) => ({
+    topics: [{ name: 'orders', partitions: Array.from({ length: partitions }, () => ({})) }]
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    mockAdmin.fetchTopicMetadata.mockResolvedValue(metadata(3));
+    mockAdmin.disconnect.mockResolvedValue(undefined);
+    cache = new TopicMetadataCache({ ttlMs: 1000, refreshIntervalMs: 500 });
+  });
+
+  afterEach(async () => {
+    await cache.close();
+    jest.useRealTimers();
+  });
+
+  test('should reject invalid options', () => {
+    expect(() => new TopicMetadataCache({ ttlMs: 0 })).toThrow('ttlMs must be positive');
+    expect(() => new TopicMetadataCache({ refreshIntervalMs: -1 })).toThrow(
+      'refreshIntervalMs must be non-negative'
+    );
+  });
+
+  test('should fetch once and serve cached partition counts within the TTL', async () => {
+    await expect(cache.getPartitionCount('orders')).resolves.toBe(3);
+    await expect(cache.getPartitionCount('orders')).resolves.toBe(3);
+
+    expect(createAdmin).toHaveBeenCalledTimes(1);
+    expect(mockAdmin.fetchTopicMetadata).toHaveBeenCalledTimes(1);
+    expect(cache.getMetrics()).toEqual(expect.objectContaining({ hits: 1, misses: 1, topics: 1 }));
+  });
+
+  test('should deduplicate concurrent fetches for the same topic', async () => {
+    await Promise.all([cache.getPartitionCount('orders'), cache.getPartitionCount('orders')]);
+
+    expect(mockAdmin.fetchTopicMetadata).toHaveBeenCalledTimes(1);
+  });
+
+  test('should refetch after the TTL expires', async () => {
+    await cache.getPartitionCount('orders');
+    jest.setSystemTime(Date.now() + 1000);
+    mockAdmin.fetchTopicMetadata.mockResolvedValue(metadata(6));
+
+    await expect(cache.getPartitionCount('orders')).resolves.toBe(6);
+  });
+
+  test('should refresh cached topics in the background', async () => {
+    await cache.getPartitionCount('orders');
+    mockAdmin.fetchTopicMetadata.mockResolvedValue(metadata(4));
+
+    await jest.advanceTimersByTimeAsync(500);
+
+    await expect(cache.getPartitionCount('orders')).resolves.toBe(4);
+    expect(cache.getMetrics().refreshes).toBe(2);
+  });
+
+  test('should fail explicitly when metadata is unknown', async () => {
+    mockAdmin.fetchTopicMetadata.mockRejectedValue(new Error('broker unreachable'));
+
+    await expect(cache.getPartitionCount('orders')).rejects.toThrow(
+      'Partition metadata unavailable for topic orders: broker unreachable'
+    );
+
+    mockAdmin.fetchTopicMetadata.mockResolvedValue({ topics: [] });
+    await expect(cache.getPartitionCount('orders')).rejects.toThrow(
+      'Topic orders has no partition metadata'
+    );
+  });
+
+  test('should fall back to the stale count when a refetch fails', async () => {
+    await cache.getPartitionCount('orders');
+    jest.setSystemTime(Date.now() + 1000);
+    mockAdmin.fetchTopicMetadata.mockRejectedValue(new Error('broker unreachable'));
+
+    await expect(cache.getPartitionCount('orders')).resolves.toBe(3);
+  });
+
+  test('should invalidate cached topics', async () => {
+    await cache.getPartitionCount('orders');
+
+    cache.invalidate('orders');
+    mockAdmin.fetchTopicMetadata.mockResolvedValue(metadata(5));
+
+    await expect(cache.getPartitionCount('orders')).resolves.toBe(5);
+    expect(cache.getMetrics().invalidations).toBe(1);
+  });
+
+  test('should prefetch topics and log failures without throwing', async () => {
+    mockAdmin.fetchTopicMetadata
+      .mockResolvedValueOnce(metadata(3))
+      .mockRejectedValueOnce(new Error('unknown topic'));
+
+    await expect(cache.prefetch(['orders', 'missing'])).resolves.toBeUndefined();
+
+    expect(cache.getMetrics().topics).toBe(1);
+  });
+
+  test('should detect stale metadata errors including wrapped ones', () => {
+    expect(isStaleMetadataError({ type: 'UNKNOWN_TOPIC_OR_PARTITION' })).toBe(true);
+    expect(isStaleMetadataError({ originalError: { type: 'LEADER_NOT_AVAILABLE' } })).toBe(true);
+    expect(isStaleMetadataError(new Error('timeout'))).toBe(false);
+    expect(isStaleMetadataError(undefined)).toBe(false);
+  });
+
+  test('should disconnect the admin client on close', async () => {
+    await cache.getPartitionCount('orders');
+
+    await cache.close();
+
+    expect(mockAdmin.disconnect).toHaveBeenCalled();
+    expect(cache.getMetrics().topics).toBe(0);
+  });
+});
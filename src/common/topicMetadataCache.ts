@@ -0,0 +1,211 @@
+import { Admin } from 'kafkajs';
+import { createAdmin } from './kafkaClient';
+import { logger } from './logger';
+
+const STALE_METADATA_ERRORS = new Set([
+  'UNKNOWN_TOPIC_OR_PARTITION',
+  'LEADER_NOT_AVAILABLE',
+  'NOT_LEADER_FOR_PARTITION',
+  'NOT_LEADER_OR_FOLLOWER'
+]);
+
+export interface TopicMetadataCacheOptions {
+  ttlMs?: number;
+  refreshIntervalMs?: number;
+}
+
+export interface TopicMetadataCacheMetrics {
+  topics: number;
+  hits: number;
+  misses: number;
+  refreshes: number;
+  refreshFailures: number;
+  invalidations: number;
+}
+
+interface CachedTopic {
+  partitionCount: number;
+  fetchedAt: number;
+}
+
+export function isStaleMetadataError(error: unknown): boolean {
+  let current: any = error;
+  for (let depth = 0; current && depth < 5; depth++) {
+    if (STALE_METADATA_ERRORS.has(current.type)) {
+      return true;
+    }
+    current = current.originalError ?? current.cause;
+  }
+  return false;
+}
+
+export class TopicMetadataCache {
+  private entries: Map<string, CachedTopic> = new Map();
+  private fetching: Map<string, Promise<number>> = new Map();
+  private admin?: Admin;
+  private connecting?: Promise<Admin>;
+  private refreshTimer?: NodeJS.Timeout;
+  private readonly ttlMs: number;
+  private readonly refreshIntervalMs: number;
+  private hits = 0;
+  private misses = 0;
+  private refreshes = 0;
+  private refreshFailures = 0;
+  private invalidations = 0;
+
+  constructor(options: TopicMetadataCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? 5 * 60 * 1000;
+    this.refreshIntervalMs = options.refreshIntervalMs ?? 60000;
+
+    if (this.ttlMs <= 0) {
+      throw new Error('ttlMs must be positive');
+    }
+    if (this.refreshIntervalMs < 0) {
+      throw new Error('refreshIntervalMs must be non-negative');
+    }
+  }
+
+  async getPartitionCount(topic: string): Promise<number> {
+    const cached = this.entries.get(topic);
+    if (cached && Date.now() - cached.fetchedAt < this.ttlMs) {
+      this.hits++;
+      return cached.partitionCount;
+    }
+
+    this.misses++;
+    try {
+      return await this.fetch(topic);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      if (cached) {
+        logger.error('Topic metadata refresh failed, using stale partition count', {
+          topic,
+          partitionCount: cached.partitionCount,
+          error: reason
+        });
+        return cached.partitionCount;
+      }
+      throw new Error(`Partition metadata unavailable for topic ${topic}: ${reason}`);
+    }
+  }
+
+  async prefetch(topics: string[]): Promise<void> {
+    const results = await Promise.allSettled(topics.map(topic => this.fetch(topic)));
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        logger.error('Topic metadata prefetch failed', {
+          topic: topics[index],
+          error: result.reason instanceof Error ? result.reason.message : result.reason
+        });
+      }
+    });
+  }
+
+  async refresh(): Promise<void> {
+    await Promise.all(
+      Array.from(this.entries.keys()).map(topic =>
+        this.fetch(topic).catch(error => {
+          this.refreshFailures++;
+          logger.error('Topic metadata refresh failed', {
+            topic,
+            error: error instanceof Error ? error.message : error
+          });
+        })
+      )
+    );
+  }
+
+  invalidate(topic?: string): void {
+    if (topic === undefined) {
+      this.invalidations += this.entries.size;
+      this.entries.clear();
+      return;
+    }
+    if (this.entries.delete(topic)) {
+      this.invalidations++;
+      logger.debug('Topic metadata invalidated', { topic });
+    }
+  }
+
+  getMetrics(): TopicMetadataCacheMetrics {
+    return {
+      topics: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      refreshes: this.refreshes,
+      refreshFailures: this.refreshFailures,
+      invalidations: this.invalidations
+    };
+  }
+
+  async close(): Promise<void> {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+    if (this.admin) {
+      await this.admin.disconnect();
+      this.admin = undefined;
+    }
+    this.entries.clear();
+  }
+
+  private fetch(topic: string): Promise<number> {
+    const existing = this.fetching.get(topic);
+    if (existing) {
+      return existing;
+    }
+
+    const fetching = this.fetchPartitionCount(topic).finally(() => this.fetching.delete(topic));
+    this.fetching.set(topic, fetching);
+    return fetching;
+  }
+
+  private async fetchPartitionCount(topic: string): Promise<number> {
+    const admin = await this.connect();
+    const metadata = await admin.fetchTopicMetadata({ topics: [topic] });
+    const partitionCount = metadata.topics.find(t => t.name === topic)?.partitions.length;
+    if (!partitionCount) {
+      throw new Error(`Topic ${topic} has no partition metadata`);
+    }
+
+    this.entries.set(topic, { partitionCount, fetchedAt: Date.now() });
+    this.refreshes++;
+    this.startRefreshTimer();
+    return partitionCount;
+  }
+
+  private async connect(): Promise<Admin> {
+    if (this.admin) {
+      return this.admin;
+    }
+
+    if (!this.connecting) {
+      this.connecting = createAdmin();
+    }
+
+    try {
+      this.admin = await this.connecting;
+      return this.admin;
+    } finally {
+      this.connecting = undefined;
+    }
+  }
+
+  private startRefreshTimer(): void {
+    if (this.refreshTimer || this.refreshIntervalMs === 0) {
+      return;
+    }
+
+    this.refreshTimer = setInterval(() => {
+      this.refresh().catch(() => undefined);
+    }, this.refreshIntervalMs);
+    this.refreshTimer.unref();
+  }
+}
+
+export const createTopicMetadataCache = (
+  options?: TopicMetadataCacheOptions
+): TopicMetadataCache => {
+  return new TopicMetadataCache(options);
+};
@@ -0,0 +1,142 @@
+import { TopicSubscriptions, matchesTopic } from './topicSubscriptions';
+
+describe('TopicSubscriptions', () => {
+  const mockAdmin = {
+    listTopics: jest.fn(),
+    fetchTopicOffsetsByTimestamp: jest.fn(),
+    fetchOffsets: jest.fn()
+  };
+  const admin = mockAdmin as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAdmin.listTopics.mockResolvedValue([
+      'orders.created',
+      'orders.cancelled',
+      'orders.created.DLQ',
+      'payments',
+      '__consumer_offsets'
+    ]);
+  });
+
+  test('should require at least one subscription', () => {
+    expect(() => new TopicSubscriptions([])).toThrow('At least one topic subscription is required');
+  });
+
+  test('should reject explicit offsets for pattern subscriptions', () => {
+    expect(
+      () =>
+        new TopicSubscriptions([
+          { topic: /^orders\./, startPosition: { offsets: [{ partition: 0, offset: '5' }] } }
+        ])
+    ).toThrow('Explicit start offsets require a single topic subscription');
+  });
+
+  test('should require resolve before reading topics', () => {
+    const subscriptions = new TopicSubscriptions(['orders']);
+
+    expect(() => subscriptions.getTopics()).toThrow('Topic subscriptions are not resolved');
+  });
+
+  test('should resolve topic lists without admin', async () => {
+    const subscriptions = new TopicSubscriptions(['orders', 'payments']);
+
+    expect(subscriptions.requiresAdmin()).toBe(false);
+    await subscriptions.resolve();
+
+    expect(subscriptions.getTopics()).toEqual(['orders', 'payments']);
+    expect(subscriptions.getSubscribeRequests()).toEqual([
+      { topics: ['orders'], fromBeginning: true },
+      { topics: ['payments'], fromBeginning: true }
+    ]);
+  });
+
+  test('should resolve patterns against existing topics excluding internal and derived ones', async () => {
+    const subscriptions = new TopicSubscriptions(
+      [{ topic: /^orders\..*/, startPosition: 'latest' }],
+      topic => topic.endsWith('.DLQ')
+    );
+
+    expect(subscriptions.requiresAdmin()).toBe(true);
+    await expect(subscriptions.resolve()).rejects.toThrow(
+      'Admin client is required to resolve topic patterns'
+    );
+
+    await subscriptions.resolve(admin);
+
+    expect(subscriptions.getSubscribeRequests()).toEqual([
+      { topics: ['orders.cancelled', 'orders.created'], fromBeginning: false }
+    ]);
+  });
+
+  test('should build seek offsets for explicit offsets and timestamps', async () => {
+    mockAdmin.fetchTopicOffsetsByTimestamp.mockResolvedValue([
+      { partition: 0, offset: '17' },
+      { partition: 1, offset: '-1' }
+    ]);
+    const subscriptions = new TopicSubscriptions([
+      { topic: 'orders', startPosition: { offsets: [{ partition: 2, offset: '100' }] } },
+      { topic: 'payments', startPosition: { timestamp: 1700000000000 } }
+    ]);
+    await subscriptions.resolve(admin);
+
+    const seeks = await subscriptions.getStartOffsets(admin);
+
+    expect(mockAdmin.fetchTopicOffsetsByTimestamp).toHaveBeenCalledWith('payments', 1700000000000);
+    expect(seeks).toEqual([
+      { topic: 'orders', partition: 2, offset: '100' },
+      { topic: 'payments', partition: 0, offset: '17' }
+    ]);
+  });
+
+  test('should skip seek offsets for partitions with committed group offsets', async () => {
+    mockAdmin.fetchOffsets.mockResolvedValue([
+      {
+        topic: 'orders',
+        partitions: [
+          { partition: 1, offset: '-1' },
+          { partition: 2, offset: '250' }
+        ]
+      }
+    ]);
+    const subscriptions = new TopicSubscriptions([
+      {
+        topic: 'orders',
+        startPosition: {
+          offsets: [
+            { partition: 1, offset: '10' },
+            { partition: 2, offset: '100' }
+          ]
+        }
+      }
+    ]);
+    await subscriptions.resolve();
+
+    expect(subscriptions.requiresAdmin()).toBe(true);
+    await expect(subscriptions.getStartOffsets(undefined, 'group')).rejects.toThrow(
+      'Admin client is required to check committed offsets'
+    );
+    const seeks = await subscriptions.getStartOffsets(admin, 'group');
+
+    expect(mockAdmin.fetchOffsets).toHaveBeenCalledWith({ groupId: 'group', topics: ['orders'] });
+    expect(seeks).toEqual([{ topic: 'orders', partition: 1, offset: '10' }]);
+  });
+
+  test('should find subscription for a topic', async () => {
+    const pattern = { topic: /^orders\./ };
+    const subscriptions = new TopicSubscriptions(['payments', pattern]);
+
+    expect(subscriptions.findSubscription('orders.created')).toBe(pattern);
+    expect(subscriptions.findSubscription('payments')).toEqual({ topic: 'payments' });
+    expect(subscriptions.findSubscription('inventory')).toBeUndefined();
+  });
+
+  test('should match strings exactly and reuse global patterns safely', () => {
+    const pattern = /^orders/g;
+
+    expect(matchesTopic('orders', 'orders')).toBe(true);
+    expect(matchesTopic('orders', 'orders.created')).toBe(false);
+    expect(matchesTopic(pattern, 'orders.a')).toBe(true);
+    expect(matchesTopic(pattern, 'orders.b')).toBe(true);
+  });
+});
@@ -0,0 +1,167 @@
+import { Admin, TopicPartitionOffset } from 'kafkajs';
+import { MessageHandler } from './messageHandler';
+
+export type StartPosition =
+  | 'earliest'
+  | 'latest'
+  | { timestamp: number }
+  | { offsets: Array<{ partition: number; offset: string }> };
+
+export interface TopicSubscription {
+  topic: string | RegExp;
+  startPosition?: StartPosition;
+  handlers?: MessageHandler[];
+}
+
+export type SubscriptionInput = string | RegExp | TopicSubscription;
+
+export interface SubscribeRequest {
+  topics: string[];
+  fromBeginning: boolean;
+}
+
+export function matchesTopic(pattern: string | RegExp, topic: string): boolean {
+  if (typeof pattern === 'string') {
+    return pattern === topic;
+  }
+  pattern.lastIndex = 0;
+  return pattern.test(topic);
+}
+
+export class TopicSubscriptions {
+  private readonly subscriptions: TopicSubscription[];
+  private resolved: Map<TopicSubscription, string[]> = new Map();
+
+  constructor(
+    inputs: SubscriptionInput[],
+    private isExcludedTopic: (topic: string) => boolean = () => false
+  ) {
+    if (inputs.length === 0) {
+      throw new Error('At least one topic subscription is required');
+    }
+
+    this.subscriptions = inputs.map(input =>
+      typeof input === 'string' || input instanceof RegExp ? { topic: input } : input
+    );
+
+    this.subscriptions.forEach(subscription => {
+      const position = subscription.startPosition;
+      if (
+        typeof position === 'object' &&
+        'offsets' in position &&
+        typeof subscription.topic !== 'string'
+      ) {
+        throw new Error('Explicit start offsets require a single topic subscription');
+      }
+    });
+  }
+
+  getSubscriptions(): TopicSubscription[] {
+    return [...this.subscriptions];
+  }
+
+  requiresAdmin(): boolean {
+    return this.subscriptions.some(
+      subscription =>
+        subscription.topic instanceof RegExp || typeof subscription.startPosition === 'object'
+    );
+  }
+
+  async resolve(admin?: Admin): Promise<void> {
+    const hasPatterns = this.subscriptions.some(
+      subscription => subscription.topic instanceof RegExp
+    );
+    if (hasPatterns && !admin) {
+      throw new Error('Admin client is required to resolve topic patterns');
+    }
+
+    const available = hasPatterns ? await admin!.listTopics() : [];
+    this.resolved.clear();
+
+    this.subscriptions.forEach(subscription => {
+      const { topic } = subscription;
+      this.resolved.set(
+        subscription,
+        typeof topic === 'string'
+          ? [topic]
+          : available
+              .filter(candidate => !candidate.startsWith('__') && !this.isExcludedTopic(candidate))
+              .filter(candidate => matchesTopic(topic, candidate))
+              .sort()
+      );
+    });
+  }
+
+  getTopics(): string[] {
+    return Array.from(new Set(Array.from(this.getResolved().values()).flat()));
+  }
+
+  getSubscribeRequests(): SubscribeRequest[] {
+    return this.subscriptions
+      .map(subscription => ({
+        topics: this.getResolved().get(subscription) || [],
+        fromBeginning: (subscription.startPosition ?? 'earliest') !== 'latest'
+      }))
+      .filter(request => request.topics.length > 0);
+  }
+
+  async getStartOffsets(admin?: Admin, groupId?: string): Promise<TopicPartitionOffset[]> {
+    const seeks: TopicPartitionOffset[] = [];
+
+    for (const subscription of this.subscriptions) {
+      const position = subscription.startPosition;
+      if (typeof position !== 'object') {
+        continue;
+      }
+
+      for (const topic of this.getResolved().get(subscription) || []) {
+        if ('offsets' in position) {
+          position.offsets.forEach(({ partition, offset }) =>
+            seeks.push({ topic, partition, offset })
+          );
+          continue;
+        }
+
+        if (!admin) {
+          throw new Error('Admin client is required to resolve timestamp start positions');
+        }
+
+        const offsets = await admin.fetchTopicOffsetsByTimestamp(topic, position.timestamp);
+        offsets
+          .filter(({ offset }) => Number(offset) >= 0)
+          .forEach(({ partition, offset }) => seeks.push({ topic, partition, offset }));
+      }
+    }
+
+    if (!groupId || seeks.length === 0) {
+      return seeks;
+    }
+    if (!admin) {
+      throw new Error('Admin client is required to check committed offsets');
+    }
+
+    const committed = await admin.fetchOffsets({
+      groupId,
+      topics: Array.from(new Set(seeks.map(({ topic }) => topic)))
+    });
+    const positioned = new Set(
+      committed.flatMap(({ topic, partitions }) =>
+        partitions
+          .filter(({ offset }) => Number(offset) >= 0)
+          .map(({ partition }) => `${topic}:${partition}`)
+      )
+    );
+    return seeks.filter(({ topic, partition }) => !positioned.has(`${topic}:${partition}`));
+  }
+
+  findSubscription(topic: string): TopicSubscription | undefined {
+    return this.subscriptions.find(subscription => matchesTopic(subscription.topic, topic));
+  }
+
+  private getResolved(): Map<TopicSubscription, string[]> {
+    if (this.resolved.size === 0) {
+      throw new Error('Topic subscriptions are not resolved. Call resolve() first.');
+    }
+    return this.resolved;
+  }
+}
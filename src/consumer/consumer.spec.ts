@@ -0,0 +1,1844 @@
+import { MessageConsumer } from './consumer';
+import { config } from '../common/config';
+import { createOrderCreatedHandler, ORDER_CREATED_EVENT_TYPE } from './orderCreatedHandler';
+import {
+  createMessageHandler,
+  MessageContext,
+  MESSAGE_TYPE_HEADER
+} from '../common/messageHandler';
+import { DLQ_HEADERS } from '../common/deadLetterPublisher';
+import { RETRY_HEADERS } from '../common/retryTopics';
+import { InMemoryIdempotencyStore } from '../common/idempotencyStore';
+import { MetadataManager } from '../common/metadataManager';
+import { MetricsRegistry } from '../common/metricsRegistry';
+
+const mockConsumer = {
+  connect: jest.fn(),
+  subscribe: jest.fn(),
+  run: jest.fn(),
+  stop: jest.fn(),
+  commitOffsets: jest.fn(),
+  pause: jest.fn(),
+  resume: jest.fn(),
+  seek: jest.fn(),
+  disconnect: jest.fn(),
+  on: jest.fn(() => jest.fn()),
+  events: {
+    GROUP_JOIN: 'consumer.group_join',
+    REBALANCING: 'consumer.rebalancing',
+    STOP: 'consumer.stop',
+    CONNECT: 'consumer.connect',
+    DISCONNECT: 'consumer.disconnect',
+    CRASH: 'consumer.crash'
+  }
+};
+
+const mockAdmin = {
+  listTopics: jest.fn(),
+  fetchTopicOffsetsByTimestamp: jest.fn(),
+  fetchOffsets: jest.fn(),
+  fetchTopicOffsets: jest.fn(),
+  disconnect: jest.fn()
+};
+
+const mockProducer = {
+  send: jest.fn(),
+  disconnect: jest.fn()
+};
+
+jest.mock('../common/kafkaClient', () => ({
+  createConsumer: jest.fn(() => Promise.resolve(mockConsumer)),
+  createProducer: jest.fn(() => Promise.resolve(mockProducer)),
+  createAdmin: jest.fn(() => Promise.resolve(mockAdmin))
+}));
+
+jest.mock('../common/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const { logger } = require('../common/logger');
+const mockLogger = logger as jest.Mocked<typeof logger>;
+
+const orderEvent = {
+  id: 'evt-1',
+  orderId: 'order-1',
+  customerId: 'customer-1',
+  amount: 42,
+  createdAt: new Date().toISOString(),
+  status: 'CREATED'
+};
+
+const createContext = (payload: unknown, overrides: Partial<MessageContext> = {}) => ({
+  topic: 'orders',
+  partition: 0,
+  offset: '10',
+  rawMessage: typeof payload === 'string' ? payload : JSON.stringify(payload),
+  ...overrides
+});
+
+const createBatchPayload = (offsets: string[], payloads: unknown[]) => ({
+  batch: {
+    topic: 'orders',
+    partition: 1,
+    highWatermark: '100',
+    messages: offsets.map((offset, index) => ({
+      offset,
+      key: null,
+      value: Buffer.from(JSON.stringify(payloads[index])),
+      headers: {},
+      timestamp: Date.now().toString()
+    })),
+    isEmpty: () => offsets.length === 0,
+    lastOffset: () => offsets[offsets.length - 1]
+  },
+  resolveOffset: jest.fn(),
+  heartbeat: jest.fn().mockResolvedValue(undefined),
+  commitOffsetsIfNecessary: jest.fn().mockResolvedValue(undefined),
+  isRunning: jest.fn(() => true),
+  isStale: jest.fn(() => false),
+  pause: jest.fn()
+});
+
+describe('MessageConsumer', () => {
+  let consumer: MessageConsumer;
+
+  const handleMessage = (context: MessageContext): Promise<void> =>
+    (consumer as any).handleMessage(context);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockProducer.send.mockResolvedValue([]);
+  });
+
+  describe('Handler Registry', () => {
+    beforeEach(() => {
+      consumer = new MessageConsumer({
+        handlers: [createOrderCreatedHandler()],
+        defaultMessageType: ORDER_CREATED_EVENT_TYPE
+      });
+    });
+
+    test('should register handlers passed through options', () => {
+      expect(consumer.getHandlerRegistry().getMessageTypes()).toEqual([ORDER_CREATED_EVENT_TYPE]);
+    });
+
+    test('should process event with resolved handler', async () => {
+      await handleMessage(createContext(orderEvent));
+
+      expect(consumer.getMetrics()).toEqual(
+        expect.objectContaining({ totalMessages: 1, processedMessages: 1 })
+      );
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        'Successfully processed message',
+        expect.objectContaining({ eventId: 'evt-1', messageType: ORDER_CREATED_EVENT_TYPE })
+      );
+    });
+
+    test('should route by message type header', async () => {
+      const handle = jest.fn().mockResolvedValue('SUCCESS');
+      consumer.registerHandler(createMessageHandler('PaymentReceived', handle));
+
+      await handleMessage(
+        createContext(
+          { id: 'pay-1' },
+          { headers: { [MESSAGE_TYPE_HEADER]: Buffer.from('PaymentReceived') } }
+        )
+      );
+
+      expect(handle).toHaveBeenCalledWith({ id: 'pay-1' }, expect.any(Object));
+      expect(consumer.getMetrics().processedMessages).toBe(1);
+    });
+
+    test('should route by payload type field', async () => {
+      const handle = jest.fn().mockResolvedValue('SUCCESS');
+      consumer.registerHandler(createMessageHandler('PaymentReceived', handle));
+
+      await handleMessage(createContext({ id: 'pay-1', type: 'PaymentReceived' }));
+
+      expect(handle).toHaveBeenCalledTimes(1);
+    });
+
+    test('should send events failing handler schema to DLQ', async () => {
+      await handleMessage(createContext({ ...orderEvent, amount: -1 }));
+
+      expect(consumer.getMetrics().dlqMessages).toBe(1);
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'Dead-letter candidate',
+        expect.objectContaining({
+          reason: 'Event structure validation failed',
+          error: 'amount must be a non-negative number'
+        })
+      );
+    });
+
+    test('should skip already processed events', async () => {
+      await handleMessage(createContext(orderEvent));
+      await handleMessage(createContext(orderEvent, { offset: '11' }));
+
+      const metrics = consumer.getMetrics();
+      expect(metrics.processedMessages).toBe(1);
+      expect(metrics.skippedMessages).toBe(1);
+      expect(metrics.processedEventIdsCount).toBe(1);
+    });
+
+    test('should count SKIP results as skipped', async () => {
+      consumer.registerHandler(createMessageHandler('Ignored', async () => 'SKIP'));
+
+      await handleMessage(createContext({ id: 'x', type: 'Ignored' }));
+
+      expect(consumer.getMetrics().skippedMessages).toBe(1);
+    });
+
+    test('should throw on retryable handler error', async () => {
+      consumer.registerHandler(createMessageHandler('Flaky', async () => 'ERROR'));
+
+      await expect(handleMessage(createContext({ id: 'x', type: 'Flaky' }))).rejects.toThrow(
+        'Retryable processing error'
+      );
+    });
+
+    test('should unregister handler', () => {
+      expect(consumer.unregisterHandler(ORDER_CREATED_EVENT_TYPE)).toBe(true);
+      expect(consumer.unregisterHandler(ORDER_CREATED_EVENT_TYPE)).toBe(false);
+    });
+  });
+
+  describe('Unknown Message Types', () => {
+    test('should skip unknown types with skip policy', async () => {
+      consumer = new MessageConsumer({ unknownMessageTypePolicy: 'skip' });
+
+      await handleMessage(createContext({ type: 'Unknown' }));
+
+      const metrics = consumer.getMetrics();
+      expect(metrics.unknownTypeMessages).toBe(1);
+      expect(metrics.skippedMessages).toBe(1);
+      expect(metrics.dlqMessages).toBe(0);
+    });
+
+    test('should send unknown types to DLQ by default', async () => {
+      consumer = new MessageConsumer();
+
+      await handleMessage(createContext({ type: 'Unknown' }));
+
+      expect(consumer.getMetrics().dlqMessages).toBe(1);
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'Dead-letter candidate',
+        expect.objectContaining({ reason: 'No handler registered for message type: Unknown' })
+      );
+    });
+
+    test('should throw for unknown types with error policy', async () => {
+      consumer = new MessageConsumer({ unknownMessageTypePolicy: 'error' });
+
+      await expect(handleMessage(createContext({ type: 'Unknown' }))).rejects.toThrow(
+        'No handler registered for message type: Unknown'
+      );
+    });
+  });
+
+  describe('Malformed Messages', () => {
+    beforeEach(() => {
+      consumer = new MessageConsumer();
+    });
+
+    test('should send empty messages to DLQ', async () => {
+      await handleMessage(createContext(''));
+
+      expect(consumer.getMetrics().dlqMessages).toBe(1);
+    });
+
+    test('should send unparseable messages to DLQ', async () => {
+      await handleMessage(createContext('{not json'));
+
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'Dead-letter candidate',
+        expect.objectContaining({ reason: 'Deserialization failed' })
+      );
+    });
+  });
+
+  describe('Dead-Letter Publishing', () => {
+    test('should publish DLQ candidates to <topic>.DLQ with diagnostics', async () => {
+      consumer = new MessageConsumer({ deadLetter: { consumerGroup: 'orders-group' } });
+
+      await handleMessage(
+        createContext(
+          { type: 'Unknown' },
+          {
+            rawKey: Buffer.from('order-1'),
+            rawValue: Buffer.from('{"type":"Unknown"}'),
+            headers: { 'x-msg-source': Buffer.from('checkout') }
+          }
+        )
+      );
+
+      expect(mockProducer.send).toHaveBeenCalledWith({
+        topic: 'orders.DLQ',
+        messages: [
+          {
+            key: Buffer.from('order-1'),
+            value: Buffer.from('{"type":"Unknown"}'),
+            headers: expect.objectContaining({
+              'x-msg-source': Buffer.from('checkout'),
+              [DLQ_HEADERS.reason]: Buffer.from('No handler registered for message type: Unknown'),
+              [DLQ_HEADERS.originalTopic]: Buffer.from('orders'),
+              [DLQ_HEADERS.originalPartition]: Buffer.from('0'),
+              [DLQ_HEADERS.originalOffset]: Buffer.from('10'),
+              [DLQ_HEADERS.consumerGroup]: Buffer.from('orders-group')
+            })
+          }
+        ]
+      });
+      expect(consumer.getMetrics().dlqMessages).toBe(1);
+    });
+
+    test('should include exception message for parse failures', async () => {
+      consumer = new MessageConsumer();
+
+      await handleMessage(createContext('{not json'));
+
+      const [{ messages }] = mockProducer.send.mock.calls[0];
+      expect(messages[0].headers[DLQ_HEADERS.exceptionMessage]).toEqual(expect.any(Buffer));
+    });
+
+    test('should fail message handling when DLQ write is not acknowledged', async () => {
+      consumer = new MessageConsumer();
+      mockProducer.send.mockRejectedValue(new Error('Broker unavailable'));
+
+      await expect(handleMessage(createContext(''))).rejects.toThrow('Broker unavailable');
+      expect(consumer.getMetrics().dlqMessages).toBe(0);
+    });
+
+    test('should only log DLQ candidates when publishing is disabled', async () => {
+      consumer = new MessageConsumer({ deadLetter: { enabled: false } });
+
+      await handleMessage(createContext(''));
+
+      expect(mockProducer.send).not.toHaveBeenCalled();
+      expect(consumer.getMetrics().dlqMessages).toBe(1);
+    });
+  });
+
+  describe('Retry Topics', () => {
+    beforeEach(() => {
+      consumer = new MessageConsumer({
+        handlers: [createMessageHandler('Flaky', async () => 'ERROR')],
+        retry: { delaysMs: [5000, 60000], maxAttempts: 2 }
+      });
+    });
+
+    test('should publish retryable failures to the first retry tier', async () => {
+      await handleMessage(createContext({ id: 'x', type: 'Flaky' }));
+
+      const [{ topic, messages }] = mockProducer.send.mock.calls[0];
+      expect(topic).toBe('orders.retry.5s');
+      expect(messages[0].headers[RETRY_HEADERS.attempt]).toEqual(Buffer.from('1'));
+      expect(messages[0].headers[RETRY_HEADERS.originalTopic]).toEqual(Buffer.from('orders'));
+      expect(consumer.getMetrics().retriedMessages).toBe(1);
+    });
+
+    test('should move to next tier for retried messages', async () => {
+      await handleMessage(
+        createContext(
+          { id: 'x', type: 'Flaky' },
+          {
+            topic: 'orders.retry.5s',
+            headers: {
+              [RETRY_HEADERS.attempt]: Buffer.from('1'),
+              [RETRY_HEADERS.originalTopic]: Buffer.from('orders')
+            }
+          }
+        )
+      );
+
+      expect(mockProducer.send.mock.calls[0][0].topic).toBe('orders.retry.1m');
+    });
+
+    test('should route to original DLQ after the last tier', async () => {
+      await handleMessage(
+        createContext(
+          { id: 'x', type: 'Flaky' },
+          {
+            topic: 'orders.retry.1m',
+            offset: '3',
+            headers: {
+              [RETRY_HEADERS.attempt]: Buffer.from('2'),
+              [RETRY_HEADERS.originalTopic]: Buffer.from('orders'),
+              [RETRY_HEADERS.originalPartition]: Buffer.from('4'),
+              [RETRY_HEADERS.originalOffset]: Buffer.from('99')
+            }
+          }
+        )
+      );
+
+      const [{ topic, messages }] = mockProducer.send.mock.calls[0];
+      expect(topic).toBe('orders.DLQ');
+      expect(messages[0].headers[DLQ_HEADERS.reason]).toEqual(
+        Buffer.from('Retry attempts exhausted')
+      );
+      expect(messages[0].headers[DLQ_HEADERS.originalPartition]).toEqual(Buffer.from('4'));
+      expect(messages[0].headers[DLQ_HEADERS.originalOffset]).toEqual(Buffer.from('99'));
+      expect(consumer.getMetrics().dlqMessages).toBe(1);
+    });
+
+    test('should subscribe retry consumer to tier topics on initialize', async () => {
+      const { createConsumer } = require('../common/kafkaClient');
+      await consumer.initialize();
+
+      expect(createConsumer).toHaveBeenCalledWith(expect.stringMatching(/\.retry$/));
+      expect(mockConsumer.subscribe).toHaveBeenCalledWith({
+        topics: [expect.stringMatching(/\.retry\.5s$/), expect.stringMatching(/\.retry\.1m$/)],
+        fromBeginning: true
+      });
+    });
+  });
+
+  describe('Idempotency Store', () => {
+    test('should use provided store and mark events only after success', async () => {
+      const idempotencyStore = new InMemoryIdempotencyStore();
+      const handle = jest.fn().mockResolvedValueOnce('ERROR').mockResolvedValueOnce('SUCCESS');
+      consumer = new MessageConsumer({
+        handlers: [createMessageHandler('Flaky', handle)],
+        idempotencyStore,
+        deadLetter: { enabled: false }
+      });
+
+      await expect(handleMessage(createContext({ id: 'evt-9', type: 'Flaky' }))).rejects.toThrow(
+        'Retryable processing error'
+      );
+      expect(await idempotencyStore.has('evt-9')).toBe(false);
+
+      await handleMessage(createContext({ id: 'evt-9', type: 'Flaky' }));
+      expect(await idempotencyStore.has('evt-9')).toBe(true);
+    });
+
+    test('should expose store metrics', async () => {
+      consumer = new MessageConsumer({
+        handlers: [createOrderCreatedHandler()],
+        defaultMessageType: ORDER_CREATED_EVENT_TYPE
+      });
+
+      await handleMessage(createContext(orderEvent));
+      await handleMessage(createContext(orderEvent));
+
+      expect(consumer.getMetrics().idempotency).toEqual(
+        expect.objectContaining({ size: 1, hits: 1, misses: 1, hitRate: 0.5 })
+      );
+    });
+
+    test('should clear processed ids through the store', async () => {
+      consumer = new MessageConsumer({
+        handlers: [createOrderCreatedHandler()],
+        defaultMessageType: ORDER_CREATED_EVENT_TYPE
+      });
+      await handleMessage(createContext(orderEvent));
+
+      await consumer.clearProcessedEventIds();
+
+      expect(consumer.getMetrics().processedEventIdsCount).toBe(0);
+    });
+  });
+
+  describe('Batch Mode', () => {
+    const handleBatch = (payload: unknown): Promise<void> => (consumer as any).handleBatch(payload);
+
+    test('should reject batch handler outside batch mode', () => {
+      expect(() => new MessageConsumer({ batchHandler: jest.fn() })).toThrow(
+        'batchHandler requires mode: batch'
+      );
+    });
+
+    test('should run with eachBatch and configured partition concurrency', async () => {
+      consumer = new MessageConsumer({ mode: 'batch', partitionsConsumedConcurrently: 4 });
+      (consumer as any).consumer = mockConsumer;
+      mockConsumer.run.mockResolvedValue(undefined);
+
+      await consumer.startConsuming();
+
+      expect(mockConsumer.run).toHaveBeenCalledWith(
+        expect.objectContaining({
+          partitionsConsumedConcurrently: 4,
+          eachBatchAutoResolve: false,
+          eachBatch: expect.any(Function)
+        })
+      );
+    });
+
+    test('should resolve offset and heartbeat after each message', async () => {
+      const handle = jest.fn().mockResolvedValue('SUCCESS');
+      consumer = new MessageConsumer({
+        mode: 'batch',
+        handlers: [createMessageHandler('Order', handle)]
+      });
+      const payload = createBatchPayload(
+        ['5', '6'],
+        [
+          { id: 'a', type: 'Order' },
+          { id: 'b', type: 'Order' }
+        ]
+      );
+
+      await handleBatch(payload);
+
+      expect(handle).toHaveBeenCalledTimes(2);
+      expect(payload.resolveOffset.mock.calls).toEqual([['5'], ['6']]);
+      expect(payload.heartbeat).toHaveBeenCalledTimes(2);
+      expect(consumer.getMetrics().processedBatches).toBe(1);
+    });
+
+    test('should commit up to last good offset on partial failure', async () => {
+      const handle = jest
+        .fn()
+        .mockResolvedValueOnce('SUCCESS')
+        .mockResolvedValueOnce('ERROR')
+        .mockResolvedValueOnce('SUCCESS');
+      consumer = new MessageConsumer({
+        mode: 'batch',
+        handlers: [createMessageHandler('Order', handle)],
+        deadLetter: { enabled: false }
+      });
+      const payload = createBatchPayload(
+        ['5', '6', '7'],
+        [
+          { id: 'a', type: 'Order' },
+          { id: 'b', type: 'Order' },
+          { id: 'c', type: 'Order' }
+        ]
+      );
+
+      await expect(handleBatch(payload)).rejects.toThrow('Retryable processing error');
+
+      expect(payload.resolveOffset.mock.calls).toEqual([['5']]);
+      expect(payload.commitOffsetsIfNecessary).toHaveBeenCalledTimes(1);
+      expect(handle).toHaveBeenCalledTimes(2);
+      expect(consumer.getMetrics().failedBatches).toBe(1);
+    });
+
+    test('should pass decoded batch to batch handler', async () => {
+      const batchHandler = jest.fn(async batch => {
+        expect(batch.messages.map((message: MessageContext) => message.offset)).toEqual(['5', '6']);
+        await batch.heartbeat();
+      });
+      consumer = new MessageConsumer({ mode: 'batch', batchHandler });
+      const payload = createBatchPayload(['5', '6'], [{ id: 'a' }, { id: 'b' }]);
+
+      await handleBatch(payload);
+
+      expect(batchHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ topic: 'orders', partition: 1, highWatermark: '100' })
+      );
+      expect(payload.heartbeat).toHaveBeenCalledTimes(1);
+      expect(payload.resolveOffset).toHaveBeenCalledWith('6');
+      expect(consumer.getMetrics().processedMessages).toBe(2);
+    });
+
+    test('should keep offsets marked by batch handler before failure', async () => {
+      const batchHandler = jest.fn(async batch => {
+        batch.markProcessed('5');
+        throw new Error('Bulk write failed');
+      });
+      consumer = new MessageConsumer({ mode: 'batch', batchHandler });
+      const payload = createBatchPayload(['5', '6'], [{ id: 'a' }, { id: 'b' }]);
+
+      await expect(handleBatch(payload)).rejects.toThrow('Bulk write failed');
+
+      expect(payload.resolveOffset.mock.calls).toEqual([['5']]);
+      expect(payload.commitOffsetsIfNecessary).toHaveBeenCalledTimes(1);
+      expect(consumer.getMetrics().processedMessages).toBe(1);
+    });
+  });
+
+  describe('Key-Ordered Mode', () => {
+    const createKeyedPayload = (messages: Array<{ offset: string; key: string; id: string }>) => ({
+      batch: {
+        topic: 'orders',
+        partition: 0,
+        highWatermark: '100',
+        messages: messages.map(message => ({
+          offset: message.offset,
+          key: Buffer.from(message.key),
+          value: Buffer.from(JSON.stringify({ id: message.id, type: 'Order' })),
+          headers: {},
+          timestamp: Date.now().toString()
+        })),
+        isEmpty: () => messages.length === 0,
+        lastOffset: () => messages[messages.length - 1].offset
+      },
+      resolveOffset: jest.fn(),
+      heartbeat: jest.fn().mockResolvedValue(undefined),
+      commitOffsetsIfNecessary: jest.fn().mockResolvedValue(undefined),
+      isRunning: jest.fn(() => true),
+      isStale: jest.fn(() => false),
+      pause: jest.fn()
+    });
+
+    const handleKeyOrderedBatch = (payload: unknown): Promise<void> =>
+      (consumer as any).handleKeyOrderedBatch((consumer as any).keyOrderedDispatcher, payload);
+
+    test('should keep per-key order and resolve contiguous watermark', async () => {
+      const completed: string[] = [];
+      const handle = jest.fn(async (event: { id: string }) => {
+        if (event.id === 'a1') {
+          await new Promise(resolve => setTimeout(resolve, 20));
+        }
+        completed.push(event.id);
+        return 'SUCCESS' as const;
+      });
+      consumer = new MessageConsumer({
+        mode: 'keyOrdered',
+        workers: 3,
+        handlers: [createMessageHandler('Order', handle)]
+      });
+      const payload = createKeyedPayload([
+        { offset: '1', key: 'order-a', id: 'a1' },
+        { offset: '2', key: 'order-b', id: 'b1' },
+        { offset: '3', key: 'order-a', id: 'a2' }
+      ]);
+
+      await handleKeyOrderedBatch(payload);
+
+      expect(completed.indexOf('a1')).toBeLessThan(completed.indexOf('a2'));
+      expect(completed[0]).toBe('b1');
+      expect(payload.resolveOffset.mock.calls).toEqual([['2'], ['3']]);
+      expect(consumer.getMetrics().processedMessages).toBe(3);
+    });
+
+    test('should commit only up to the first failed offset', async () => {
+      const handle = jest.fn(async (event: { id: string }) =>
+        event.id === 'b1' ? ('ERROR' as const) : ('SUCCESS' as const)
+      );
+      consumer = new MessageConsumer({
+        mode: 'keyOrdered',
+        handlers: [createMessageHandler('Order', handle)],
+        deadLetter: { enabled: false }
+      });
+      const payload = createKeyedPayload([
+        { offset: '1', key: 'order-a', id: 'a1' },
+        { offset: '2', key: 'order-b', id: 'b1' },
+        { offset: '3', key: 'order-c', id: 'c1' }
+      ]);
+
+      await expect(handleKeyOrderedBatch(payload)).rejects.toThrow('Retryable processing error');
+
+      expect(payload.resolveOffset.mock.calls).toEqual([['1']]);
+      expect(payload.commitOffsetsIfNecessary).toHaveBeenCalledTimes(1);
+      expect(consumer.getMetrics().failedBatches).toBe(1);
+    });
+
+    test('should run with eachBatch when key-ordered', async () => {
+      consumer = new MessageConsumer({ mode: 'keyOrdered' });
+      (consumer as any).consumer = mockConsumer;
+      mockConsumer.run.mockResolvedValue(undefined);
+
+      await consumer.startConsuming();
+
+      expect(mockConsumer.run).toHaveBeenCalledWith(
+        expect.objectContaining({ eachBatchAutoResolve: false, eachBatch: expect.any(Function) })
+      );
+    });
+  });
+
+  describe('Lifecycle', () => {
+    beforeEach(() => {
+      mockConsumer.run.mockResolvedValue(undefined);
+      mockConsumer.stop.mockResolvedValue(undefined);
+      mockConsumer.disconnect.mockResolvedValue(undefined);
+      consumer = new MessageConsumer({ handlers: [createOrderCreatedHandler()] });
+    });
+
+    test('should start without installing process signal handlers', async () => {
+      const processOn = jest.spyOn(process, 'on');
+
+      await consumer.start();
+
+      expect(consumer.getState()).toBe('running');
+      expect(processOn).not.toHaveBeenCalled();
+      processOn.mockRestore();
+    });
+
+    test('should notify state changes until unsubscribed', async () => {
+      const listener = jest.fn();
+      const unsubscribe = consumer.onStateChange(listener);
+
+      await consumer.start();
+      unsubscribe();
+      await consumer.stop();
+
+      expect(listener.mock.calls).toEqual([
+        ['starting', 'idle'],
+        ['running', 'starting']
+      ]);
+      expect(consumer.getState()).toBe('stopped');
+    });
+
+    test('should drain, disconnect and resolve without exiting the process', async () => {
+      const exit = jest.spyOn(process, 'exit').mockImplementation((() => undefined) as any);
+      const idempotencyStore = Object.assign(new InMemoryIdempotencyStore(), {
+        close: jest.fn().mockResolvedValue(undefined)
+      });
+      consumer = new MessageConsumer({ idempotencyStore });
+      await consumer.start();
+
+      await consumer.stop();
+
+      expect(mockConsumer.stop).toHaveBeenCalled();
+      expect(mockConsumer.stop.mock.invocationCallOrder[0]).toBeLessThan(
+        mockConsumer.disconnect.mock.invocationCallOrder[0]
+      );
+      expect(idempotencyStore.close).toHaveBeenCalled();
+      expect(mockProducer.disconnect).toHaveBeenCalled();
+      expect(consumer.isShuttingDownStatus()).toBe(true);
+      expect(exit).not.toHaveBeenCalled();
+      exit.mockRestore();
+    });
+
+    test('should share a single shutdown between concurrent stop calls', async () => {
+      await consumer.start();
+
+      await Promise.all([consumer.stop(), consumer.stop()]);
+
+      expect(mockConsumer.disconnect).toHaveBeenCalledTimes(1);
+    });
+
+    test('should stop waiting for in-flight messages after drain timeout', async () => {
+      jest.useFakeTimers();
+      mockConsumer.stop.mockReturnValue(new Promise(() => undefined));
+      await consumer.start();
+
+      const stopping = consumer.stop({ drainTimeoutMs: 1000 });
+      await jest.advanceTimersByTimeAsync(1000);
+      await stopping;
+
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'Drain timeout exceeded, abandoning remaining in-flight messages',
+        { drainTimeoutMs: 1000 }
+      );
+      expect(mockConsumer.disconnect).toHaveBeenCalled();
+      await expect(handleMessage(createContext(orderEvent))).rejects.toThrow(
+        'Consumer is stopping'
+      );
+      jest.useRealTimers();
+    });
+
+    test('should bound disconnect when a hung handler blocks the kafkajs stop', async () => {
+      jest.useFakeTimers();
+      const hungStop = new Promise<void>(() => undefined);
+      mockConsumer.stop.mockReturnValue(hungStop);
+      mockConsumer.disconnect.mockImplementation(async () => {
+        await hungStop;
+      });
+      await consumer.start();
+
+      let stopped = false;
+      const stopping = consumer.stop({ drainTimeoutMs: 1000 }).then(() => {
+        stopped = true;
+      });
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(stopped).toBe(false);
+      await jest.advanceTimersByTimeAsync(1000);
+      await stopping;
+
+      expect(stopped).toBe(true);
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'Consumer disconnect timed out, abandoning connection',
+        { timeoutMs: 1000 }
+      );
+      expect(consumer.getState()).toBe('stopped');
+      jest.useRealTimers();
+    });
+
+    test('should report failed state when shutdown fails', async () => {
+      mockConsumer.disconnect.mockRejectedValue(new Error('disconnect failed'));
+      await consumer.start();
+
+      await expect(consumer.stop()).rejects.toThrow('disconnect failed');
+      expect(consumer.getState()).toBe('failed');
+    });
+
+    test('should reject start while running', async () => {
+      await consumer.start();
+
+      await expect(consumer.start()).rejects.toThrow('Cannot start consumer in state: running');
+    });
+  });
+
+  describe('Offset Commit Strategies', () => {
+    const runConsumer = async (options: ConstructorParameters<typeof MessageConsumer>[0]) => {
+      consumer = new MessageConsumer({ handlers: [createOrderCreatedHandler()], ...options });
+      (consumer as any).consumer = mockConsumer;
+      mockConsumer.run.mockResolvedValue(undefined);
+      await consumer.startConsuming();
+      return mockConsumer.run.mock.calls[0][0];
+    };
+
+    const orderMessage = (offset: string) => ({
+      offset,
+      key: null,
+      value: Buffer.from(JSON.stringify({ ...orderEvent, id: `evt-${offset}` })),
+      headers: {},
+      timestamp: Date.now().toString()
+    });
+
+    beforeEach(() => {
+      mockConsumer.commitOffsets.mockResolvedValue(undefined);
+    });
+
+    test('should keep kafkajs auto-commit by default', async () => {
+      const runConfig = await runConsumer({});
+
+      expect(runConfig.autoCommit).toBe(true);
+      expect(consumer.getMetrics().commits.strategy).toBe('auto');
+    });
+
+    test('should commit after each message with perMessage strategy', async () => {
+      const runConfig = await runConsumer({ commit: { strategy: 'perMessage' } });
+
+      await runConfig.eachMessage({
+        topic: 'orders',
+        partition: 2,
+        message: orderMessage('41'),
+        pause: jest.fn()
+      });
+
+      expect(runConfig.autoCommit).toBe(false);
+      expect(mockConsumer.commitOffsets).toHaveBeenCalledWith([
+        { topic: 'orders', partition: 2, offset: '42' }
+      ]);
+      expect(consumer.getMetrics().commits.commits).toBe(1);
+    });
+
+    test('should not commit a message whose handler failed', async () => {
+      const handle = jest.fn().mockRejectedValue(new Error('side effect failed'));
+      const runConfig = await runConsumer({
+        handlers: [createMessageHandler(ORDER_CREATED_EVENT_TYPE, handle)],
+        defaultMessageType: ORDER_CREATED_EVENT_TYPE,
+        commit: { strategy: 'perMessage' }
+      });
+
+      await expect(
+        runConfig.eachMessage({
+          topic: 'orders',
+          partition: 0,
+          message: orderMessage('7'),
+          pause: jest.fn()
+        })
+      ).rejects.toThrow('side effect failed');
+      expect(mockConsumer.commitOffsets).not.toHaveBeenCalled();
+    });
+
+    test('should reject batch commit strategy in message mode', () => {
+      expect(() => new MessageConsumer({ commit: { strategy: 'batch' } })).toThrow(
+        'commit strategy batch requires mode: batch, keyOrdered or priority'
+      );
+      expect(
+        () => new MessageConsumer({ mode: 'keyOrdered', commit: { strategy: 'batch' } })
+      ).not.toThrow();
+    });
+
+    test('should commit once on batch completion with batch strategy', async () => {
+      await runConsumer({ mode: 'batch', commit: { strategy: 'batch' } });
+      const payload = createBatchPayload(['1', '2'], [orderEvent, { ...orderEvent, id: 'evt-2' }]);
+
+      await (consumer as any).handleBatch(payload);
+
+      expect(mockConsumer.commitOffsets).toHaveBeenCalledTimes(1);
+      expect(mockConsumer.commitOffsets).toHaveBeenCalledWith([
+        { topic: 'orders', partition: 1, offset: '3' }
+      ]);
+    });
+
+    test('should commit last good offset through commitOffsets on batch failure', async () => {
+      const handle = jest
+        .fn()
+        .mockResolvedValueOnce('SUCCESS')
+        .mockRejectedValueOnce(new Error('boom'));
+      await runConsumer({
+        mode: 'batch',
+        handlers: [createMessageHandler(ORDER_CREATED_EVENT_TYPE, handle)],
+        defaultMessageType: ORDER_CREATED_EVENT_TYPE,
+        commit: { strategy: 'interval', everyMessages: 100 }
+      });
+      const payload = createBatchPayload(['1', '2'], [orderEvent, { ...orderEvent, id: 'evt-2' }]);
+
+      await expect((consumer as any).handleBatch(payload)).rejects.toThrow('boom');
+
+      expect(payload.commitOffsetsIfNecessary).not.toHaveBeenCalled();
+      expect(mockConsumer.commitOffsets).toHaveBeenCalledWith([
+        { topic: 'orders', partition: 1, offset: '2' }
+      ]);
+    });
+
+    test('should flush pending offsets before disconnecting on stop', async () => {
+      mockConsumer.disconnect.mockResolvedValue(undefined);
+      await runConsumer({ commit: { strategy: 'interval', everyMessages: 100 } });
+      (consumer as any).offsetCommitter.markProcessed('orders', 0, '9');
+
+      await consumer.stop();
+
+      expect(mockConsumer.commitOffsets).toHaveBeenCalledWith([
+        { topic: 'orders', partition: 0, offset: '10' }
+      ]);
+      expect(mockConsumer.commitOffsets.mock.invocationCallOrder[0]).toBeLessThan(
+        mockConsumer.disconnect.mock.invocationCallOrder[0]
+      );
+    });
+  });
+
+  describe('Deserialization and Metadata', () => {
+    test('should pass handlers an envelope with metadata rebuilt from producer headers', async () => {
+      const handle = jest.fn().mockResolvedValue('SUCCESS');
+      consumer = new MessageConsumer({ handlers: [createMessageHandler('Order', handle)] });
+      const metadataManager = new MetadataManager();
+      const headers = metadataManager.metadataToHeaders({
+        correlationId: 'corr-1',
+        messageType: 'Order',
+        source: 'checkout',
+        priority: 5,
+        timestamp: new Date('2024-01-01T00:00:00.000Z'),
+        customHeaders: { region: 'eu' }
+      });
+
+      await handleMessage(createContext({ id: 'evt-9', total: 10 }, { key: 'order-9', headers }));
+
+      const [event, context] = handle.mock.calls[0];
+      expect(event).toEqual({ id: 'evt-9', total: 10 });
+      expect(context.envelope).toEqual({
+        payload: { id: 'evt-9', total: 10 },
+        key: 'order-9',
+        headers,
+        metadata: expect.objectContaining({
+          correlationId: 'corr-1',
+          messageType: 'Order',
+          source: 'checkout',
+          priority: 5,
+          timestamp: new Date('2024-01-01T00:00:00.000Z'),
+          customHeaders: { region: 'eu' }
+        })
+      });
+    });
+
+    test('should deserialize with configured serialization format', async () => {
+      const handle = jest.fn().mockResolvedValue('SUCCESS');
+      consumer = new MessageConsumer({
+        handlers: [createMessageHandler('Text', handle)],
+        defaultMessageType: 'Text',
+        serializationFormat: 'string'
+      });
+
+      await handleMessage(createContext('plain text'));
+
+      expect(handle).toHaveBeenCalledWith(
+        'plain text',
+        expect.objectContaining({
+          envelope: expect.objectContaining({ payload: 'plain text', metadata: {} })
+        })
+      );
+    });
+
+    test('should use a custom serializer and DLQ messages it cannot decode', async () => {
+      const serializer = {
+        serialize: jest.fn(),
+        deserialize: jest.fn(() => {
+          throw new Error('Unsupported encoding');
+        })
+      };
+      consumer = new MessageConsumer({ serializer });
+
+      await handleMessage(createContext({ id: 'evt-1' }));
+
+      expect(serializer.deserialize).toHaveBeenCalledWith('{"id":"evt-1"}');
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'Dead-letter candidate',
+        expect.objectContaining({
+          reason: 'Deserialization failed',
+          error: 'Unsupported encoding'
+        })
+      );
+    });
+  });
+
+  describe('Backpressure', () => {
+    test('should pause partition at high-water mark and stop dispatching', async () => {
+      const releases: Array<() => void> = [];
+      const handle = jest.fn(
+        () =>
+          new Promise<'SUCCESS'>(resolve => {
+            releases.push(() => resolve('SUCCESS'));
+          })
+      );
+      consumer = new MessageConsumer({
+        mode: 'keyOrdered',
+        workers: 4,
+        handlers: [createMessageHandler('Order', handle)],
+        backpressure: { highWaterMark: 2, lowWaterMark: 0 }
+      });
+      (consumer as any).consumer = mockConsumer;
+      const payload = createBatchPayload(
+        ['1', '2', '3'],
+        [
+          { id: 'a', type: 'Order' },
+          { id: 'b', type: 'Order' },
+          { id: 'c', type: 'Order' }
+        ]
+      );
+
+      const processing = (consumer as any).handleKeyOrderedBatch(
+        (consumer as any).keyOrderedDispatcher,
+        payload
+      );
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(mockConsumer.pause).toHaveBeenCalledWith([{ topic: 'orders', partitions: [1] }]);
+      expect(consumer.getMetrics().backpressure.totalInFlight).toBe(2);
+
+      releases.forEach(release => release());
+      await processing;
+
+      expect(handle).toHaveBeenCalledTimes(2);
+      expect(mockConsumer.resume).toHaveBeenCalledWith([{ topic: 'orders', partitions: [1] }]);
+      expect(payload.resolveOffset).toHaveBeenLastCalledWith('2');
+    });
+
+    test('should pause a partition under sustained handler latency in the default mode', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      consumer = new MessageConsumer({
+        handlers: [
+          createMessageHandler(
+            'Order',
+            () => new Promise<'SUCCESS'>(resolve => setTimeout(() => resolve('SUCCESS'), 10000))
+          )
+        ]
+      });
+      (consumer as any).consumer = mockConsumer;
+      mockConsumer.run.mockResolvedValue(undefined);
+      await consumer.startConsuming();
+      const { eachMessage } = mockConsumer.run.mock.calls[0][0];
+
+      for (const offset of ['10', '11']) {
+        const processing = eachMessage({
+          topic: 'orders',
+          partition: 1,
+          message: createBatchPayload([offset], [{ id: offset, type: 'Order' }]).batch.messages[0],
+          pause: jest.fn()
+        });
+        await jest.advanceTimersByTimeAsync(10000);
+        await processing;
+      }
+
+      expect(mockConsumer.pause).toHaveBeenCalledWith([{ topic: 'orders', partitions: [1] }]);
+      expect(consumer.getMetrics().backpressure.partitions).toEqual([
+        expect.objectContaining({ partition: 1, paused: true, pausedBy: ['latency'] })
+      ]);
+
+      jest.advanceTimersByTime(5000);
+      expect(mockConsumer.resume).toHaveBeenCalledWith([{ topic: 'orders', partitions: [1] }]);
+      jest.useRealTimers();
+    });
+
+    test('should expose explicit pause and resume', () => {
+      consumer = new MessageConsumer();
+      (consumer as any).consumer = mockConsumer;
+
+      consumer.pausePartition('orders', 3);
+      consumer.resumePartition('orders', 3);
+
+      expect(mockConsumer.pause).toHaveBeenCalledWith([{ topic: 'orders', partitions: [3] }]);
+      expect(mockConsumer.resume).toHaveBeenCalledWith([{ topic: 'orders', partitions: [3] }]);
+      expect(consumer.getMetrics().backpressure.partitions).toEqual([
+        expect.objectContaining({ topic: 'orders', partition: 3, paused: false, pauseCount: 1 })
+      ]);
+    });
+  });
+
+  describe('Lag Monitoring', () => {
+    test('should expose latest lag report through metrics', async () => {
+      mockAdmin.fetchOffsets.mockResolvedValue([
+        { topic: 'orders', partitions: [{ partition: 0, offset: '5', metadata: null }] }
+      ]);
+      mockAdmin.fetchTopicOffsets.mockResolvedValue([
+        { partition: 0, offset: '12', high: '12', low: '0' }
+      ]);
+      mockAdmin.disconnect.mockResolvedValue(undefined);
+      consumer = new MessageConsumer({
+        lagMonitor: { groupId: 'orders-group', topics: ['orders'] }
+      });
+
+      await consumer.initialize();
+      expect(consumer.getMetrics().lag).toBeUndefined();
+
+      await (consumer as any).lagMonitor.check();
+      expect(consumer.getMetrics().lag).toEqual(
+        expect.objectContaining({ groupId: 'orders-group', totalLag: 7 })
+      );
+
+      await consumer.stop();
+      expect(mockAdmin.disconnect).toHaveBeenCalled();
+    });
+  });
+
+  describe('Topic Subscriptions', () => {
+    beforeEach(() => {
+      mockAdmin.disconnect.mockResolvedValue(undefined);
+      mockConsumer.run.mockResolvedValue(undefined);
+    });
+
+    test('should subscribe to configured topic from beginning by default', async () => {
+      const { createAdmin } = require('../common/kafkaClient');
+      consumer = new MessageConsumer();
+
+      await consumer.initialize();
+
+      expect(createAdmin).not.toHaveBeenCalled();
+      expect(mockConsumer.subscribe).toHaveBeenCalledWith({
+        topics: [expect.any(String)],
+        fromBeginning: true
+      });
+    });
+
+    test('should subscribe to topic lists and resolved patterns per start position', async () => {
+      mockAdmin.listTopics.mockResolvedValue(['orders.created', 'orders.created.DLQ', 'payments']);
+      consumer = new MessageConsumer({
+        subscriptions: ['payments', { topic: /^orders\..*/, startPosition: 'latest' }]
+      });
+
+      await consumer.initialize();
+
+      expect(mockConsumer.subscribe).toHaveBeenCalledWith({
+        topics: ['payments'],
+        fromBeginning: true
+      });
+      expect(mockConsumer.subscribe).toHaveBeenCalledWith({
+        topics: ['orders.created'],
+        fromBeginning: false
+      });
+      expect(mockAdmin.disconnect).toHaveBeenCalled();
+    });
+
+    test('should not subscribe patterns to the delayed delivery topic', async () => {
+      mockAdmin.listTopics.mockResolvedValue([
+        `${config.kafkaTopic}.created`,
+        `${config.kafkaTopic}.delay`
+      ]);
+      consumer = new MessageConsumer({ subscriptions: [new RegExp(`^${config.kafkaTopic}\\.`)] });
+
+      await consumer.initialize();
+
+      expect(mockConsumer.subscribe).toHaveBeenCalledWith({
+        topics: [`${config.kafkaTopic}.created`],
+        fromBeginning: true
+      });
+    });
+
+    test('should not subscribe patterns to a configured delay topic', async () => {
+      mockAdmin.listTopics.mockResolvedValue(['orders.created', 'orders.scheduled']);
+      consumer = new MessageConsumer({
+        subscriptions: [/^orders\./],
+        delayTopic: 'orders.scheduled'
+      });
+
+      await consumer.initialize();
+
+      expect(mockConsumer.subscribe).toHaveBeenCalledWith({
+        topics: ['orders.created'],
+        fromBeginning: true
+      });
+    });
+
+    test('should seek to explicit and timestamp start positions once running', async () => {
+      mockAdmin.fetchTopicOffsetsByTimestamp.mockResolvedValue([{ partition: 0, offset: '30' }]);
+      mockAdmin.fetchOffsets.mockResolvedValue([]);
+      consumer = new MessageConsumer({
+        subscriptions: [
+          { topic: 'orders', startPosition: { offsets: [{ partition: 1, offset: '12' }] } },
+          { topic: 'payments', startPosition: { timestamp: 1700000000000 } }
+        ]
+      });
+
+      await consumer.initialize();
+      expect(mockConsumer.seek).not.toHaveBeenCalled();
+      await consumer.startConsuming();
+
+      expect(mockConsumer.seek).toHaveBeenCalledWith({
+        topic: 'orders',
+        partition: 1,
+        offset: '12'
+      });
+      expect(mockConsumer.seek).toHaveBeenCalledWith({
+        topic: 'payments',
+        partition: 0,
+        offset: '30'
+      });
+    });
+
+    test('should not seek again when consumption restarts', async () => {
+      mockAdmin.fetchOffsets.mockResolvedValue([]);
+      consumer = new MessageConsumer({
+        subscriptions: [
+          { topic: 'orders', startPosition: { offsets: [{ partition: 1, offset: '12' }] } }
+        ]
+      });
+
+      await consumer.initialize();
+      await consumer.startConsuming();
+      await consumer.startConsuming();
+
+      expect(mockConsumer.seek).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not seek partitions the group has already committed', async () => {
+      mockAdmin.fetchOffsets.mockResolvedValue([
+        {
+          topic: 'orders',
+          partitions: [
+            { partition: 0, offset: '-1' },
+            { partition: 1, offset: '57' }
+          ]
+        }
+      ]);
+      consumer = new MessageConsumer({
+        subscriptions: [
+          {
+            topic: 'orders',
+            startPosition: {
+              offsets: [
+                { partition: 0, offset: '5' },
+                { partition: 1, offset: '12' }
+              ]
+            }
+          }
+        ]
+      });
+
+      await consumer.initialize();
+      await consumer.startConsuming();
+
+      expect(mockAdmin.fetchOffsets).toHaveBeenCalledWith({
+        groupId: config.kafkaConsumerGroupId,
+        topics: ['orders']
+      });
+      expect(mockConsumer.seek).toHaveBeenCalledTimes(1);
+      expect(mockConsumer.seek).toHaveBeenCalledWith({
+        topic: 'orders',
+        partition: 0,
+        offset: '5'
+      });
+    });
+
+    test('should route each topic to its own handlers', async () => {
+      const orderHandle = jest.fn().mockResolvedValue('SUCCESS');
+      const paymentHandle = jest.fn().mockResolvedValue('SUCCESS');
+      consumer = new MessageConsumer({
+        defaultMessageType: 'Event',
+        subscriptions: [
+          { topic: /^orders\./, handlers: [createMessageHandler('Event', orderHandle)] },
+          { topic: 'payments', handlers: [createMessageHandler('Event', paymentHandle)] }
+        ]
+      });
+
+      await handleMessage(createContext({ id: 'o-1' }, { topic: 'orders.created' }));
+      await handleMessage(createContext({ id: 'p-1' }, { topic: 'payments' }));
+
+      expect(orderHandle).toHaveBeenCalledWith({ id: 'o-1' }, expect.anything());
+      expect(paymentHandle).toHaveBeenCalledWith({ id: 'p-1' }, expect.anything());
+      expect(orderHandle).toHaveBeenCalledTimes(1);
+      expect(paymentHandle).toHaveBeenCalledTimes(1);
+    });
+
+    test('should route retried messages by their original topic', async () => {
+      const paymentHandle = jest.fn().mockResolvedValue('SUCCESS');
+      consumer = new MessageConsumer({
+        defaultMessageType: 'Event',
+        subscriptions: [
+          'orders',
+          { topic: 'payments', handlers: [createMessageHandler('Event', paymentHandle)] }
+        ]
+      });
+
+      await handleMessage(
+        createContext(
+          { id: 'p-2' },
+          {
+            topic: 'payments.retry.5s',
+            headers: { [RETRY_HEADERS.originalTopic]: Buffer.from('payments') }
+          }
+        )
+      );
+
+      expect(paymentHandle).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Middleware Pipeline', () => {
+    test('should expose built-in middlewares in order', () => {
+      consumer = new MessageConsumer();
+
+      expect(consumer.getMiddlewarePipeline().getNames()).toEqual([
+        'metrics',
+        'outcome',
+        'decode',
+        'expiry',
+        'routing',
+        'validation',
+        'dedup'
+      ]);
+    });
+
+    test('should run custom middleware with decoded context before the handler', async () => {
+      const handle = jest.fn().mockResolvedValue('SUCCESS');
+      const seen: string[] = [];
+      consumer = new MessageConsumer({ handlers: [createMessageHandler('Order', handle)] });
+      consumer.use(async (ctx, next) => {
+        seen.push(`${ctx.messageType}:${ctx.eventId}`);
+        await next();
+        seen.push(`result:${ctx.result}`);
+      }, 'tracing');
+
+      await handleMessage(createContext({ id: 'evt-5', type: 'Order' }));
+
+      expect(seen).toEqual(['Order:evt-5', 'result:SUCCESS']);
+      expect(consumer.getMetrics().processedMessages).toBe(1);
+    });
+
+    test('should let middleware short-circuit to DLQ without calling handler', async () => {
+      const handle = jest.fn().mockResolvedValue('SUCCESS');
+      consumer = new MessageConsumer({ handlers: [createMessageHandler('Order', handle)] });
+      consumer.getMiddlewarePipeline().useBefore(
+        'dedup',
+        async (ctx, next) => {
+          if (!ctx.envelope?.metadata.userId) {
+            ctx.result = 'DLQ';
+            ctx.reason = 'Unauthenticated message';
+            return;
+          }
+          await next();
+        },
+        'auth'
+      );
+
+      await handleMessage(createContext({ id: 'evt-6', type: 'Order' }));
+
+      expect(handle).not.toHaveBeenCalled();
+      const [{ messages }] = mockProducer.send.mock.calls[0];
+      expect(messages[0].headers[DLQ_HEADERS.reason]).toEqual(
+        Buffer.from('Unauthenticated message')
+      );
+      expect(consumer.getMetrics().dlqMessages).toBe(1);
+    });
+
+    test('should process duplicates when dedup middleware is removed', async () => {
+      const handle = jest.fn().mockResolvedValue('SUCCESS');
+      consumer = new MessageConsumer({ handlers: [createMessageHandler('Order', handle)] });
+      consumer.getMiddlewarePipeline().remove('dedup');
+
+      await handleMessage(createContext({ id: 'evt-7', type: 'Order' }));
+      await handleMessage(createContext({ id: 'evt-7', type: 'Order' }));
+
+      expect(handle).toHaveBeenCalledTimes(2);
+      expect(consumer.getMetrics().processedEventIdsCount).toBe(0);
+    });
+
+    test('should allow replacing a built-in middleware', async () => {
+      const handle = jest.fn().mockResolvedValue('SUCCESS');
+      consumer = new MessageConsumer({
+        handlers: [
+          createMessageHandler('Order', handle, {
+            schema: { validate: () => ({ isValid: false, error: 'strict schema' }) }
+          })
+        ]
+      });
+      consumer.getMiddlewarePipeline().replace('validation', async (_ctx, next) => next());
+
+      await handleMessage(createContext({ id: 'evt-8', type: 'Order' }));
+
+      expect(handle).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Circuit Breaker', () => {
+    const createBreakerConsumer = (handle: jest.Mock) => {
+      consumer = new MessageConsumer({
+        handlers: [createMessageHandler('Order', handle)],
+        retry: { delaysMs: [1000] },
+        circuitBreaker: { windowSize: 2, minimumCalls: 2, openDurationMs: 1000 }
+      });
+      (consumer as any).consumer = mockConsumer;
+    };
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('should open after failures and pause partitions instead of retrying', async () => {
+      const handle = jest.fn().mockResolvedValue('ERROR');
+      createBreakerConsumer(handle);
+
+      await handleMessage(createContext({ id: 'evt-1', type: 'Order' }, { offset: '1' }));
+      await handleMessage(createContext({ id: 'evt-2', type: 'Order' }, { offset: '2' }));
+      expect(consumer.getMetrics().circuitBreaker?.state).toBe('open');
+      expect(mockProducer.send).toHaveBeenCalledTimes(2);
+
+      await expect(
+        handleMessage(createContext({ id: 'evt-3', type: 'Order' }, { offset: '3', partition: 2 }))
+      ).rejects.toThrow('Circuit breaker is open');
+
+      expect(handle).toHaveBeenCalledTimes(2);
+      expect(mockProducer.send).toHaveBeenCalledTimes(2);
+      expect(mockConsumer.pause).toHaveBeenCalledWith([{ topic: 'orders', partitions: [2] }]);
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        'Circuit breaker state changed',
+        expect.objectContaining({ from: 'closed', to: 'open' })
+      );
+    });
+
+    test('should resume paused partitions and close after a successful probe', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      const handle = jest
+        .fn()
+        .mockResolvedValueOnce('ERROR')
+        .mockResolvedValueOnce('ERROR')
+        .mockResolvedValue('SUCCESS');
+      createBreakerConsumer(handle);
+
+      await handleMessage(createContext({ id: 'evt-1', type: 'Order' }, { offset: '1' }));
+      await handleMessage(createContext({ id: 'evt-2', type: 'Order' }, { offset: '2' }));
+      await expect(
+        handleMessage(createContext({ id: 'evt-3', type: 'Order' }, { offset: '3' }))
+      ).rejects.toThrow('Circuit breaker is open');
+
+      jest.advanceTimersByTime(1000);
+      expect(mockConsumer.resume).toHaveBeenCalledWith([{ topic: 'orders', partitions: [0] }]);
+
+      await handleMessage(createContext({ id: 'evt-3', type: 'Order' }, { offset: '3' }));
+
+      expect(handle).toHaveBeenCalledTimes(3);
+      expect(consumer.getMetrics().circuitBreaker).toEqual(
+        expect.objectContaining({ state: 'closed', rejectedCalls: 1, transitions: 3 })
+      );
+    });
+
+    test('should not count skipped duplicates as downstream calls', async () => {
+      const handle = jest.fn().mockResolvedValue('SUCCESS');
+      createBreakerConsumer(handle);
+
+      await handleMessage(createContext({ id: 'evt-1', type: 'Order' }));
+      await handleMessage(createContext({ id: 'evt-1', type: 'Order' }));
+
+      expect(handle).toHaveBeenCalledTimes(1);
+      expect(consumer.getMetrics().circuitBreaker?.bufferedCalls).toBe(1);
+      expect(consumer.getMiddlewarePipeline().getNames()).toContain('circuitBreaker');
+    });
+  });
+
+  describe('Processing Timeout', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('should abort hanging handler and schedule a retry', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      let signal: AbortSignal | undefined;
+      const handle = jest.fn((_event, context) => {
+        signal = context.signal;
+        return new Promise<'SUCCESS'>(() => undefined);
+      });
+      consumer = new MessageConsumer({
+        handlers: [createMessageHandler('Order', handle)],
+        retry: { delaysMs: [1000] },
+        processingTimeout: { timeoutMs: 500 }
+      });
+
+      const processing = handleMessage(createContext({ id: 'evt-1', type: 'Order' }));
+      await new Promise(resolve => setImmediate(resolve));
+      jest.advanceTimersByTime(500);
+      await processing;
+
+      expect(signal?.aborted).toBe(true);
+      expect(mockProducer.send).toHaveBeenCalledWith(
+        expect.objectContaining({ topic: 'orders.retry.1s' })
+      );
+      expect(consumer.getMetrics().timedOutMessages).toBe(1);
+      expect(consumer.getMetrics().processedEventIdsCount).toBe(0);
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'Message handler timed out',
+        expect.objectContaining({ onTimeout: 'retry', offset: '10' })
+      );
+    });
+
+    test('should send timed out message to DLQ when policy is dlq', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      consumer = new MessageConsumer({
+        handlers: [createMessageHandler('Order', () => new Promise(() => undefined))],
+        processingTimeout: { timeoutMs: 500, onTimeout: 'dlq' }
+      });
+
+      const processing = handleMessage(createContext({ id: 'evt-2', type: 'Order' }));
+      await new Promise(resolve => setImmediate(resolve));
+      jest.advanceTimersByTime(500);
+      await processing;
+
+      const [{ messages }] = mockProducer.send.mock.calls[0];
+      expect(messages[0].headers[DLQ_HEADERS.reason]).toEqual(
+        Buffer.from('Handler timed out after 500ms')
+      );
+      expect(consumer.getMetrics().dlqMessages).toBe(1);
+      expect(consumer.getMetricsRegistry().snapshot().kafka_consumer_errors_total.values).toEqual([
+        { labels: { reason: 'timeout' }, value: 1 }
+      ]);
+    });
+
+    test('should report messages stuck beyond the warning threshold', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      let release: () => void = () => undefined;
+      consumer = new MessageConsumer({
+        handlers: [
+          createMessageHandler(
+            'Order',
+            () =>
+              new Promise<'SUCCESS'>(resolve => {
+                release = () => resolve('SUCCESS');
+              })
+          )
+        ],
+        processingTimeout: { warnAfterMs: 1000, watchdogIntervalMs: 500 }
+      });
+      (consumer as any).watchdog.start();
+
+      const processing = handleMessage(
+        createContext({ id: 'evt-3', type: 'Order' }, { partition: 4, offset: '77' })
+      );
+      await new Promise(resolve => setImmediate(resolve));
+      jest.advanceTimersByTime(1000);
+
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'Message processing exceeded warning threshold',
+        expect.objectContaining({ topic: 'orders', partition: 4, offset: '77' })
+      );
+      expect(consumer.getMetrics().watchdog?.stuckMessages).toBe(1);
+
+      release();
+      await processing;
+      expect(consumer.getMetrics().watchdog?.inFlight).toBe(0);
+      (consumer as any).watchdog.stop();
+    });
+  });
+
+  describe('Rebalance Hooks', () => {
+    const getListener = (eventName: string) =>
+      (mockConsumer.on.mock.calls as unknown as Array<[string, (event: any) => void]>).find(
+        ([name]) => name === eventName
+      )![1];
+
+    test('should invoke assignment hooks and expose rebalance metrics', async () => {
+      const onPartitionsAssigned = jest.fn();
+      const onPartitionsRevoked = jest.fn();
+      consumer = new MessageConsumer({ onPartitionsAssigned, onPartitionsRevoked });
+      await consumer.initialize();
+
+      getListener('consumer.group_join')({ payload: { memberAssignment: { orders: [0, 1] } } });
+      getListener('consumer.rebalancing')({ payload: {} });
+      await (consumer as any).rebalanceListener.whenIdle();
+
+      expect(onPartitionsAssigned).toHaveBeenCalledWith([{ topic: 'orders', partitions: [0, 1] }]);
+      expect(onPartitionsRevoked).toHaveBeenCalledWith([{ topic: 'orders', partitions: [0, 1] }]);
+      expect(consumer.getAssignedPartitions()).toEqual([]);
+      expect(consumer.getMetrics().rebalance).toEqual(
+        expect.objectContaining({ rebalances: 1, assignments: 1, revocations: 1, inProgress: true })
+      );
+    });
+
+    test('should commit pending offsets before revocation hook runs', async () => {
+      const order: string[] = [];
+      mockConsumer.commitOffsets.mockImplementation(async () => {
+        order.push('commit');
+      });
+      consumer = new MessageConsumer({
+        mode: 'batch',
+        commit: { strategy: 'batch' },
+        onPartitionsRevoked: () => {
+          order.push('revoked');
+        }
+      });
+      await consumer.initialize();
+      (consumer as any).offsetCommitter.markProcessed('orders', 0, '41');
+
+      getListener('consumer.group_join')({ payload: { memberAssignment: { orders: [0] } } });
+      getListener('consumer.rebalancing')({ payload: {} });
+      await (consumer as any).rebalanceListener.whenIdle();
+
+      expect(mockConsumer.commitOffsets).toHaveBeenCalledWith([
+        { topic: 'orders', partition: 0, offset: '42' }
+      ]);
+      expect(order).toEqual(['commit', 'revoked']);
+    });
+  });
+
+  describe('Health and Prometheus Metrics', () => {
+    const emit = (eventName: string, payload: unknown = {}) =>
+      (mockConsumer.on.mock.calls as unknown as Array<[string, (event: any) => void]>)
+        .filter(([name]) => name === eventName)
+        .forEach(([, listener]) => listener({ payload }));
+
+    test('should report broker connectivity and group membership', async () => {
+      consumer = new MessageConsumer();
+      expect(consumer.getHealth()).toEqual({
+        state: 'idle',
+        brokerConnected: false,
+        groupMember: false
+      });
+
+      await consumer.initialize();
+      emit('consumer.group_join', { memberAssignment: { orders: [0] } });
+      expect(consumer.getHealth()).toEqual(
+        expect.objectContaining({ brokerConnected: true, groupMember: true })
+      );
+
+      emit('consumer.crash', { error: new Error('broker gone') });
+      emit('consumer.rebalancing');
+      expect(consumer.getHealth()).toEqual(
+        expect.objectContaining({ brokerConnected: false, groupMember: false })
+      );
+    });
+
+    test('should expose consumer counters in Prometheus format', async () => {
+      consumer = new MessageConsumer({
+        handlers: [createOrderCreatedHandler()],
+        defaultMessageType: ORDER_CREATED_EVENT_TYPE
+      });
+      await handleMessage(createContext(orderEvent));
+
+      const metrics = consumer.getPrometheusMetrics();
+      const messages = metrics.find(metric => metric.name === 'kafka_consumer_messages_total');
+
+      expect(messages?.samples).toContainEqual({ labels: { result: 'processed' }, value: 1 });
+      expect(metrics.find(metric => metric.name === 'kafka_consumer_lag_total')).toBeUndefined();
+    });
+  });
+
+  describe('Metrics Registry', () => {
+    test('should record handler duration, end-to-end latency and errors by reason', async () => {
+      const metricsRegistry = new MetricsRegistry();
+      consumer = new MessageConsumer({
+        handlers: [
+          createMessageHandler('Order', async () => 'SUCCESS'),
+          createMessageHandler('Refund', async () => 'DLQ')
+        ],
+        metricsRegistry
+      });
+
+      await handleMessage(
+        createContext({ id: 'evt-1', type: 'Order' }, { timestamp: (Date.now() - 1000).toString() })
+      );
+      await handleMessage(createContext({ id: 'evt-2', type: 'Refund' }));
+      await handleMessage(createContext('{not json'));
+
+      const snapshot = metricsRegistry.snapshot();
+      expect(
+        snapshot.kafka_consumer_handler_duration_ms.values.map(({ labels }) => labels)
+      ).toEqual([
+        { messageType: 'Order', result: 'SUCCESS' },
+        { messageType: 'Refund', result: 'DLQ' }
+      ]);
+      expect(snapshot.kafka_consumer_end_to_end_latency_ms.values).toEqual([
+        { labels: { topic: 'orders' }, value: expect.objectContaining({ count: 1 }) }
+      ]);
+      expect(
+        (snapshot.kafka_consumer_end_to_end_latency_ms.values[0].value as any).sum
+      ).toBeGreaterThanOrEqual(1000);
+      expect(snapshot.kafka_consumer_deserialization_duration_ms.values[0].value).toEqual(
+        expect.objectContaining({ count: 2 })
+      );
+      expect(snapshot.kafka_consumer_errors_total.values).toEqual([
+        { labels: { reason: 'handler_rejected' }, value: 1 },
+        { labels: { reason: 'deserialization' }, value: 1 }
+      ]);
+      expect(consumer.getMetricsRegistry()).toBe(metricsRegistry);
+    });
+
+    test('should label errors with fixed codes and keep details in logs', async () => {
+      consumer = new MessageConsumer({
+        handlers: [createMessageHandler('Order', async () => 'SUCCESS')],
+        unknownMessageTypePolicy: 'dlq'
+      });
+
+      await handleMessage(createContext({ id: 'evt-1', type: 'Refund' }));
+      await handleMessage(createContext({ id: 'evt-2', type: 'Chargeback' }));
+
+      expect(consumer.getMetricsRegistry().snapshot().kafka_consumer_errors_total.values).toEqual([
+        { labels: { reason: 'unknown_type' }, value: 2 }
+      ]);
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ reason: 'No handler registered for message type: Chargeback' })
+      );
+    });
+
+    test('should record batch sizes', async () => {
+      consumer = new MessageConsumer({
+        mode: 'batch',
+        handlers: [createMessageHandler('Order', async () => 'SUCCESS')]
+      });
+      (consumer as any).consumer = mockConsumer;
+
+      await (consumer as any).handleBatch(
+        createBatchPayload(
+          ['1', '2'],
+          [
+            { id: 'a', type: 'Order' },
+            { id: 'b', type: 'Order' }
+          ]
+        )
+      );
+
+      expect(consumer.getMetricsRegistry().snapshot().kafka_consumer_batch_size.values).toEqual([
+        {
+          labels: { topic: 'orders' },
+          value: expect.objectContaining({ count: 1, sum: 2 })
+        }
+      ]);
+    });
+  });
+
+  describe('Message Expiry', () => {
+    const expiredHeaders = () => ({
+      'x-msg-ttl': Buffer.from('1000'),
+      'x-msg-timestamp': Buffer.from(new Date(Date.now() - 5000).toISOString())
+    });
+
+    test('should drop expired messages and count them', async () => {
+      const handle = jest.fn().mockResolvedValue('SUCCESS');
+      consumer = new MessageConsumer({ handlers: [createMessageHandler('Order', handle)] });
+
+      await handleMessage(
+        createContext({ id: 'evt-1', type: 'Order' }, { headers: expiredHeaders() })
+      );
+
+      expect(handle).not.toHaveBeenCalled();
+      expect(mockProducer.send).not.toHaveBeenCalled();
+      expect(consumer.getMetrics()).toEqual(
+        expect.objectContaining({ expiredMessages: 1, skippedMessages: 1 })
+      );
+      expect(
+        consumer.getMetricsRegistry().snapshot().kafka_consumer_expired_messages_total.values
+      ).toEqual([{ labels: { topic: 'orders' }, value: 1 }]);
+    });
+
+    test('should send expired messages to DLQ when configured', async () => {
+      consumer = new MessageConsumer({
+        handlers: [createMessageHandler('Order', jest.fn())],
+        expiry: { onExpired: 'dlq' }
+      });
+
+      await handleMessage(
+        createContext({ id: 'evt-2', type: 'Order' }, { headers: expiredHeaders() })
+      );
+
+      const [{ messages }] = mockProducer.send.mock.calls[0];
+      expect(messages[0].headers[DLQ_HEADERS.reason]).toEqual(Buffer.from('Message expired'));
+    });
+
+    test('should fall back to the Kafka timestamp and process live messages', async () => {
+      const handle = jest.fn().mockResolvedValue('SUCCESS');
+      consumer = new MessageConsumer({ handlers: [createMessageHandler('Order', handle)] });
+
+      await handleMessage(
+        createContext(
+          { id: 'evt-3', type: 'Order' },
+          { headers: { 'x-msg-ttl': Buffer.from('60000') }, timestamp: Date.now().toString() }
+        )
+      );
+      await handleMessage(
+        createContext(
+          { id: 'evt-4', type: 'Order' },
+          { headers: { 'x-msg-ttl': Buffer.from('10') }, timestamp: '1000' }
+        )
+      );
+
+      expect(handle).toHaveBeenCalledTimes(1);
+      expect(consumer.getMetrics().expiredMessages).toBe(1);
+    });
+
+    test('should not check expiry when disabled', () => {
+      consumer = new MessageConsumer({ expiry: { enabled: false } });
+
+      expect(consumer.getMiddlewarePipeline().has('expiry')).toBe(false);
+    });
+  });
+
+  describe('Priority Mode', () => {
+    test('should require valid priority topics', () => {
+      expect(() => new MessageConsumer({ mode: 'priority' })).toThrow(
+        'priority mode requires priorityTopics'
+      );
+      expect(
+        () =>
+          new MessageConsumer({ mode: 'priority', priorityTopics: [{ topic: 'a', priority: 11 }] })
+      ).toThrow('Priority for topic a must be an integer between 0 and 10');
+    });
+
+    test('should subscribe to priority topics and consume them concurrently', async () => {
+      consumer = new MessageConsumer({
+        mode: 'priority',
+        priorityTopics: [
+          { topic: 'orders.high', priority: 9 },
+          { topic: 'orders.low', priority: 1 }
+        ]
+      });
+      await consumer.initialize();
+      mockConsumer.run.mockResolvedValue(undefined);
+
+      await consumer.startConsuming();
+
+      expect(mockConsumer.subscribe.mock.calls.map(([request]) => request.topics)).toEqual([
+        ['orders.high'],
+        ['orders.low']
+      ]);
+      expect(mockConsumer.run).toHaveBeenCalledWith(
+        expect.objectContaining({
+          partitionsConsumedConcurrently: 2,
+          eachBatch: expect.any(Function)
+        })
+      );
+    });
+
+    test('should favour higher priority messages when workers are busy', async () => {
+      const order: string[] = [];
+      let releaseFirst: () => void = () => undefined;
+      const handle = jest.fn(async (event: { id: string }) => {
+        order.push(event.id);
+        if (event.id === 'first') {
+          await new Promise<void>(resolve => {
+            releaseFirst = resolve;
+          });
+        }
+        return 'SUCCESS' as const;
+      });
+      consumer = new MessageConsumer({
+        mode: 'priority',
+        priorityTopics: [
+          { topic: 'orders.high', priority: 9 },
+          { topic: 'orders.low', priority: 0 }
+        ],
+        handlers: [createMessageHandler('Order', handle)]
+      });
+      const dispatch = (topic: string, id: string, headers = {}) =>
+        (consumer as any).dispatchMessage(
+          createContext({ id, type: 'Order' }, { topic, offset: id, headers })
+        );
+
+      const first = dispatch('orders.low', 'first');
+      await new Promise(resolve => setImmediate(resolve));
+      const low = dispatch('orders.low', 'low');
+      const high = dispatch('orders.high', 'high');
+      const boosted = dispatch('orders.low', 'boosted', { 'x-msg-priority': Buffer.from('10') });
+      releaseFirst();
+      await Promise.all([first, low, high, boosted]);
+
+      expect(order).toEqual(['first', 'boosted', 'high', 'low']);
+      expect(consumer.getMetrics().priority?.dispatchedByPriority).toEqual({ 0: 2, 9: 1, 10: 1 });
+    });
+  });
+});
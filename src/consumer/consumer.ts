@@ -1,16 +1,95 @@
-import { Consumer } from 'kafkajs';
-import { createConsumer } from '../common/kafkaClient';
+import {
+  Consumer,
+  EachBatchPayload,
+  KafkaMessage,
+  TopicPartitionOffset,
+  TopicPartitions
+} from 'kafkajs';
 import { config } from '../common/config';
 import { logger } from '../common/logger';
-
-interface OrderCreatedEvent {
-  id: string;
-  orderId: string;
-  customerId: string;
-  amount: number;
-  createdAt: string;
-  status: string;
-}
+import {
+  BatchHandler,
+  HandlerRegistry,
+  MessageContext,
+  MessageHandler,
+  ProcessingResult,
+  UnknownMessageTypePolicy,
+  headerValueToString
+} from '../common/messageHandler';
+import {
+  MessageSerializer,
+  MessageSerializerFactory,
+  SerializationFormat
+} from '../common/messageSerializer';
+import { MetadataManager } from '../common/metadataManager';
+import {
+  ConsumerMiddleware,
+  ConsumerMiddlewareContext,
+  ExpiryPolicy,
+  MiddlewarePipeline,
+  TimeoutPolicy,
+  createDecodeMiddleware,
+  createDedupMiddleware,
+  createExpiryMiddleware,
+  createMiddlewareContext,
+  createRoutingMiddleware,
+  createTimeoutMiddleware,
+  createValidationMiddleware
+} from '../common/middleware';
+import {
+  BackpressureController,
+  BackpressureMetrics,
+  BackpressureOptions
+} from '../common/backpressureController';
+import { LagMonitor, LagMonitorOptions, LagReport } from '../common/lagMonitor';
+import {
+  CircuitBreaker,
+  CircuitBreakerMetrics,
+  CircuitBreakerOptions,
+  CircuitState
+} from '../common/circuitBreaker';
+import { InFlightWatchdog, InFlightWatchdogMetrics } from '../common/inFlightWatchdog';
+import { PartitionsHook, RebalanceListener, RebalanceMetrics } from '../common/rebalanceListener';
+import { PrometheusMetric } from '../common/healthServer';
+import {
+  PriorityScheduler,
+  MIN_PRIORITY,
+  PrioritySchedulerMetrics,
+  clampPriority
+} from '../common/priorityScheduler';
+import {
+  Counter,
+  DEFAULT_SIZE_BUCKETS,
+  Histogram,
+  MetricsRegistry
+} from '../common/metricsRegistry';
+import {
+  SubscriptionInput,
+  TopicSubscription,
+  TopicSubscriptions
+} from '../common/topicSubscriptions';
+import { createAdmin, createConsumer } from '../common/kafkaClient';
+import { DeadLetterOptions, DeadLetterPublisher } from '../common/deadLetterPublisher';
+import {
+  RetryTopicOptions,
+  RetryTopicPublisher,
+  getOriginalCoordinates,
+  getRetryNotBefore
+} from '../common/retryTopics';
+import { DueTimeGate } from '../common/dueTimeGate';
+import { getDefaultDelayTopic } from '../common/delayedDelivery';
+import {
+  IdempotencyStore,
+  IdempotencyStoreMetrics,
+  InMemoryIdempotencyStore
+} from '../common/idempotencyStore';
+import { KeyOrderedDispatcher } from '../common/keyOrderedDispatcher';
+import { OffsetTracker } from '../common/offsetTracker';
+import {
+  OffsetCommitMetrics,
+  OffsetCommitOptions,
+  OffsetCommitter
+} from '../common/offsetCommitter';
 
 interface ConsumerMetrics {
   totalMessages: number;
@@ -18,50 +97,542 @@ interface ConsumerMetrics {
   skippedMessages: number;
   errorMessages: number;
   dlqMessages: number;
+  unknownTypeMessages: number;
+  retriedMessages: number;
+  timedOutMessages: number;
+  expiredMessages: number;
+  processedBatches: number;
+  failedBatches: number;
 }
 
-type ProcessingResult = 'SUCCESS' | 'SKIP' | 'DLQ' | 'ERROR';
+interface ConsumerInstruments {
+  endToEndLatency: Histogram;
+  handlerDuration: Histogram;
+  deserializationDuration: Histogram;
+  batchSize: Histogram;
+  errors: Counter;
+  expired: Counter;
+}
+
+export type ConsumptionMode = 'message' | 'batch' | 'keyOrdered' | 'priority';
+
+export type ConsumerState = 'idle' | 'starting' | 'running' | 'stopping' | 'stopped' | 'failed';
 
-interface MessageContext {
+export type ConsumerStateListener = (state: ConsumerState, previous: ConsumerState) => void;
+
+export interface ExpiryOptions {
+  enabled?: boolean;
+  onExpired?: ExpiryPolicy;
+}
+
+export interface PriorityTopic {
   topic: string;
-  partition: number;
-  offset: string;
-  rawMessage: string;
+  priority: number;
+}
+
+export interface ConsumerHealth {
+  state: ConsumerState;
+  brokerConnected: boolean;
+  groupMember: boolean;
+}
+
+export interface StopOptions {
+  drainTimeoutMs?: number;
+}
+
+export const DEFAULT_DRAIN_TIMEOUT_MS = 30000;
+
+export interface ProcessingTimeoutOptions {
+  timeoutMs?: number;
+  onTimeout?: TimeoutPolicy;
+  warnAfterMs?: number;
+  watchdogIntervalMs?: number;
+}
+
+const CIRCUIT_BREAKER_HOLD = 'circuitBreaker';
+
+const PRIORITY_HEADER = 'x-msg-priority';
+
+export interface ConsumerOptions {
+  subscriptions?: SubscriptionInput[];
+  handlers?: MessageHandler[];
+  unknownMessageTypePolicy?: UnknownMessageTypePolicy;
+  messageTypeField?: string;
+  defaultMessageType?: string;
+  deadLetter?: DeadLetterOptions;
+  retry?: RetryTopicOptions;
+  delayTopic?: string;
+  idempotencyStore?: IdempotencyStore;
+  mode?: ConsumptionMode;
+  batchHandler?: BatchHandler;
+  partitionsConsumedConcurrently?: number;
+  workers?: number;
+  commit?: OffsetCommitOptions;
+  serializationFormat?: SerializationFormat;
+  serializer?: MessageSerializer;
+  backpressure?: BackpressureOptions;
+  lagMonitor?: LagMonitorOptions;
+  circuitBreaker?: CircuitBreakerOptions;
+  processingTimeout?: ProcessingTimeoutOptions;
+  onPartitionsAssigned?: PartitionsHook;
+  onPartitionsRevoked?: PartitionsHook;
+  metricsRegistry?: MetricsRegistry;
+  expiry?: ExpiryOptions;
+  priorityTopics?: PriorityTopic[];
 }
 
 export class MessageConsumer {
   private consumer!: Consumer;
+  private brokerConnected = false;
   private isShuttingDown = false;
   private consumerRunPromise: Promise<void> | null = null;
+  private state: ConsumerState = 'idle';
+  private readonly stateListeners: Set<ConsumerStateListener> = new Set();
+  private stopPromise?: Promise<void>;
+  private draining = false;
+  private inFlight = 0;
+  private readonly idleWaiters: Set<() => void> = new Set();
+  private readonly handlerRegistry: HandlerRegistry;
+  private readonly deadLetterPublisher?: DeadLetterPublisher;
+  private readonly retryPublisher?: RetryTopicPublisher;
+  private retryConsumer?: Consumer;
+  private readonly retryGate = new DueTimeGate(getRetryNotBefore);
+  private readonly keyOrderedDispatcher?: KeyOrderedDispatcher;
+  private readonly priorityScheduler?: PriorityScheduler;
+  private readonly topicPriorities: Map<string, number> = new Map();
+  private readonly offsetTracker = new OffsetTracker();
+  private readonly offsetCommitter: OffsetCommitter;
+  private readonly backpressure: BackpressureController;
+  private lagMonitor?: LagMonitor;
+  private readonly circuitBreaker?: CircuitBreaker;
+  private circuitResumeTimer?: NodeJS.Timeout;
+  private readonly watchdog?: InFlightWatchdog;
+  private readonly rebalanceListener: RebalanceListener;
+  private readonly subscriptions: TopicSubscriptions;
+  private readonly topicRegistries: Map<TopicSubscription, HandlerRegistry> = new Map();
+  private startOffsets: TopicPartitionOffset[] = [];
 
-  private readonly processedEventIds = new Set<string>();
+  private readonly idempotencyStore: IdempotencyStore;
+  private readonly pipeline = new MiddlewarePipeline();
+  private readonly metricsRegistry: MetricsRegistry;
+  private readonly instruments: ConsumerInstruments;
 
   private readonly metrics: ConsumerMetrics = {
     totalMessages: 0,
     processedMessages: 0,
     skippedMessages: 0,
     errorMessages: 0,
-    dlqMessages: 0
+    dlqMessages: 0,
+    unknownTypeMessages: 0,
+    retriedMessages: 0,
+    timedOutMessages: 0,
+    expiredMessages: 0,
+    processedBatches: 0,
+    failedBatches: 0
   };
 
+  constructor(private options: ConsumerOptions = {}) {
+    this.handlerRegistry = this.createRegistry(options.handlers);
+    if (options.mode === 'priority') {
+      if (!options.priorityTopics?.length) {
+        throw new Error('priority mode requires priorityTopics');
+      }
+      options.priorityTopics.forEach(({ topic, priority }) => {
+        if (priority !== clampPriority(priority)) {
+          throw new Error(`Priority for topic ${topic} must be an integer between 0 and 10`);
+        }
+        this.topicPriorities.set(topic, priority);
+      });
+      this.priorityScheduler = new PriorityScheduler(options.workers ?? 1);
+    }
+    this.subscriptions = new TopicSubscriptions(
+      options.subscriptions ??
+        (options.priorityTopics?.length
+          ? options.priorityTopics.map(({ topic }) => topic)
+          : [config.kafkaTopic]),
+      topic => this.isDerivedTopic(topic)
+    );
+    this.subscriptions.getSubscriptions().forEach(subscription => {
+      if (subscription.handlers?.length) {
+        this.topicRegistries.set(subscription, this.createRegistry(subscription.handlers));
+      }
+    });
+    this.idempotencyStore = options.idempotencyStore ?? new InMemoryIdempotencyStore();
+    this.metricsRegistry = options.metricsRegistry ?? new MetricsRegistry();
+    this.instruments = {
+      endToEndLatency: this.metricsRegistry.histogram({
+        name: 'kafka_consumer_end_to_end_latency_ms',
+        help: 'Time from message timestamp to processing completion',
+        labelNames: ['topic']
+      }),
+      handlerDuration: this.metricsRegistry.histogram({
+        name: 'kafka_consumer_handler_duration_ms',
+        help: 'Message handler execution time',
+        labelNames: ['messageType', 'result']
+      }),
+      deserializationDuration: this.metricsRegistry.histogram({
+        name: 'kafka_consumer_deserialization_duration_ms',
+        help: 'Message payload deserialization time',
+        buckets: [0.1, 0.5, 1, 5, 10, 50, 100]
+      }),
+      batchSize: this.metricsRegistry.histogram({
+        name: 'kafka_consumer_batch_size',
+        help: 'Messages per fetched batch',
+        labelNames: ['topic'],
+        buckets: DEFAULT_SIZE_BUCKETS
+      }),
+      errors: this.metricsRegistry.counter({
+        name: 'kafka_consumer_errors_total',
+        help: 'Message processing errors by reason',
+        labelNames: ['reason']
+      }),
+      expired: this.metricsRegistry.counter({
+        name: 'kafka_consumer_expired_messages_total',
+        help: 'Messages discarded because their TTL elapsed',
+        labelNames: ['topic']
+      })
+    };
+    this.pipeline
+      .use(this.createMetricsMiddleware(), 'metrics')
+      .use(this.createOutcomeMiddleware(), 'outcome')
+      .use(
+        createDecodeMiddleware(
+          options.serializer ??
+            MessageSerializerFactory.create(options.serializationFormat ?? 'json'),
+          new MetadataManager(),
+          this.instruments.deserializationDuration
+        ),
+        'decode'
+      );
+    if (options.expiry?.enabled ?? true) {
+      this.pipeline.use(createExpiryMiddleware(options.expiry?.onExpired), 'expiry');
+    }
+    this.pipeline
+      .use(
+        createRoutingMiddleware(topic => this.resolveRegistry(topic)),
+        'routing'
+      )
+      .use(createValidationMiddleware(), 'validation')
+      .use(createDedupMiddleware(this.idempotencyStore), 'dedup');
+    if (options.circuitBreaker && options.circuitBreaker.enabled !== false) {
+      this.circuitBreaker = new CircuitBreaker(options.circuitBreaker);
+      this.circuitBreaker.onStateChange(state => this.handleCircuitStateChange(state));
+      this.pipeline.use(this.createCircuitBreakerMiddleware(this.circuitBreaker), 'circuitBreaker');
+    }
+    const { processingTimeout } = options;
+    if (processingTimeout?.timeoutMs !== undefined) {
+      this.pipeline.use(
+        createTimeoutMiddleware(processingTimeout.timeoutMs, processingTimeout.onTimeout),
+        'timeout'
+      );
+    }
+    if (processingTimeout?.warnAfterMs !== undefined) {
+      this.watchdog = new InFlightWatchdog({
+        warnAfterMs: processingTimeout.warnAfterMs,
+        intervalMs: processingTimeout.watchdogIntervalMs
+      });
+    }
+    if (options.batchHandler && options.mode !== 'batch') {
+      throw new Error('batchHandler requires mode: batch');
+    }
+    if (options.commit?.strategy === 'batch' && (options.mode ?? 'message') === 'message') {
+      throw new Error('commit strategy batch requires mode: batch, keyOrdered or priority');
+    }
+    this.offsetCommitter = new OffsetCommitter(
+      offsets => this.consumer.commitOffsets(offsets),
+      options.commit
+    );
+    this.backpressure = new BackpressureController(
+      topicPartitions => this.consumer.pause(topicPartitions),
+      topicPartitions => this.consumer.resume(topicPartitions),
+      options.backpressure
+    );
+    if (
+      options.mode !== 'keyOrdered' &&
+      !options.batchHandler &&
+      (options.backpressure?.highWaterMark ?? 1) > 1
+    ) {
+      logger.info('In-flight watermarks only build up in keyOrdered mode or with a batchHandler', {
+        highWaterMark: options.backpressure?.highWaterMark
+      });
+    }
+    this.rebalanceListener = new RebalanceListener({
+      onPartitionsAssigned: options.onPartitionsAssigned,
+      onPartitionsRevoked: async partitions => {
+        await this.handlePartitionsRevoked();
+        await options.onPartitionsRevoked?.(partitions);
+      }
+    });
+    if (options.mode === 'keyOrdered') {
+      this.keyOrderedDispatcher = new KeyOrderedDispatcher(options.workers ?? 4);
+    }
+    if (options.deadLetter?.enabled ?? true) {
+      this.deadLetterPublisher = new DeadLetterPublisher(options.deadLetter);
+    }
+    if (options.retry && options.retry.enabled !== false) {
+      this.retryPublisher = new RetryTopicPublisher(options.retry);
+    }
+  }
+
   async initialize(): Promise<void> {
+    if (this.idempotencyStore.open) {
+      await this.idempotencyStore.open();
+    }
     this.consumer = await createConsumer();
-    await this.consumer.subscribe({ topic: config.kafkaTopic, fromBeginning: true });
-    this.setupGracefulShutdown();
-    logger.info(`Subscribed to topic: ${config.kafkaTopic}`);
+    this.brokerConnected = true;
+    this.consumer.on(this.consumer.events.CONNECT, () => {
+      this.brokerConnected = true;
+    });
+    this.consumer.on(this.consumer.events.DISCONNECT, () => {
+      this.brokerConnected = false;
+    });
+    this.consumer.on(this.consumer.events.CRASH, () => {
+      this.brokerConnected = false;
+    });
+    this.rebalanceListener.attach(this.consumer);
+    if (this.deadLetterPublisher) {
+      await this.deadLetterPublisher.connect();
+    }
+    await this.subscribeTopics();
+    if (this.retryPublisher) {
+      await this.initializeRetryConsumer(this.retryPublisher);
+    }
+    if (this.options.lagMonitor && this.options.lagMonitor.enabled !== false) {
+      this.lagMonitor = new LagMonitor({
+        ...this.options.lagMonitor,
+        topics: this.options.lagMonitor.topics ?? this.subscriptions.getTopics()
+      });
+      await this.lagMonitor.start();
+    }
+    logger.info('Subscribed to topics', {
+      topics: this.subscriptions.getTopics(),
+      messageTypes: this.handlerRegistry.getMessageTypes(),
+      unknownMessageTypePolicy: this.handlerRegistry.getUnknownTypePolicy()
+    });
   }
 
-  async startConsuming(): Promise<void> {
-    this.consumerRunPromise = this.consumer.run({
-      eachMessage: async ({ topic, partition, message }) => {
-        await this.handleMessage({
-          topic,
-          partition,
-          offset: message.offset?.toString() || '0',
-          rawMessage: message.value?.toString() || ''
+  private async subscribeTopics(): Promise<void> {
+    const admin = this.subscriptions.requiresAdmin() ? await createAdmin() : undefined;
+
+    try {
+      await this.subscriptions.resolve(admin);
+      this.startOffsets = await this.subscriptions.getStartOffsets(
+        admin,
+        config.kafkaConsumerGroupId
+      );
+    } finally {
+      if (admin) {
+        await admin.disconnect();
+      }
+    }
+
+    const requests = this.subscriptions.getSubscribeRequests();
+    if (requests.length === 0) {
+      throw new Error('Topic subscriptions did not match any topics');
+    }
+
+    for (const request of requests) {
+      await this.consumer.subscribe(request);
+    }
+  }
+
+  private applyStartOffsets(): void {
+    this.startOffsets.forEach(offset => {
+      this.consumer.seek(offset);
+      logger.info('Seeking to configured start offset', offset);
+    });
+    this.startOffsets = [];
+  }
+
+  private createRegistry(handlers: MessageHandler[] = []): HandlerRegistry {
+    const registry = new HandlerRegistry({
+      unknownTypePolicy: this.options.unknownMessageTypePolicy,
+      messageTypeField: this.options.messageTypeField,
+      defaultMessageType: this.options.defaultMessageType
+    });
+    handlers.forEach(handler => registry.register(handler));
+    return registry;
+  }
+
+  private resolveRegistry(topic: string): HandlerRegistry {
+    const subscription = this.subscriptions.findSubscription(topic);
+    return (subscription && this.topicRegistries.get(subscription)) || this.handlerRegistry;
+  }
+
+  private isDerivedTopic(topic: string): boolean {
+    const deadLetter = this.options.deadLetter;
+    return (
+      topic === deadLetter?.topic ||
+      topic === (this.options.delayTopic || getDefaultDelayTopic()) ||
+      topic.endsWith(deadLetter?.topicSuffix ?? '.DLQ') ||
+      /\.retry\.\d+(ms|s|m|h)$/.test(topic)
+    );
+  }
+
+  private async initializeRetryConsumer(retryPublisher: RetryTopicPublisher): Promise<void> {
+    await retryPublisher.connect();
+
+    const retryGroupId = `${config.kafkaConsumerGroupId}${this.options.retry?.groupIdSuffix ?? '.retry'}`;
+    const retryTopics = this.subscriptions
+      .getTopics()
+      .flatMap(topic => retryPublisher.getTierTopics(topic));
+
+    this.retryConsumer = await createConsumer(retryGroupId);
+    await this.retryConsumer.subscribe({ topics: retryTopics, fromBeginning: true });
+    logger.info('Subscribed to retry topics', {
+      retryTopics,
+      groupId: retryGroupId,
+      maxAttempts: retryPublisher.getMaxAttempts()
+    });
+  }
+
+  registerHandler<T>(handler: MessageHandler<T>): void {
+    this.handlerRegistry.register(handler);
+    logger.info('Message handler registered', { messageType: handler.messageType });
+  }
+
+  unregisterHandler(messageType: string): boolean {
+    const removed = this.handlerRegistry.unregister(messageType);
+    if (removed) {
+      logger.info('Message handler unregistered', { messageType });
+    }
+    return removed;
+  }
+
+  getHandlerRegistry(): HandlerRegistry {
+    return this.handlerRegistry;
+  }
+
+  use(middleware: ConsumerMiddleware, name?: string): this {
+    this.pipeline.use(middleware, name);
+    return this;
+  }
+
+  getMiddlewarePipeline(): MiddlewarePipeline {
+    return this.pipeline;
+  }
+
+  async start(): Promise<void> {
+    if (this.state !== 'idle' && this.state !== 'stopped') {
+      throw new Error(`Cannot start consumer in state: ${this.state}`);
+    }
+
+    this.isShuttingDown = false;
+    this.draining = false;
+    this.stopPromise = undefined;
+    this.setState('starting');
+
+    try {
+      await this.initialize();
+      await this.startConsuming();
+      this.setState('running');
+    } catch (error) {
+      this.setState('failed');
+      throw error;
+    }
+  }
+
+  stop(options: StopOptions = {}): Promise<void> {
+    if (!this.stopPromise) {
+      this.stopPromise = this.shutdown(options.drainTimeoutMs ?? DEFAULT_DRAIN_TIMEOUT_MS);
+    }
+    return this.stopPromise;
+  }
+
+  getState(): ConsumerState {
+    return this.state;
+  }
+
+  onStateChange(listener: ConsumerStateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  private setState(state: ConsumerState): void {
+    const previous = this.state;
+    if (previous === state) {
+      return;
+    }
+
+    this.state = state;
+    logger.debug('Consumer state changed', { from: previous, to: state });
+
+    this.stateListeners.forEach(listener => {
+      try {
+        listener(state, previous);
+      } catch (error) {
+        logger.error('Consumer state listener failed', {
+          state,
+          error: error instanceof Error ? error.message : error
         });
       }
     });
+  }
+
+  async startConsuming(): Promise<void> {
+    const partitionsConsumedConcurrently =
+      this.options.partitionsConsumedConcurrently ?? Math.max(1, this.topicPriorities.size);
+    const autoCommit = this.offsetCommitter.isAutoCommit();
+    const runs = [
+      (this.options.mode === 'batch' ||
+      this.options.mode === 'keyOrdered' ||
+      this.options.mode === 'priority'
+        ? this.consumer.run({
+            partitionsConsumedConcurrently,
+            autoCommit,
+            eachBatchAutoResolve: false,
+            eachBatch: payload =>
+              this.trackInFlight(async () => {
+                if (this.keyOrderedDispatcher) {
+                  await this.handleKeyOrderedBatch(this.keyOrderedDispatcher, payload);
+                } else {
+                  await this.handleBatch(payload);
+                }
+              })
+          })
+        : this.consumer.run({
+            partitionsConsumedConcurrently,
+            autoCommit,
+            eachMessage: async ({ topic, partition, message, pause }) => {
+              if (this.draining) {
+                pause();
+                return;
+              }
+
+              await this.trackInFlight(async () => {
+                this.backpressure.acquire(topic, partition);
+                try {
+                  await this.handleMessage(this.buildContext(topic, partition, message));
+                } finally {
+                  this.backpressure.release(topic, partition);
+                }
+                await this.offsetCommitter.afterMessage(topic, partition, message.offset);
+              });
+            }
+          })
+      ).then(() => this.applyStartOffsets())
+    ];
+    this.offsetCommitter.start();
+    this.watchdog?.start();
+
+    if (this.retryConsumer) {
+      runs.push(
+        this.retryConsumer.run({
+          eachBatchAutoResolve: false,
+          eachBatch: async payload => {
+            await this.retryGate.processBatch(payload, message =>
+              this.handleMessage(
+                this.buildContext(payload.batch.topic, payload.batch.partition, message)
+              )
+            );
+          }
+        })
+      );
+    }
+
+    this.consumerRunPromise = Promise.all(runs).then(() => undefined);
 
     try {
       await this.consumerRunPromise;
@@ -75,154 +646,506 @@ export class MessageConsumer {
     }
   }
 
+  private buildContext(topic: string, partition: number, message: KafkaMessage): MessageContext {
+    return {
+      topic,
+      partition,
+      offset: message.offset?.toString() || '0',
+      rawMessage: message.value?.toString() || '',
+      key: message.key?.toString(),
+      headers: message.headers,
+      timestamp: message.timestamp,
+      rawKey: message.key,
+      rawValue: message.value
+    };
+  }
+
+  private async handleBatch(payload: EachBatchPayload): Promise<void> {
+    const { batch, resolveOffset, heartbeat, commitOffsetsIfNecessary, isRunning, isStale } =
+      payload;
+    let lastResolvedOffset: string | undefined;
+    let resolvedCount = 0;
+
+    const markProcessed = (offset: string): void => {
+      resolveOffset(offset);
+      this.offsetCommitter.markProcessed(batch.topic, batch.partition, offset);
+      lastResolvedOffset = offset;
+      resolvedCount++;
+    };
+
+    this.instruments.batchSize.observe(batch.messages.length, { topic: batch.topic });
+
+    try {
+      if (this.options.batchHandler) {
+        this.metrics.totalMessages += batch.messages.length;
+        this.backpressure.acquire(batch.topic, batch.partition, batch.messages.length);
+        try {
+          await this.options.batchHandler({
+            topic: batch.topic,
+            partition: batch.partition,
+            highWatermark: batch.highWatermark,
+            messages: batch.messages.map(message =>
+              this.buildContext(batch.topic, batch.partition, message)
+            ),
+            heartbeat,
+            markProcessed,
+            isRunning: () => isRunning() && !isStale() && !this.isShuttingDown && !this.draining
+          });
+        } finally {
+          this.backpressure.release(batch.topic, batch.partition, batch.messages.length);
+        }
+
+        if (!batch.isEmpty()) {
+          markProcessed(batch.lastOffset());
+        }
+        this.metrics.processedMessages += batch.messages.length;
+      } else {
+        for (const message of batch.messages) {
+          if (
+            !isRunning() ||
+            isStale() ||
+            this.isShuttingDown ||
+            this.draining ||
+            this.backpressure.isPaused(batch.topic, batch.partition)
+          ) {
+            break;
+          }
+
+          this.backpressure.acquire(batch.topic, batch.partition);
+          try {
+            await this.dispatchMessage(this.buildContext(batch.topic, batch.partition, message));
+          } finally {
+            this.backpressure.release(batch.topic, batch.partition);
+          }
+          markProcessed(message.offset);
+          await heartbeat();
+        }
+      }
+
+      await this.offsetCommitter.afterBatch();
+      this.metrics.processedBatches++;
+      logger.debug('Batch processed', {
+        topic: batch.topic,
+        partition: batch.partition,
+        batchSize: batch.messages.length,
+        lastOffset: batch.lastOffset()
+      });
+    } catch (error) {
+      this.metrics.failedBatches++;
+      if (this.options.batchHandler) {
+        this.metrics.processedMessages += resolvedCount;
+        this.metrics.errorMessages++;
+        this.instruments.errors.inc({ reason: 'batch_handler_error' });
+      }
+
+      logger.error('Batch processing failed, committing up to last good offset', {
+        topic: batch.topic,
+        partition: batch.partition,
+        batchSize: batch.messages.length,
+        lastResolvedOffset,
+        error: error instanceof Error ? error.message : error
+      });
+
+      await this.commitAfterFailure(commitOffsetsIfNecessary);
+      throw error;
+    }
+  }
+
+  private async handleKeyOrderedBatch(
+    dispatcher: KeyOrderedDispatcher,
+    payload: EachBatchPayload
+  ): Promise<void> {
+    const { batch, resolveOffset, heartbeat, commitOffsetsIfNecessary, isRunning, isStale } =
+      payload;
+    const { topic, partition } = batch;
+    let failure: { offset: string; error: unknown } | undefined;
+    this.instruments.batchSize.observe(batch.messages.length, { topic });
+
+    const tasks = [];
+    for (const message of batch.messages) {
+      if (
+        !isRunning() ||
+        isStale() ||
+        this.isShuttingDown ||
+        this.draining ||
+        this.backpressure.isPaused(topic, partition)
+      ) {
+        break;
+      }
+
+      const context = this.buildContext(topic, partition, message);
+      this.offsetTracker.track(topic, partition, message.offset);
+      this.backpressure.acquire(topic, partition);
+
+      tasks.push(
+        dispatcher
+          .dispatch(context.key, () => this.handleMessage(context))
+          .finally(() => this.backpressure.release(topic, partition))
+          .then(
+            async () => {
+              const watermark = this.offsetTracker.complete(topic, partition, message.offset);
+              if (watermark !== undefined) {
+                resolveOffset(watermark);
+                this.offsetCommitter.markProcessed(topic, partition, watermark);
+              }
+              await heartbeat();
+            },
+            error => {
+              if (!failure || BigInt(message.offset) < BigInt(failure.offset)) {
+                failure = { offset: message.offset, error };
+              }
+            }
+          )
+      );
+    }
+
+    await Promise.all(tasks);
+
+    if (failure) {
+      this.metrics.failedBatches++;
+      logger.error('Key-ordered batch failed, committing contiguous watermark', {
+        topic,
+        partition,
+        failedOffset: failure.offset,
+        watermark: this.offsetTracker.getWatermark(topic, partition),
+        error: failure.error instanceof Error ? failure.error.message : failure.error
+      });
+
+      this.offsetTracker.reset(topic, partition);
+      await this.commitAfterFailure(commitOffsetsIfNecessary);
+      throw failure.error;
+    }
+
+    await this.offsetCommitter.afterBatch();
+    this.metrics.processedBatches++;
+  }
+
+  private async commitAfterFailure(
+    commitOffsetsIfNecessary: EachBatchPayload['commitOffsetsIfNecessary']
+  ): Promise<void> {
+    if (this.offsetCommitter.isAutoCommit()) {
+      await commitOffsetsIfNecessary();
+    } else {
+      await this.offsetCommitter.flush();
+    }
+  }
+
+  private async trackInFlight(work: () => Promise<void>): Promise<void> {
+    this.inFlight++;
+    try {
+      await work();
+    } finally {
+      this.inFlight--;
+      if (this.inFlight === 0) {
+        this.idleWaiters.forEach(resolve => resolve());
+        this.idleWaiters.clear();
+      }
+    }
+  }
+
+  private dispatchMessage(context: MessageContext): Promise<void> {
+    if (!this.priorityScheduler) {
+      return this.handleMessage(context);
+    }
+    return this.priorityScheduler.schedule(this.resolvePriority(context), () =>
+      this.handleMessage(context)
+    );
+  }
+
+  private resolvePriority(context: MessageContext): number {
+    const header = parseInt(headerValueToString(context.headers?.[PRIORITY_HEADER]) || '', 10);
+    return isNaN(header) ? (this.topicPriorities.get(context.topic) ?? MIN_PRIORITY) : header;
+  }
+
   private async handleMessage(context: MessageContext): Promise<void> {
     if (this.isShuttingDown) {
-      logger.info('Message ignored because shutting down', {
+      logger.info('Message abandoned because consumer is stopping', {
         topic: context.topic,
         partition: context.partition,
         offset: context.offset
       });
-      return;
+      throw new Error('Consumer is stopping');
     }
 
-    const startTime = Date.now();
-    this.metrics.totalMessages++;
+    const untrack = this.watchdog?.track(context.topic, context.partition, context.offset);
+    try {
+      await this.pipeline.execute(createMiddlewareContext(context), ctx => this.invokeHandler(ctx));
+    } finally {
+      untrack?.();
+    }
+  }
+
+  private async invokeHandler(ctx: ConsumerMiddlewareContext): Promise<void> {
+    if (ctx.result) {
+      return;
+    }
+    if (!ctx.handler || !ctx.envelope) {
+      throw new Error('Message reached handler without a decoded envelope and resolved handler');
+    }
 
+    const observe = this.instruments.handlerDuration.startTimer({ messageType: ctx.messageType! });
+    let result: ProcessingResult;
     try {
-      if (!context.rawMessage) {
-        this.logDlqCandidate('Empty message received', context);
-        this.metrics.dlqMessages++;
-        return;
-      }
+      result = await ctx.handler.handle(ctx.event, {
+        ...ctx.message,
+        envelope: ctx.envelope,
+        signal: ctx.signal
+      });
+    } catch (error) {
+      this.recordHandlerLatency(ctx.message, observe({ result: 'EXCEPTION' }));
+      throw error;
+    }
+    this.recordHandlerLatency(ctx.message, observe({ result }));
+    if (!ctx.timedOut) {
+      ctx.result = result;
+    }
+  }
 
-      const parseResult = this.parseMessage(context.rawMessage);
-      if (parseResult.result === 'DLQ') {
-        this.logDlqCandidate('JSON parsing failed', context);
-        this.metrics.dlqMessages++;
-        return;
-      }
+  private recordHandlerLatency(message: MessageContext, durationMs: number): void {
+    if (!this.isDerivedTopic(message.topic)) {
+      this.backpressure.recordLatency(message.topic, message.partition, durationMs);
+    }
+  }
 
-      const event = parseResult.event!;
-      const validationResult = this.validateEventStructure(event);
-      if (validationResult === 'DLQ') {
-        this.logDlqCandidate('Event structure validation failed', context);
-        this.metrics.dlqMessages++;
-        return;
-      }
+  private createMetricsMiddleware(): ConsumerMiddleware {
+    return async (ctx, next) => {
+      this.metrics.totalMessages++;
+
+      try {
+        await next();
+
+        switch (ctx.result) {
+          case 'SUCCESS':
+            this.metrics.processedMessages++;
+            break;
+          case 'SKIP':
+            this.metrics.skippedMessages++;
+            break;
+          case 'ERROR':
+            this.metrics.errorMessages++;
+            this.instruments.errors.inc({ reason: ctx.errorCode ?? 'handler_error' });
+            break;
+          case 'DLQ':
+            this.instruments.errors.inc({ reason: ctx.errorCode ?? 'handler_rejected' });
+            break;
+        }
 
-      if (this.processedEventIds.has(event.id)) {
-        logger.info('Skipping already processed event', {
-          eventId: event.id,
-          orderId: event.orderId,
-          ...context
+        if (ctx.message.timestamp) {
+          this.instruments.endToEndLatency.observe(Date.now() - Number(ctx.message.timestamp), {
+            topic: ctx.message.topic
+          });
+        }
+      } catch (error) {
+        this.instruments.errors.inc({ reason: 'unexpected' });
+        logger.error('Unexpected error in message handling', {
+          error: error instanceof Error ? error.message : error,
+          stack: error instanceof Error ? error.stack : undefined,
+          ...this.describeContext(ctx.message)
         });
-        this.metrics.skippedMessages++;
-        return;
+        this.metrics.errorMessages++;
+        throw error;
+      } finally {
+        if (ctx.unknownMessageType) {
+          this.metrics.unknownTypeMessages++;
+        }
+        if (ctx.expired) {
+          this.metrics.expiredMessages++;
+          this.instruments.expired.inc({ topic: ctx.message.topic });
+        }
+        if (ctx.timedOut) {
+          this.metrics.timedOutMessages++;
+          logger.error('Message handler timed out', {
+            reason: ctx.reason,
+            onTimeout: ctx.result === 'DLQ' ? 'dlq' : 'retry',
+            eventId: ctx.eventId,
+            messageType: ctx.messageType,
+            ...this.describeContext(ctx.message)
+          });
+        }
+        this.logConsumerStats();
       }
+    };
+  }
 
-      const eventCreatedAt = new Date(event.createdAt).getTime();
-      const latencyMs = startTime - eventCreatedAt;
-
-      const processingResult = await this.processOrderEvent(event);
+  private createOutcomeMiddleware(): ConsumerMiddleware {
+    return async (ctx, next) => {
+      await next();
 
-      switch (processingResult) {
+      const { message, eventId, messageType } = ctx;
+      switch (ctx.result) {
         case 'SUCCESS':
-          this.processedEventIds.add(event.id);
-          this.metrics.processedMessages++;
-          logger.info('Successfully processed OrderCreatedEvent', {
-            eventId: event.id,
-            orderId: event.orderId,
-            customerId: event.customerId,
-            amount: event.amount,
-            latencyMs,
-            ...context
+          logger.info('Successfully processed message', {
+            eventId,
+            messageType,
+            latencyMs: message.timestamp ? ctx.startTime - Number(message.timestamp) : undefined,
+            durationMs: Date.now() - ctx.startTime,
+            ...this.describeContext(message)
+          });
+          break;
+
+        case 'SKIP':
+          logger.info('Message skipped', {
+            reason: ctx.reason ?? 'Handler skipped message',
+            eventId,
+            messageType,
+            ...this.describeContext(message)
           });
           break;
 
         case 'ERROR':
           logger.error('Business/technical error during processing (retryable)', {
-            eventId: event.id,
-            orderId: event.orderId,
-            ...context
+            eventId,
+            messageType,
+            ...this.describeContext(message)
           });
-          this.metrics.errorMessages++;
-          throw new Error('Retryable processing error');
+          if (!this.retryPublisher) {
+            throw new Error('Retryable processing error');
+          }
+          await this.scheduleRetry(this.retryPublisher, message);
+          break;
 
         case 'DLQ':
-          this.logDlqCandidate('Business logic rejected event', context);
-          this.metrics.dlqMessages++;
+          await this.sendToDeadLetter(
+            ctx.reason ?? 'Business logic rejected event',
+            message,
+            ctx.error
+          );
           break;
       }
-    } catch (error) {
-      logger.error('Unexpected error in message handling', {
-        error: error instanceof Error ? error.message : error,
-        stack: error instanceof Error ? error.stack : undefined,
-        ...context
-      });
-      this.metrics.errorMessages++;
-      throw error;
-    } finally {
-      this.logConsumerStats();
-    }
+    };
   }
 
-  private parseMessage(rawMessage: string): {
-    result: ProcessingResult;
-    event?: OrderCreatedEvent;
-  } {
-    try {
-      const parsed = JSON.parse(rawMessage);
-      return { result: 'SUCCESS', event: parsed };
-    } catch {
-      return { result: 'DLQ' };
-    }
-  }
+  private createCircuitBreakerMiddleware(circuitBreaker: CircuitBreaker): ConsumerMiddleware {
+    return async (ctx, next) => {
+      if (ctx.result) {
+        return next();
+      }
+
+      const { topic, partition } = ctx.message;
+      if (!circuitBreaker.tryAcquire()) {
+        if (!this.isDerivedTopic(topic)) {
+          this.backpressure.pausePartition(topic, partition, CIRCUIT_BREAKER_HOLD);
+        }
+        throw new Error('Circuit breaker is open');
+      }
 
-  private validateEventStructure(event: any): ProcessingResult {
-    const requiredFields = ['id', 'orderId', 'customerId', 'amount', 'createdAt', 'status'];
+      const startTime = Date.now();
+      try {
+        await next();
+      } catch (error) {
+        circuitBreaker.recordFailure(Date.now() - startTime);
+        throw error;
+      }
 
-    for (const field of requiredFields) {
-      if (!event || typeof event[field] === 'undefined') {
-        return 'DLQ';
+      if (ctx.result === 'ERROR' || ctx.timedOut) {
+        circuitBreaker.recordFailure(Date.now() - startTime);
+      } else {
+        circuitBreaker.recordSuccess(Date.now() - startTime);
       }
+    };
+  }
+
+  private handleCircuitStateChange(state: CircuitState): void {
+    if (this.circuitResumeTimer) {
+      clearTimeout(this.circuitResumeTimer);
+      this.circuitResumeTimer = undefined;
     }
 
-    if (typeof event.amount !== 'number' || event.amount < 0) {
-      return 'DLQ';
+    if (state === 'open') {
+      this.circuitResumeTimer = setTimeout(() => {
+        this.circuitResumeTimer = undefined;
+        this.resumeCircuitPartitions();
+      }, this.circuitBreaker!.getOpenDurationMs());
+      this.circuitResumeTimer.unref();
+    } else if (state === 'closed') {
+      this.resumeCircuitPartitions();
     }
+  }
+
+  private resumeCircuitPartitions(): void {
+    this.backpressure
+      .getPausedBy(CIRCUIT_BREAKER_HOLD)
+      .forEach(({ topic, partitions }) =>
+        partitions.forEach(partition =>
+          this.backpressure.resumePartition(topic, partition, CIRCUIT_BREAKER_HOLD)
+        )
+      );
+  }
 
-    if (isNaN(new Date(event.createdAt).getTime())) {
-      return 'DLQ';
+  private async handlePartitionsRevoked(): Promise<void> {
+    if (!this.offsetCommitter.isAutoCommit() && !this.draining) {
+      await this.offsetCommitter.flush();
     }
+  }
 
-    return 'SUCCESS';
+  private describeContext(
+    context: MessageContext
+  ): Omit<MessageContext, 'headers' | 'rawKey' | 'rawValue'> {
+    const { headers, rawKey, rawValue, ...described } = context;
+    return described;
   }
 
-  private async processOrderEvent(event: OrderCreatedEvent): Promise<ProcessingResult> {
-    try {
-      logger.info('Processing order creation', {
-        eventId: event.id,
-        orderId: event.orderId,
-        customerId: event.customerId,
-        amount: event.amount,
-        status: event.status
-      });
+  private async scheduleRetry(
+    retryPublisher: RetryTopicPublisher,
+    context: MessageContext
+  ): Promise<void> {
+    const original = getOriginalCoordinates(context);
+    const decision = retryPublisher.decide(original.topic, context.headers);
 
-      await new Promise(resolve => setTimeout(resolve, 10));
+    if (decision.exhausted) {
+      await this.sendToDeadLetter(
+        'Retry attempts exhausted',
+        context,
+        `Processing failed after ${retryPublisher.getMaxAttempts()} retry attempts`
+      );
+      return;
+    }
 
-      return 'SUCCESS';
-    } catch (error) {
-      logger.error('Error in business processing', {
-        eventId: event.id,
-        error: error instanceof Error ? error.message : error
-      });
-      return 'ERROR';
+    await retryPublisher.publish(
+      {
+        topic: context.topic,
+        partition: context.partition,
+        offset: context.offset,
+        key: context.rawKey ?? context.key,
+        value: context.rawValue ?? context.rawMessage,
+        headers: context.headers
+      },
+      decision,
+      'Retryable processing error'
+    );
+    this.metrics.retriedMessages++;
+  }
+
+  private async sendToDeadLetter(
+    reason: string,
+    context: MessageContext,
+    error?: unknown
+  ): Promise<void> {
+    this.logDlqCandidate(reason, context, error);
+
+    if (this.deadLetterPublisher) {
+      const original = getOriginalCoordinates(context);
+      await this.deadLetterPublisher.publish(
+        {
+          topic: original.topic,
+          partition: original.partition,
+          offset: original.offset,
+          key: context.rawKey ?? context.key,
+          value: context.rawValue ?? context.rawMessage,
+          headers: context.headers
+        },
+        reason,
+        error
+      );
     }
+
+    this.metrics.dlqMessages++;
   }
 
-  private logDlqCandidate(reason: string, context: MessageContext): void {
+  private logDlqCandidate(reason: string, context: MessageContext, error?: unknown): void {
     logger.error('Dead-letter candidate', {
       reason,
+      error: error instanceof Error ? error.message : error,
       meta: {
         topic: context.topic,
         partition: context.partition,
@@ -240,69 +1163,319 @@ export class MessageConsumer {
         skippedMessages: this.metrics.skippedMessages,
         errorMessages: this.metrics.errorMessages,
         dlqMessages: this.metrics.dlqMessages,
-        processedEventIdsCount: this.processedEventIds.size
+        unknownTypeMessages: this.metrics.unknownTypeMessages,
+        retriedMessages: this.metrics.retriedMessages,
+        processedBatches: this.metrics.processedBatches,
+        failedBatches: this.metrics.failedBatches,
+        processedEventIdsCount: this.idempotencyStore.size()
       }
     });
   }
 
-  getMetrics(): ConsumerMetrics & { processedEventIdsCount: number } {
+  getMetrics(): ConsumerMetrics & {
+    processedEventIdsCount: number;
+    idempotency: IdempotencyStoreMetrics;
+    commits: OffsetCommitMetrics;
+    backpressure: BackpressureMetrics;
+    lag?: LagReport;
+    circuitBreaker?: CircuitBreakerMetrics;
+    watchdog?: InFlightWatchdogMetrics;
+    rebalance: RebalanceMetrics;
+    priority?: PrioritySchedulerMetrics;
+  } {
     return {
       ...this.metrics,
-      processedEventIdsCount: this.processedEventIds.size
+      processedEventIdsCount: this.idempotencyStore.size(),
+      idempotency: this.idempotencyStore.getMetrics(),
+      commits: this.offsetCommitter.getMetrics(),
+      backpressure: this.backpressure.getMetrics(),
+      lag: this.lagMonitor?.getLastReport(),
+      circuitBreaker: this.circuitBreaker?.getMetrics(),
+      watchdog: this.watchdog?.getMetrics(),
+      rebalance: this.rebalanceListener.getMetrics(),
+      priority: this.priorityScheduler?.getMetrics()
     };
   }
 
-  clearProcessedEventIds(): void {
-    this.processedEventIds.clear();
-    logger.info('Cleared processed event IDs cache');
+  getMetricsRegistry(): MetricsRegistry {
+    return this.metricsRegistry;
   }
 
-  private setupGracefulShutdown(): void {
-    const shutdown = async (signal: string) => {
-      if (this.isShuttingDown) {
-        logger.info('Shutdown already in progress, forcing exit...', { signal });
-        process.exit(1);
+  getHealth(): ConsumerHealth {
+    return {
+      state: this.state,
+      brokerConnected: this.brokerConnected,
+      groupMember: this.rebalanceListener.isGroupMember()
+    };
+  }
+
+  getPrometheusMetrics(): PrometheusMetric[] {
+    const metrics = this.getMetrics();
+    const results: Array<[string, number]> = [
+      ['processed', metrics.processedMessages],
+      ['skipped', metrics.skippedMessages],
+      ['error', metrics.errorMessages],
+      ['dlq', metrics.dlqMessages],
+      ['retried', metrics.retriedMessages],
+      ['timed_out', metrics.timedOutMessages],
+      ['expired', metrics.expiredMessages],
+      ['unknown_type', metrics.unknownTypeMessages]
+    ];
+
+    const prometheusMetrics: PrometheusMetric[] = [
+      {
+        name: 'kafka_consumer_messages_received_total',
+        help: 'Messages received by the consumer',
+        type: 'counter',
+        samples: [{ value: metrics.totalMessages }]
+      },
+      {
+        name: 'kafka_consumer_messages_total',
+        help: 'Messages handled by the consumer by result',
+        type: 'counter',
+        samples: results.map(([result, value]) => ({ labels: { result }, value }))
+      },
+      {
+        name: 'kafka_consumer_batches_total',
+        help: 'Batches handled by the consumer by result',
+        type: 'counter',
+        samples: [
+          { labels: { result: 'processed' }, value: metrics.processedBatches },
+          { labels: { result: 'failed' }, value: metrics.failedBatches }
+        ]
+      },
+      {
+        name: 'kafka_consumer_offset_commits_total',
+        help: 'Offset commits by result',
+        type: 'counter',
+        samples: [
+          { labels: { result: 'success' }, value: metrics.commits.commits },
+          { labels: { result: 'failed' }, value: metrics.commits.failedCommits }
+        ]
+      },
+      {
+        name: 'kafka_consumer_in_flight_messages',
+        help: 'Messages currently being processed',
+        type: 'gauge',
+        samples: [{ value: metrics.backpressure.totalInFlight }]
+      },
+      {
+        name: 'kafka_consumer_paused_partitions',
+        help: 'Partitions currently paused',
+        type: 'gauge',
+        samples: [{ value: metrics.backpressure.pausedPartitions }]
+      },
+      {
+        name: 'kafka_consumer_rebalances_total',
+        help: 'Consumer group rebalances',
+        type: 'counter',
+        samples: [{ value: metrics.rebalance.rebalances }]
+      },
+      {
+        name: 'kafka_consumer_processed_event_ids',
+        help: 'Event ids held by the idempotency store',
+        type: 'gauge',
+        samples: [{ value: metrics.processedEventIdsCount }]
       }
+    ];
 
-      logger.info('Shutdown signal received, stopping consumer gracefully...', { signal });
-      await this.gracefulShutdown();
-    };
+    if (metrics.lag) {
+      prometheusMetrics.push(
+        {
+          name: 'kafka_consumer_lag_total',
+          help: 'Total consumer group lag',
+          type: 'gauge',
+          samples: [{ labels: { group: metrics.lag.groupId }, value: metrics.lag.totalLag }]
+        },
+        {
+          name: 'kafka_consumer_lag',
+          help: 'Consumer group lag per partition',
+          type: 'gauge',
+          samples: metrics.lag.partitions.map(({ topic, partition, lag }) => ({
+            labels: { group: metrics.lag!.groupId, topic, partition },
+            value: lag
+          }))
+        }
+      );
+    }
+
+    if (metrics.circuitBreaker) {
+      const { name, state } = metrics.circuitBreaker;
+      prometheusMetrics.push({
+        name: 'kafka_consumer_circuit_breaker_state',
+        help: 'Circuit breaker state (1 for the current state)',
+        type: 'gauge',
+        samples: (['closed', 'open', 'halfOpen'] as CircuitState[]).map(candidate => ({
+          labels: { name, state: candidate },
+          value: candidate === state ? 1 : 0
+        }))
+      });
+    }
+
+    return [...prometheusMetrics, ...this.metricsRegistry.toPrometheus()];
+  }
 
-    process.on('SIGINT', () => shutdown('SIGINT'));
-    process.on('SIGTERM', () => shutdown('SIGTERM'));
+  getAssignedPartitions(): TopicPartitions[] {
+    return this.rebalanceListener.getAssignment();
   }
 
-  private async gracefulShutdown(): Promise<void> {
-    this.isShuttingDown = true;
+  pausePartition(topic: string, partition: number): void {
+    this.backpressure.pausePartition(topic, partition);
+  }
+
+  resumePartition(topic: string, partition: number): void {
+    this.backpressure.resumePartition(topic, partition);
+  }
+
+  async clearProcessedEventIds(): Promise<void> {
+    await this.idempotencyStore.clear();
+    logger.info('Cleared processed event IDs cache');
+  }
+
+  private async shutdown(drainTimeoutMs: number): Promise<void> {
+    this.setState('stopping');
 
     try {
-      logger.info('Stopping consumer and waiting for current processing to complete...');
+      logger.info('Stopping consumer and draining in-flight messages...', { drainTimeoutMs });
+
+      const drained = this.offsetCommitter.isAutoCommit()
+        ? await this.drain(drainTimeoutMs)
+        : await this.drainInFlight(drainTimeoutMs);
+      if (drained) {
+        logger.info('In-flight messages drained and final offsets committed');
+      } else {
+        logger.error('Drain timeout exceeded, abandoning remaining in-flight messages', {
+          drainTimeoutMs
+        });
+      }
+      this.isShuttingDown = true;
+
+      const disconnectTimeoutMs = drained ? undefined : drainTimeoutMs;
 
       if (this.consumer) {
-        await this.consumer.disconnect();
+        await this.disconnectConsumer(this.consumer, 'Consumer', disconnectTimeoutMs);
+        this.brokerConnected = false;
+        await this.rebalanceListener.whenIdle();
+        this.rebalanceListener.detach();
         logger.info('Consumer disconnected successfully');
       }
 
+      this.retryGate.clear();
+      this.watchdog?.stop();
+      if (this.circuitResumeTimer) {
+        clearTimeout(this.circuitResumeTimer);
+        this.circuitResumeTimer = undefined;
+      }
+      this.backpressure.clear();
+      if (this.retryConsumer) {
+        await this.disconnectConsumer(this.retryConsumer, 'Retry consumer', disconnectTimeoutMs);
+        logger.info('Retry consumer disconnected successfully');
+      }
+
+      if (this.retryPublisher) {
+        await this.retryPublisher.disconnect();
+      }
+
+      if (this.lagMonitor) {
+        await this.lagMonitor.stop();
+      }
+
+      if (this.idempotencyStore.close) {
+        await this.idempotencyStore.close();
+      }
+
+      if (this.deadLetterPublisher) {
+        await this.deadLetterPublisher.disconnect();
+      }
+
       logger.info('Graceful shutdown completed', {
         finalMetrics: this.getMetrics()
       });
-
-      process.exit(0);
+      this.setState('stopped');
     } catch (error) {
       logger.error('Error during graceful shutdown', {
         error: error instanceof Error ? error.message : error
       });
-      process.exit(1);
+      this.setState('failed');
+      throw error;
     }
   }
 
-  async stop(): Promise<void> {
-    if (!this.isShuttingDown) {
-      await this.gracefulShutdown();
+  private async drainInFlight(timeoutMs: number): Promise<boolean> {
+    this.draining = true;
+
+    const idle =
+      this.inFlight === 0 ||
+      (await new Promise<boolean>(resolve => {
+        const timer = setTimeout(() => {
+          this.idleWaiters.delete(onIdle);
+          resolve(false);
+        }, timeoutMs);
+        const onIdle = () => {
+          clearTimeout(timer);
+          resolve(true);
+        };
+        this.idleWaiters.add(onIdle);
+      }));
+
+    await this.offsetCommitter.stop();
+    return idle;
+  }
+
+  private async drain(timeoutMs: number): Promise<boolean> {
+    const consumers = [this.consumer, this.retryConsumer].filter(
+      (consumer): consumer is Consumer => !!consumer
+    );
+    const stopped = Promise.all(consumers.map(consumer => consumer.stop())).then(() => true);
+    stopped.catch(() => undefined);
+
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<boolean>(resolve => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+
+    try {
+      return await Promise.race([stopped, timedOut]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async disconnectConsumer(
+    consumer: Consumer,
+    label: string,
+    timeoutMs?: number
+  ): Promise<void> {
+    if (timeoutMs === undefined) {
+      await consumer.disconnect();
+      return;
+    }
+
+    // kafkajs disconnect() waits for the running eachMessage/eachBatch to return, so after a
+    // drain timeout a hung handler would block shutdown forever without this bound.
+    const disconnected = consumer.disconnect().then(() => true);
+    disconnected.catch(error =>
+      logger.error(`${label} disconnect failed after drain timeout`, {
+        error: error instanceof Error ? error.message : error
+      })
+    );
+
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<boolean>(resolve => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+
+    try {
+      const completed = await Promise.race([disconnected.catch(() => true), timedOut]);
+      if (!completed) {
+        logger.error(`${label} disconnect timed out, abandoning connection`, { timeoutMs });
+      }
+    } finally {
+      clearTimeout(timer);
     }
   }
 
   isShuttingDownStatus(): boolean {
-    return this.isShuttingDown;
+    return this.state === 'stopping' || this.state === 'stopped';
   }
 }
@@ -0,0 +1,153 @@
+import { DelayScheduler, createDelayScheduler } from './delayScheduler';
+import { buildDelayHeaders } from '../common/delayedDelivery';
+import { config } from '../common/config';
+
+const mockConsumer = {
+  subscribe: jest.fn(),
+  run: jest.fn(),
+  disconnect: jest.fn()
+};
+
+const mockProducer = {
+  send: jest.fn(),
+  disconnect: jest.fn()
+};
+
+jest.mock('../common/kafkaClient', () => ({
+  createConsumer: jest.fn(() => Promise.resolve(mockConsumer)),
+  createProducer: jest.fn(() => Promise.resolve(mockProducer))
+}));
+
+jest.mock('../common/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const { createConsumer } = require('../common/kafkaClient');
+
+describe('DelayScheduler', () => {
+  let scheduler: DelayScheduler;
+
+  const createPayload = (messages: any[]) => {
+    const resume = jest.fn();
+    return {
+      resume,
+      payload: {
+        batch: { topic: `${config.kafkaTopic}.delay`, partition: 0, messages },
+        resolveOffset: jest.fn(),
+        heartbeat: jest.fn().mockResolvedValue(undefined),
+        pause: jest.fn(() => resume),
+        isRunning: jest.fn(() => true),
+        isStale: jest.fn(() => false)
+      } as any
+    };
+  };
+
+  const delayedMessage = (offset: string, deliverAt: number, targetPartition?: number) => ({
+    offset,
+    key: Buffer.from('reminder-1'),
+    value: Buffer.from('{"id":1}'),
+    headers: {
+      ...buildDelayHeaders(deliverAt, 'orders', targetPartition),
+      source: Buffer.from('test')
+    }
+  });
+
+  const runBatch = async (payload: any): Promise<void> => {
+    const { eachBatch } = mockConsumer.run.mock.calls[0][0];
+    await eachBatch(payload);
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    mockConsumer.subscribe.mockResolvedValue(undefined);
+    mockConsumer.run.mockResolvedValue(undefined);
+    mockConsumer.disconnect.mockResolvedValue(undefined);
+    mockProducer.send.mockResolvedValue([]);
+    mockProducer.disconnect.mockResolvedValue(undefined);
+
+    scheduler = createDelayScheduler();
+    await scheduler.start();
+  });
+
+  afterEach(async () => {
+    await scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  test('should subscribe to the delay topic with its own group', () => {
+    expect(createConsumer).toHaveBeenCalledWith(`${config.kafkaConsumerGroupId}.delay-scheduler`);
+    expect(mockConsumer.subscribe).toHaveBeenCalledWith({
+      topics: [`${config.kafkaTopic}.delay`],
+      fromBeginning: true
+    });
+    expect(mockConsumer.run).toHaveBeenCalledWith(
+      expect.objectContaining({ eachBatchAutoResolve: false })
+    );
+  });
+
+  test('should forward due messages with original key and headers', async () => {
+    const { payload } = createPayload([delayedMessage('1', Date.now() - 1, 2)]);
+
+    await runBatch(payload);
+
+    expect(mockProducer.send).toHaveBeenCalledWith({
+      topic: 'orders',
+      messages: [
+        {
+          partition: 2,
+          key: Buffer.from('reminder-1'),
+          value: Buffer.from('{"id":1}'),
+          headers: { source: Buffer.from('test') }
+        }
+      ]
+    });
+    expect(payload.resolveOffset).toHaveBeenCalledWith('1');
+    expect(scheduler.getMetrics().forwarded).toBe(1);
+  });
+
+  test('should pause the partition until the head message is due', async () => {
+    const { payload, resume } = createPayload([
+      delayedMessage('1', Date.now() + 60000),
+      delayedMessage('2', Date.now() - 1)
+    ]);
+
+    await runBatch(payload);
+
+    expect(mockProducer.send).not.toHaveBeenCalled();
+    expect(payload.pause).toHaveBeenCalledTimes(1);
+    expect(scheduler.getMetrics().pausedPartitions).toBe(1);
+
+    jest.advanceTimersByTime(60000);
+    expect(resume).toHaveBeenCalledTimes(1);
+  });
+
+  test('should drop messages without a target topic', async () => {
+    const { payload } = createPayload([{ offset: '1', key: null, value: null, headers: {} }]);
+
+    await runBatch(payload);
+
+    expect(mockProducer.send).not.toHaveBeenCalled();
+    expect(payload.resolveOffset).toHaveBeenCalledWith('1');
+    expect(scheduler.getMetrics().dropped).toBe(1);
+  });
+
+  test('should not resolve the offset when forwarding fails', async () => {
+    mockProducer.send.mockRejectedValueOnce(new Error('Send failed'));
+    const { payload } = createPayload([delayedMessage('1', Date.now() - 1)]);
+
+    await expect(runBatch(payload)).rejects.toThrow('Send failed');
+    expect(payload.resolveOffset).not.toHaveBeenCalled();
+  });
+
+  test('should disconnect clients on stop', async () => {
+    await scheduler.stop();
+
+    expect(mockConsumer.disconnect).toHaveBeenCalled();
+    expect(mockProducer.disconnect).toHaveBeenCalled();
+  });
+});
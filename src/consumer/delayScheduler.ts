@@ -0,0 +1,135 @@
+import { Consumer, KafkaMessage, Producer } from 'kafkajs';
+import { config } from '../common/config';
+import { createConsumer, createProducer } from '../common/kafkaClient';
+import { logger } from '../common/logger';
+import { registerShutdownSignals } from '../common/shutdownSignals';
+import { headerValueToString } from '../common/messageHandler';
+import { DueTimeGate, DueTimeGateMetrics } from '../common/dueTimeGate';
+import {
+  DELAY_HEADERS,
+  getDefaultDelayTopic,
+  getDeliverAt,
+  stripDelayHeaders
+} from '../common/delayedDelivery';
+
+export interface DelaySchedulerOptions {
+  delayTopic?: string;
+  groupId?: string;
+}
+
+export interface DelaySchedulerMetrics extends DueTimeGateMetrics {
+  forwarded: number;
+  dropped: number;
+}
+
+export class DelayScheduler {
+  private consumer?: Consumer;
+  private producer?: Producer;
+  private readonly delayTopic: string;
+  private readonly groupId: string;
+  private readonly gate = new DueTimeGate(getDeliverAt);
+  private forwarded = 0;
+  private dropped = 0;
+
+  constructor(options: DelaySchedulerOptions = {}) {
+    this.delayTopic = options.delayTopic || getDefaultDelayTopic();
+    this.groupId = options.groupId || `${config.kafkaConsumerGroupId}.delay-scheduler`;
+  }
+
+  async start(): Promise<void> {
+    this.producer = await createProducer();
+    this.consumer = await createConsumer(this.groupId);
+    await this.consumer.subscribe({ topics: [this.delayTopic], fromBeginning: true });
+
+    logger.info('Delay scheduler started', { delayTopic: this.delayTopic, groupId: this.groupId });
+
+    await this.consumer.run({
+      eachBatchAutoResolve: false,
+      eachBatch: payload => this.gate.processBatch(payload, message => this.forward(message))
+    });
+  }
+
+  getMetrics(): DelaySchedulerMetrics {
+    return {
+      ...this.gate.getMetrics(),
+      forwarded: this.forwarded,
+      dropped: this.dropped
+    };
+  }
+
+  async stop(): Promise<void> {
+    this.gate.clear();
+
+    if (this.consumer) {
+      await this.consumer.disconnect();
+      this.consumer = undefined;
+    }
+    if (this.producer) {
+      await this.producer.disconnect();
+      this.producer = undefined;
+    }
+
+    logger.info('Delay scheduler stopped', this.getMetrics());
+  }
+
+  private async forward(message: KafkaMessage): Promise<void> {
+    const targetTopic = headerValueToString(message.headers?.[DELAY_HEADERS.targetTopic]);
+    if (!targetTopic) {
+      this.dropped++;
+      logger.error('Delayed message has no target topic, dropping', {
+        delayTopic: this.delayTopic,
+        offset: message.offset
+      });
+      return;
+    }
+
+    const targetPartition = parseInt(
+      headerValueToString(message.headers?.[DELAY_HEADERS.targetPartition]) || '',
+      10
+    );
+
+    await this.producer!.send({
+      topic: targetTopic,
+      messages: [
+        {
+          partition: isNaN(targetPartition) ? undefined : targetPartition,
+          key: message.key,
+          value: message.value,
+          headers: stripDelayHeaders(message.headers)
+        }
+      ]
+    });
+
+    this.forwarded++;
+    logger.debug('Delayed message forwarded', {
+      targetTopic,
+      deliverAt: getDeliverAt(message),
+      offset: message.offset
+    });
+  }
+}
+
+export const createDelayScheduler = (options?: DelaySchedulerOptions): DelayScheduler => {
+  return new DelayScheduler(options);
+};
+
+async function runDelayScheduler(): Promise<void> {
+  const scheduler = createDelayScheduler();
+
+  registerShutdownSignals(scheduler);
+
+  try {
+    await scheduler.start();
+  } catch (error) {
+    logger.error('Delay scheduler startup failed', {
+      error: error instanceof Error ? error.message : error
+    });
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  runDelayScheduler();
+}
+
+export { runDelayScheduler };
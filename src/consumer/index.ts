@@ -1,5 +1,9 @@
 import { MessageConsumer } from './consumer';
 import { logger } from '../common/logger';
+import { createOrderCreatedHandler, ORDER_CREATED_EVENT_TYPE } from './orderCreatedHandler';
+import { createIdempotencyStore } from '../common/idempotencyStore';
+import { registerShutdownSignals } from '../common/shutdownSignals';
+import { createHealthServer } from '../common/healthServer';
 
 async function runConsumer(): Promise<void> {
   logger.info('Starting Kafka Consumer....');
@@ -9,12 +13,62 @@ async function runConsumer(): Promise<void> {
   logger.info(`Client ID: ${process.env.KAFKA_CLIENT_ID || 'nodejs-kafka-client'}`);
   logger.info(`Group ID: ${process.env.KAFKA_GROUP_ID || 'nodejs-kafka-group'}`);
 
-  const consumer = new MessageConsumer();
+  const consumer = new MessageConsumer({
+    handlers: [createOrderCreatedHandler()],
+    unknownMessageTypePolicy: 'dlq',
+    defaultMessageType: ORDER_CREATED_EVENT_TYPE,
+    retry: { enabled: true },
+    circuitBreaker: { enabled: true },
+    processingTimeout: {
+      timeoutMs: parseInt(process.env.KAFKA_HANDLER_TIMEOUT_MS || '30000', 10),
+      warnAfterMs: parseInt(process.env.KAFKA_HANDLER_WARN_AFTER_MS || '10000', 10)
+    },
+    lagMonitor: {
+      enabled: true,
+      thresholds: [
+        {
+          maxLag: parseInt(process.env.KAFKA_LAG_ALERT_THRESHOLD || '1000', 10),
+          onExceeded: report =>
+            logger.error('Consumer lag threshold exceeded', {
+              groupId: report.groupId,
+              totalLag: report.totalLag,
+              estimatedCatchUpMs: report.estimatedCatchUpMs
+            }),
+          onRecovered: report =>
+            logger.info('Consumer lag back under threshold', {
+              groupId: report.groupId,
+              totalLag: report.totalLag
+            })
+        }
+      ]
+    },
+    idempotencyStore: createIdempotencyStore({
+      filePath: process.env.KAFKA_IDEMPOTENCY_STORE_PATH || ''
+    })
+  });
+
+  const healthServer = createHealthServer({
+    readinessChecks: {
+      brokerConnectivity: () => consumer.getHealth().brokerConnected,
+      groupMembership: () => consumer.getHealth().groupMember
+    },
+    collectors: [() => consumer.getPrometheusMetrics()]
+  });
+
+  registerShutdownSignals({
+    stop: async options => {
+      try {
+        await consumer.stop(options);
+      } finally {
+        await healthServer.stop();
+      }
+    }
+  });
 
   try {
-    await consumer.initialize();
-    logger.info('Consumer initialized.....');
-    await consumer.startConsuming();
+    await healthServer.start();
+    await consumer.start();
+    logger.info('Consumer started.....');
   } catch (error) {
     logger.error('Consumer startup failed', {
       error: error instanceof Error ? error.message : error,
@@ -0,0 +1,65 @@
+import { logger } from '../common/logger';
+import { MessageSchema } from '../common/messageValidator';
+import { MessageHandler, ProcessingResult } from '../common/messageHandler';
+
+export const ORDER_CREATED_EVENT_TYPE = 'OrderCreatedEvent';
+
+export interface OrderCreatedEvent {
+  id: string;
+  orderId: string;
+  customerId: string;
+  amount: number;
+  createdAt: string;
+  status: string;
+}
+
+export class OrderCreatedEventSchema implements MessageSchema {
+  validate(event: any): { isValid: boolean; error?: string } {
+    const requiredFields = ['id', 'orderId', 'customerId', 'amount', 'createdAt', 'status'];
+
+    for (const field of requiredFields) {
+      if (!event || typeof event[field] === 'undefined') {
+        return { isValid: false, error: `Missing required field: ${field}` };
+      }
+    }
+
+    if (typeof event.amount !== 'number' || event.amount < 0) {
+      return { isValid: false, error: 'amount must be a non-negative number' };
+    }
+
+    if (isNaN(new Date(event.createdAt).getTime())) {
+      return { isValid: false, error: 'createdAt must be a valid date' };
+    }
+
+    return { isValid: true };
+  }
+}
+
+export const createOrderCreatedHandler = (): MessageHandler<OrderCreatedEvent> => {
+  return {
+    messageType: ORDER_CREATED_EVENT_TYPE,
+    schema: new OrderCreatedEventSchema(),
+    getEventId: event => event.id,
+    async handle(event: OrderCreatedEvent): Promise<ProcessingResult> {
+      try {
+        logger.info('Processing order creation', {
+          eventId: event.id,
+          orderId: event.orderId,
+          customerId: event.customerId,
+          amount: event.amount,
+          status: event.status
+        });
+
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        return 'SUCCESS';
+      } catch (error) {
+        logger.error('Error in business processing', {
+          eventId: event.id,
+          error: error instanceof Error ? error.message : error
+        });
+        return 'ERROR';
+      }
+    }
+  };
+};
@@ -14,9 +14,20 @@ const mockProducer = {
   })
 };
 
+const mockAdmin = {
+  connect: jest.fn().mockResolvedValue(undefined),
+  disconnect: jest.fn().mockResolvedValue(undefined),
+  fetchTopicMetadata: jest.fn(({ topics }: { topics: string[] }) =>
+    Promise.resolve({
+      topics: topics.map(name => ({ name, partitions: [{}, {}, {}] }))
+    })
+  )
+};
+
 jest.mock('kafkajs', () => ({
   Kafka: jest.fn().mockImplementation(() => ({
-    producer: jest.fn().mockImplementation(() => mockProducer)
+    producer: jest.fn().mockImplementation(() => mockProducer),
+    admin: jest.fn().mockImplementation(() => mockAdmin)
   })),
   CompressionTypes: {
     GZIP: 'gzip',
@@ -184,6 +195,39 @@ describe('Enhanced Producer Integration Tests (Step 4)', () => {
       );
     });
 
+    test('should prefetch partition metadata once and reuse it', async () => {
+      producer = new MessageProducer({
+        partitioner: PartitionerFactory.createHash(),
+        serializationFormat: 'string'
+      });
+
+      await producer.initialize();
+      await producer.sendMessage('first', 'key-1');
+      await producer.sendMessage('second', 'key-2');
+
+      expect(mockAdmin.connect).toHaveBeenCalledTimes(1);
+      expect(mockAdmin.fetchTopicMetadata).toHaveBeenCalledTimes(1);
+      expect(producer.getMetrics().topicMetadata).toEqual(
+        expect.objectContaining({ topics: 1, hits: 2, misses: 0 })
+      );
+    });
+
+    test('should fail explicitly when partition metadata is unavailable', async () => {
+      mockAdmin.fetchTopicMetadata.mockRejectedValueOnce(new Error('broker unreachable'));
+      mockAdmin.fetchTopicMetadata.mockRejectedValueOnce(new Error('broker unreachable'));
+      producer = new MessageProducer({
+        partitioner: PartitionerFactory.createHash(),
+        serializationFormat: 'string'
+      });
+
+      await producer.initialize();
+
+      await expect(producer.sendMessage('test message', 'test-key')).rejects.toThrow(
+        'Partition metadata unavailable for topic'
+      );
+      expect(mockProducer.send).not.toHaveBeenCalled();
+    });
+
     test('should update partitioner', async () => {
       producer = new MessageProducer({});
       await producer.initialize();
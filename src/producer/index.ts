@@ -3,6 +3,7 @@ import { logger } from '../common/logger';
 import { JsonMessageSchema } from '../common/messageValidator';
 import { CompressionTypes } from 'kafkajs';
 import * as readline from 'readline';
+import { createHealthServer, HealthServer } from '../common/healthServer';
 
 // Utility function to get required environment variable
 function getRequiredEnvVar(name: string): string {
@@ -50,6 +51,8 @@ async function main(): Promise<void> {
     }
   });
 
+  const healthServer = await startHealthServer(producer);
+
   try {
     await producer.initialize();
 
@@ -75,6 +78,32 @@ async function main(): Promise<void> {
     process.exit(1);
   } finally {
     await producer.disconnect();
+    await healthServer?.stop();
+  }
+}
+
+async function startHealthServer(producer: MessageProducer): Promise<HealthServer | undefined> {
+  const port = process.env.PRODUCER_HEALTH_PORT;
+  if (!port) {
+    return undefined;
+  }
+
+  try {
+    const healthServer = createHealthServer({
+      port: parseInt(port, 10),
+      readinessChecks: {
+        producerConnected: () => producer.isConnected()
+      },
+      collectors: [() => producer.getPrometheusMetrics()]
+    });
+    await healthServer.start();
+    return healthServer;
+  } catch (error) {
+    logger.error('Producer health server failed to start', {
+      port,
+      error: error instanceof Error ? error.message : error
+    });
+    return undefined;
   }
 }
 
@@ -100,12 +129,18 @@ async function interactiveMode(producer: MessageProducer): Promise<void> {
         };
 
         try {
-          await producer.sendMessage(messageObject, `msg-${messageObject.messageId}`, {
-            'content-type': getRequiredEnvVar('KAFKA_CONTENT_TYPE'),
-            'producer-mode': getRequiredEnvVar('KAFKA_PRODUCER_MODE')
-          });
+          const report = await producer.sendMessage(
+            messageObject,
+            `msg-${messageObject.messageId}`,
+            {
+              'content-type': getRequiredEnvVar('KAFKA_CONTENT_TYPE'),
+              'producer-mode': getRequiredEnvVar('KAFKA_PRODUCER_MODE')
+            }
+          );
           logger.info(getRequiredEnvVar('KAFKA_SUCCESS_MESSAGE'), {
-            messageId: messageObject.messageId
+            messageId: messageObject.messageId,
+            partition: report.partition,
+            offset: report.offset
           });
         } catch (error) {
           logger.error('Failed to send message:', error);
@@ -1,6 +1,10 @@
 import { MessageProducer, ProducerOptions } from './producer';
 import { JsonMessageSchema, TextMessageSchema } from '../common/messageValidator';
 import { CompressionTypes } from 'kafkajs';
+import { MetricsRegistry } from '../common/metricsRegistry';
+import { config } from '../common/config';
+import { TopicMetadataCache } from '../common/topicMetadataCache';
+import { HashPartitioner } from '../common/partitioners';
 
 const mockKafka = {
   producer: jest.fn()
@@ -9,11 +13,19 @@ const mockKafka = {
 const mockProducer = {
   connect: jest.fn(),
   disconnect: jest.fn(),
-  send: jest.fn()
+  send: jest.fn(),
+  sendBatch: jest.fn()
+};
+
+const mockAdmin = {
+  connect: jest.fn(),
+  disconnect: jest.fn(),
+  fetchTopicMetadata: jest.fn()
 };
 
 jest.mock('../common/kafkaClient', () => ({
-  createKafka: jest.fn(() => mockKafka)
+  createKafka: jest.fn(() => mockKafka),
+  createAdmin: jest.fn(() => mockAdmin)
 }));
 
 jest.mock('../common/logger', () => ({
@@ -36,6 +48,17 @@ describe('MessageProducer', () => {
     mockProducer.connect.mockResolvedValue(undefined);
     mockProducer.disconnect.mockResolvedValue(undefined);
     mockProducer.send.mockResolvedValue(undefined);
+    mockProducer.sendBatch.mockResolvedValue(undefined);
+    mockAdmin.connect.mockResolvedValue(undefined);
+    mockAdmin.disconnect.mockResolvedValue(undefined);
+    mockAdmin.fetchTopicMetadata.mockImplementation(({ topics }: { topics: string[] }) =>
+      Promise.resolve({
+        topics: topics.map(name => ({
+          name,
+          partitions: [{ partitionId: 0 }, { partitionId: 1 }, { partitionId: 2 }]
+        }))
+      })
+    );
   });
 
   afterEach(async () => {
@@ -187,6 +210,256 @@ describe('MessageProducer', () => {
     });
   });
 
+  describe('Topic Metadata', () => {
+    test('should invalidate cached metadata on stale metadata errors', async () => {
+      const topicMetadataCache = new TopicMetadataCache();
+      const invalidate = jest.spyOn(topicMetadataCache, 'invalidate');
+      producer = new MessageProducer({ enableValidation: false, topicMetadataCache });
+      await producer.initialize();
+      mockProducer.send.mockRejectedValueOnce(
+        Object.assign(new Error('This server does not host this topic-partition'), {
+          type: 'UNKNOWN_TOPIC_OR_PARTITION'
+        })
+      );
+
+      await expect(producer.sendMessage({ id: 1 })).rejects.toThrow(
+        'This server does not host this topic-partition'
+      );
+
+      expect(invalidate).toHaveBeenCalledWith(config.kafkaTopic);
+    });
+  });
+
+  describe('Delivery Reports', () => {
+    const recordMetadata = (partition: number, baseOffset: string) => ({
+      topicName: config.kafkaTopic,
+      partition,
+      errorCode: 0,
+      baseOffset
+    });
+
+    test('should return a delivery report with ids from message metadata', async () => {
+      producer = new MessageProducer({ enableValidation: false });
+      await producer.initialize();
+      mockProducer.send.mockResolvedValueOnce([recordMetadata(1, '42')]);
+
+      const report = await producer.sendMessage({ id: 1 }, 'key', undefined, {
+        messageId: 'msg-1',
+        correlationId: 'corr-1'
+      });
+
+      expect(report).toEqual(
+        expect.objectContaining({
+          topic: config.kafkaTopic,
+          partition: 1,
+          baseOffset: '42',
+          offset: '42',
+          messageId: 'msg-1',
+          correlationId: 'corr-1',
+          timestamp: expect.any(String)
+        })
+      );
+    });
+
+    test('should return one report per batch message', async () => {
+      producer = new MessageProducer({ enableValidation: false });
+      await producer.initialize();
+      mockProducer.sendBatch.mockResolvedValueOnce([recordMetadata(0, '7')]);
+
+      const result = await producer.sendBatch([{ message: { id: 1 } }, { message: { id: 2 } }]);
+
+      expect(result.accepted.map(entry => entry.report?.offset)).toEqual(['7', '8']);
+    });
+
+    test('should invoke onDelivery for successes and failures', async () => {
+      const onDelivery = jest.fn();
+      producer = new MessageProducer({ enableValidation: false, onDelivery });
+      await producer.initialize();
+      mockProducer.send.mockResolvedValueOnce([recordMetadata(0, '1')]);
+      mockProducer.send.mockRejectedValueOnce(new Error('broker down'));
+
+      await producer.sendMessage({ id: 1 }, undefined, undefined, { messageId: 'ok' });
+      await expect(
+        producer.sendMessage({ id: 2 }, undefined, undefined, { messageId: 'failed' })
+      ).rejects.toThrow('broker down');
+
+      expect(onDelivery).toHaveBeenCalledTimes(2);
+      expect(onDelivery.mock.calls[0][0]).toEqual(
+        expect.objectContaining({ messageId: 'ok', offset: '1' })
+      );
+      expect(onDelivery.mock.calls[0][0].error).toBeUndefined();
+      expect(onDelivery.mock.calls[1][0]).toEqual(
+        expect.objectContaining({ messageId: 'failed', error: new Error('broker down') })
+      );
+    });
+
+    test('should let kafkajs partition sends to unknown topics without a partitioner', async () => {
+      mockAdmin.fetchTopicMetadata.mockRejectedValue(
+        new Error('This server does not host this topic')
+      );
+      producer = new MessageProducer({ enableValidation: false });
+      await producer.initialize();
+
+      const report = await producer.sendMessage({ id: 1 }, 'key');
+
+      expect(mockAdmin.fetchTopicMetadata).not.toHaveBeenCalled();
+      expect(mockProducer.send.mock.calls[0][0].messages[0].partition).toBeUndefined();
+      expect(report).toEqual(expect.objectContaining({ topic: config.kafkaTopic }));
+    });
+
+    test('should not fail the send when onDelivery throws', async () => {
+      producer = new MessageProducer({
+        enableValidation: false,
+        onDelivery: () => {
+          throw new Error('callback failed');
+        }
+      });
+      await producer.initialize();
+
+      await expect(producer.sendMessage({ id: 1 })).resolves.toBeDefined();
+      expect(mockLogger.error).toHaveBeenCalledWith('Delivery callback failed', expect.any(Object));
+    });
+  });
+
+  describe('Delayed Delivery', () => {
+    beforeEach(async () => {
+      producer = new MessageProducer({ enableValidation: false });
+      await producer.initialize();
+    });
+
+    test('should send delayed message to the delay topic with due-time headers', async () => {
+      const before = Date.now();
+      await producer.sendMessage({ id: 1 }, 'reminder-1', { source: 'test' }, undefined, {
+        delayMs: 30 * 60 * 1000
+      });
+
+      const call = mockProducer.send.mock.calls[0][0];
+      const sent = call.messages[0];
+      expect(call.topic).toBe(`${config.kafkaTopic}.delay`);
+      expect(sent.key).toEqual(Buffer.from('reminder-1'));
+      expect(sent.headers.source).toEqual(Buffer.from('test'));
+      expect(sent.headers['x-delay-target-topic']).toEqual(Buffer.from(config.kafkaTopic));
+      expect(
+        parseInt(sent.headers['x-delay-deliver-at'].toString(), 10) - before
+      ).toBeGreaterThanOrEqual(30 * 60 * 1000);
+    });
+
+    test('should send delayed messages to the KAFKA_DELAY_TOPIC topic when set', async () => {
+      process.env.KAFKA_DELAY_TOPIC = 'orders.scheduled';
+      try {
+        await producer.sendMessage({ id: 1 }, undefined, undefined, undefined, { delayMs: 1000 });
+      } finally {
+        delete process.env.KAFKA_DELAY_TOPIC;
+      }
+
+      expect(mockProducer.send.mock.calls[0][0].topic).toBe('orders.scheduled');
+    });
+
+    test('should use configured delay topic and absolute deliverAt', async () => {
+      producer = new MessageProducer({ enableValidation: false, delayTopic: 'reminders.delay' });
+      await producer.initialize();
+      const deliverAt = new Date('2030-01-01T00:00:00Z');
+
+      await producer.sendMessage({ id: 1 }, undefined, undefined, undefined, { deliverAt });
+
+      const call = mockProducer.send.mock.calls[0][0];
+      expect(call.topic).toBe('reminders.delay');
+      expect(call.messages[0].headers['x-delay-deliver-at']).toEqual(
+        Buffer.from(deliverAt.getTime().toString())
+      );
+    });
+
+    test('should reject conflicting delay options', async () => {
+      await expect(
+        producer.sendMessage({ id: 1 }, undefined, undefined, undefined, {
+          deliverAt: Date.now(),
+          delayMs: 1000
+        })
+      ).rejects.toThrow('Specify either deliverAt or delayMs, not both');
+      expect(mockProducer.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Buffered Sending', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('should batch buffered sends until lingerMs elapses', async () => {
+      producer = new MessageProducer({
+        enableValidation: false,
+        config: { batching: { maxBatchSize: 10, lingerMs: 50 } }
+      });
+      await producer.initialize();
+
+      const sends = [producer.send({ id: 1 }, 'a'), producer.send({ id: 2 }, 'b')];
+      await Promise.resolve();
+      await Promise.resolve();
+      expect(mockProducer.send).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(50);
+      await Promise.all(sends);
+
+      expect(mockProducer.send).toHaveBeenCalledTimes(1);
+      expect(mockProducer.send.mock.calls[0][0].messages).toHaveLength(2);
+      expect(producer.getMetrics()).toEqual(
+        expect.objectContaining({ messagesSent: 2, sendRequests: 1 })
+      );
+    });
+
+    test('should flush as soon as maxBatchSize is reached', async () => {
+      producer = new MessageProducer({
+        enableValidation: false,
+        config: { batching: { maxBatchSize: 2, lingerMs: 10000 } }
+      });
+      await producer.initialize();
+
+      await Promise.all([producer.send({ id: 1 }), producer.send({ id: 2 })]);
+
+      expect(mockProducer.send).toHaveBeenCalledTimes(1);
+    });
+
+    test('should flush buffered messages on disconnect', async () => {
+      producer = new MessageProducer({
+        enableValidation: false,
+        config: { batching: { lingerMs: 10000 } }
+      });
+      await producer.initialize();
+
+      const pending = producer.send({ id: 1 });
+      await producer.disconnect();
+      await pending;
+
+      expect(mockProducer.send).toHaveBeenCalledTimes(1);
+      expect(mockProducer.send.mock.invocationCallOrder[0]).toBeLessThan(
+        mockProducer.disconnect.mock.invocationCallOrder[0]
+      );
+    });
+
+    test('should reject buffered sends when buffer memory is exhausted', async () => {
+      producer = new MessageProducer({
+        enableValidation: false,
+        config: { batching: { lingerMs: 10000, bufferMemory: 2048, onBufferFull: 'reject' } }
+      });
+      await producer.initialize();
+
+      const first = producer.send({ text: 'x'.repeat(1000) });
+      await expect(producer.send({ text: 'y'.repeat(1000) })).rejects.toThrow(
+        'Producer buffer memory exhausted'
+      );
+
+      await producer.flush();
+      await first;
+      expect(producer.getMetrics().buffer).toEqual(
+        expect.objectContaining({ bufferedBytes: 0, rejectedAppends: 1 })
+      );
+    });
+  });
+
   describe('Batch Sending', () => {
     beforeEach(async () => {
       producer = new MessageProducer({
@@ -208,13 +481,28 @@ describe('MessageProducer', () => {
 
       await producer.sendBatch(messages);
 
-      expect(mockProducer.send).toHaveBeenCalledTimes(2);
+      expect(mockProducer.sendBatch).toHaveBeenCalledTimes(2);
+      expect(mockProducer.send).not.toHaveBeenCalled();
       expect(mockLogger.info).toHaveBeenCalledWith(
         'Batch messages sent successfully',
         expect.objectContaining({ messageCount: 3 })
       );
     });
 
+    test('should send chunks back to back without waiting for lingerMs', async () => {
+      producer = new MessageProducer({
+        enableValidation: false,
+        config: { batching: { maxBatchSize: 1, lingerMs: 60000 } }
+      });
+      await producer.initialize();
+      const started = Date.now();
+
+      await producer.sendBatch([{ message: { id: 1 } }, { message: { id: 2 } }]);
+
+      expect(mockProducer.sendBatch).toHaveBeenCalledTimes(2);
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+
     test('should validate all messages in batch', async () => {
       producer = new MessageProducer({
         enableValidation: true,
@@ -230,20 +518,264 @@ describe('MessageProducer', () => {
       ];
 
       await expect(producer.sendBatch(messages)).rejects.toThrow('Batch message validation failed');
-      expect(mockProducer.send).not.toHaveBeenCalled();
+      expect(mockProducer.sendBatch).not.toHaveBeenCalled();
     });
 
     test('should handle batch send errors', async () => {
       const messages = [{ message: { text: 'Message 1' } }, { message: { text: 'Message 2' } }];
 
-      mockProducer.send.mockRejectedValue(new Error('Batch send failed'));
+      mockProducer.sendBatch.mockRejectedValue(new Error('Batch send failed'));
+
+      const result = await producer.sendBatch(messages);
 
-      await expect(producer.sendBatch(messages)).rejects.toThrow('Batch send failed');
+      expect(result.accepted).toEqual([]);
+      expect(result.failed).toEqual([
+        { index: 0, reason: 'Batch send failed' },
+        { index: 1, reason: 'Batch send failed' }
+      ]);
+      expect(result.chunks).toEqual([
+        { index: 0, messageIndexes: [0, 1], sent: false, error: 'Batch send failed' }
+      ]);
       expect(mockLogger.error).toHaveBeenCalledWith(
         'Failed to send batch messages',
         expect.any(Object)
       );
     });
+
+    test('should report which chunks reached the broker', async () => {
+      const messages = [1, 2, 3, 4, 5].map(id => ({ message: { text: `Message ${id}` } }));
+      mockProducer.sendBatch
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('broker down'));
+
+      const result = await producer.sendBatch(messages);
+
+      expect(mockProducer.sendBatch).toHaveBeenCalledTimes(2);
+      expect(result.accepted.map(entry => entry.index)).toEqual([0, 1]);
+      expect(result.failed.map(entry => entry.index)).toEqual([2, 3, 4]);
+      expect(result.chunks).toEqual([
+        { index: 0, messageIndexes: [0, 1], sent: true },
+        { index: 1, messageIndexes: [2, 3], sent: false, error: 'broker down' },
+        {
+          index: 2,
+          messageIndexes: [4],
+          sent: false,
+          error: 'Not sent because an earlier chunk failed'
+        }
+      ]);
+    });
+
+    test('should skip invalid messages with skipInvalid policy', async () => {
+      producer = new MessageProducer({
+        enableValidation: true,
+        schema: new TextMessageSchema(),
+        serializationFormat: 'string',
+        invalidMessagePolicy: 'skipInvalid'
+      });
+      await producer.initialize();
+
+      const result = await producer.sendBatch([
+        { message: 'Valid message 1' },
+        { message: 123 },
+        { message: 'Valid message 3' }
+      ]);
+
+      expect(mockProducer.sendBatch).toHaveBeenCalledTimes(1);
+      expect(mockProducer.sendBatch.mock.calls[0][0].topicMessages[0].messages).toHaveLength(2);
+      expect(result.accepted.map(entry => entry.index)).toEqual([0, 2]);
+      expect(result.rejected).toEqual([
+        { index: 1, reason: expect.stringContaining('Batch message validation failed') }
+      ]);
+    });
+
+    test('should send invalid messages to the dead-letter topic with dlqInvalid policy', async () => {
+      producer = new MessageProducer({
+        enableValidation: true,
+        schema: new TextMessageSchema(),
+        serializationFormat: 'string'
+      });
+      await producer.initialize();
+
+      const result = await producer.sendBatch(
+        [{ message: 'Valid message 1' }, { message: 123, key: 'bad' }],
+        { invalidMessagePolicy: 'dlqInvalid' }
+      );
+
+      const dlqCall = mockProducer.send.mock.calls[0][0];
+      expect(dlqCall.topic).toBe(`${config.kafkaTopic}.DLQ`);
+      expect(dlqCall.messages[0].key).toEqual(Buffer.from('bad'));
+      expect(dlqCall.messages[0].headers['x-dlq-reason']).toEqual(Buffer.from('Validation failed'));
+      expect(result.rejected).toEqual([
+        {
+          index: 1,
+          reason: expect.any(String),
+          deadLetterTopic: `${config.kafkaTopic}.DLQ`
+        }
+      ]);
+      expect(result.accepted.map(entry => entry.index)).toEqual([0]);
+    });
+
+    test('should dead-letter invalid messages next to their routed topic', async () => {
+      producer = new MessageProducer({
+        enableRouting: true,
+        schema: {
+          validate: message =>
+            typeof message === 'string'
+              ? { isValid: false, error: 'Pre-encoded payloads are not accepted' }
+              : { isValid: true }
+        },
+        invalidMessagePolicy: 'dlqInvalid'
+      });
+      await producer.initialize();
+      producer.addRoutingRule({
+        id: 'priority',
+        name: 'Priority orders',
+        priority: 1,
+        condition: message => typeof message === 'string' && message.includes('high'),
+        targetTopic: 'orders.priority'
+      });
+
+      const result = await producer.sendBatch([
+        { message: { id: 1 } },
+        { message: '{"priority":"high"}' }
+      ]);
+
+      const dlqCall = mockProducer.send.mock.calls[0][0];
+      expect(dlqCall.topic).toBe('orders.priority.DLQ');
+      expect(dlqCall.messages[0].value).toEqual(Buffer.from('{"priority":"high"}'));
+      expect(dlqCall.messages[0].headers['x-dlq-original-topic']).toEqual(
+        Buffer.from('orders.priority')
+      );
+      expect(result.rejected).toEqual([
+        { index: 1, reason: expect.any(String), deadLetterTopic: 'orders.priority.DLQ' }
+      ]);
+      expect(producer.getMetrics().messagesSent).toBe(1);
+    });
+
+    test('should record invalid messages as failed when dead-lettering fails', async () => {
+      producer = new MessageProducer({
+        enableValidation: true,
+        schema: new TextMessageSchema(),
+        serializationFormat: 'string',
+        invalidMessagePolicy: 'dlqInvalid'
+      });
+      await producer.initialize();
+      mockProducer.send.mockRejectedValueOnce(new Error('dlq down'));
+
+      const result = await producer.sendBatch([{ message: 123 }, { message: 'Valid' }]);
+
+      expect(result.failed).toEqual([{ index: 0, reason: 'Dead-letter publish failed: dlq down' }]);
+      expect(result.accepted.map(entry => entry.index)).toEqual([1]);
+    });
+
+    test('should record messages that fail to serialize as failed without dropping the batch', async () => {
+      producer = new MessageProducer({ enableValidation: false });
+      await producer.initialize();
+      const circular: Record<string, unknown> = { id: 2 };
+      circular.self = circular;
+
+      const result = await producer.sendBatch([
+        { message: { id: 1 } },
+        { message: circular },
+        { message: { id: 3 } }
+      ]);
+
+      expect(result.failed).toEqual([{ index: 1, reason: expect.any(String) }]);
+      expect(result.accepted.map(entry => entry.index)).toEqual([0, 2]);
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'Failed to prepare batch message',
+        expect.objectContaining({ index: 1 })
+      );
+    });
+
+    test('should record messages as failed when partition metadata is unavailable', async () => {
+      producer = new MessageProducer({
+        enableValidation: false,
+        enableRouting: true,
+        partitioner: new HashPartitioner()
+      });
+      await producer.initialize();
+      producer.addRoutingRule({
+        id: 'audit',
+        name: 'Audit events',
+        priority: 1,
+        condition: message => message.type === 'audit',
+        targetTopic: 'audit'
+      });
+      mockAdmin.fetchTopicMetadata.mockRejectedValueOnce(new Error('broker unreachable'));
+
+      const result = await producer.sendBatch([
+        { message: { type: 'audit' } },
+        { message: { type: 'order' } }
+      ]);
+
+      expect(result.failed).toEqual([
+        {
+          index: 0,
+          reason: 'Partition metadata unavailable for topic audit: broker unreachable'
+        }
+      ]);
+      expect(result.accepted.map(entry => entry.index)).toEqual([1]);
+    });
+  });
+
+  describe('Batch Routing and Metadata', () => {
+    test('should route each message and group sends by topic', async () => {
+      producer = new MessageProducer({ enableValidation: false, enableRouting: true });
+      await producer.initialize();
+      producer.addRoutingRule({
+        id: 'priority',
+        name: 'Priority orders',
+        priority: 1,
+        condition: message => message.priority === 'high',
+        targetTopic: 'orders.priority'
+      });
+      mockProducer.sendBatch.mockResolvedValueOnce([
+        { topicName: config.kafkaTopic, partition: 0, errorCode: 0, baseOffset: '10' },
+        { topicName: 'orders.priority', partition: 0, errorCode: 0, baseOffset: '20' }
+      ]);
+
+      const result = await producer.sendBatch([
+        { message: { id: 1 } },
+        { message: { id: 2, priority: 'high' } },
+        { message: { id: 3 } }
+      ]);
+
+      const { topicMessages, compression, timeout } = mockProducer.sendBatch.mock.calls[0][0];
+      expect(mockProducer.sendBatch).toHaveBeenCalledTimes(1);
+      expect(compression).toBeUndefined();
+      expect(timeout).toBe(30000);
+      expect(topicMessages.map((group: any) => [group.topic, group.messages.length])).toEqual([
+        [config.kafkaTopic, 2],
+        ['orders.priority', 1]
+      ]);
+      expect(result.accepted.map(entry => [entry.index, entry.report?.offset])).toEqual([
+        [0, '10'],
+        [1, '20'],
+        [2, '11']
+      ]);
+    });
+
+    test('should attach metadata headers with per-message overrides', async () => {
+      producer = new MessageProducer({
+        enableValidation: false,
+        defaultMetadata: { source: 'batch-test' }
+      });
+      await producer.initialize();
+
+      const result = await producer.sendBatch([
+        { message: { id: 1 }, metadata: { correlationId: 'corr-1' } },
+        { message: { id: 2 }, headers: { custom: 'value' } }
+      ]);
+
+      const [first, second] = mockProducer.sendBatch.mock.calls[0][0].topicMessages[0].messages;
+      expect(first.headers['x-msg-correlationId']).toEqual(Buffer.from('corr-1'));
+      expect(first.headers['x-msg-source']).toEqual(Buffer.from('batch-test'));
+      expect(first.headers['x-msg-messageId']).toBeDefined();
+      expect(second.headers.custom).toEqual(Buffer.from('value'));
+      expect(result.accepted[0].report?.correlationId).toBe('corr-1');
+      expect(result.accepted[1].report?.messageId).toEqual(expect.any(String));
+    });
   });
 
   describe('Configuration Management', () => {
@@ -318,6 +850,83 @@ describe('MessageProducer', () => {
     });
   });
 
+  describe('Metrics', () => {
+    test('should track connection state', async () => {
+      producer = new MessageProducer();
+      expect(producer.isConnected()).toBe(false);
+
+      await producer.initialize();
+      expect(producer.isConnected()).toBe(true);
+
+      await producer.disconnect();
+      expect(producer.isConnected()).toBe(false);
+    });
+
+    test('should count sent messages and failed sends', async () => {
+      producer = new MessageProducer({ enableValidation: false });
+      await producer.initialize();
+
+      await producer.sendMessage({ text: 'one' });
+      await producer.sendBatch([{ message: { text: 'two' } }, { message: { text: 'three' } }]);
+      mockProducer.send.mockRejectedValueOnce(new Error('broker down'));
+      await expect(producer.sendMessage({ text: 'four' })).rejects.toThrow('broker down');
+
+      expect(producer.getMetrics()).toEqual(
+        expect.objectContaining({ messagesSent: 3, sendRequests: 2, failedSends: 1 })
+      );
+    });
+
+    test('should expose Prometheus metrics', async () => {
+      producer = new MessageProducer({ enableValidation: false });
+      await producer.initialize();
+      await producer.sendMessage({ text: 'one' });
+
+      const metrics = producer.getPrometheusMetrics();
+
+      expect(metrics.map(metric => metric.name)).toEqual([
+        'kafka_producer_messages_sent_total',
+        'kafka_producer_send_requests_total',
+        'kafka_producer_buffered_bytes',
+        'kafka_producer_send_duration_ms',
+        'kafka_producer_serialization_duration_ms',
+        'kafka_producer_batch_size',
+        'kafka_producer_errors_total'
+      ]);
+      expect(metrics[0].samples).toEqual([{ value: 1 }]);
+      expect(metrics[3].samples).toContainEqual({
+        name: 'kafka_producer_send_duration_ms_count',
+        labels: { topic: config.kafkaTopic },
+        value: 1
+      });
+    });
+
+    test('should record histograms and errors in the metrics registry', async () => {
+      const metricsRegistry = new MetricsRegistry();
+      producer = new MessageProducer({ schema: new JsonMessageSchema(), metricsRegistry });
+      await producer.initialize();
+
+      await producer.sendBatch([{ message: { text: 'a' } }, { message: { text: 'b' } }]);
+      await expect(producer.sendMessage('not json')).rejects.toThrow('Message validation failed');
+      mockProducer.send.mockRejectedValueOnce(new Error('broker down'));
+      await expect(producer.sendMessage({ text: 'c' })).rejects.toThrow('broker down');
+
+      const snapshot = metricsRegistry.snapshot();
+      expect(snapshot.kafka_producer_batch_size.values).toEqual([
+        {
+          labels: { topic: config.kafkaTopic },
+          value: expect.objectContaining({ count: 1, sum: 2 })
+        }
+      ]);
+      expect(snapshot.kafka_producer_serialization_duration_ms.values[0].value).toEqual(
+        expect.objectContaining({ count: 3 })
+      );
+      expect(snapshot.kafka_producer_errors_total.values).toEqual([
+        { labels: { reason: 'validation_failed' }, value: 1 },
+        { labels: { reason: 'send_failed' }, value: 1 }
+      ]);
+    });
+  });
+
   describe('Message Chunking', () => {
     test('should chunk messages correctly', () => {
       producer = new MessageProducer();
@@ -1,4 +1,12 @@
-import { Producer, CompressionTypes } from 'kafkajs';
+import {
+  Producer,
+  CompressionTypes,
+  Message,
+  ProducerRecord,
+  RecordMetadata,
+  TopicMessages
+} from 'kafkajs';
+import { performance } from 'perf_hooks';
 import { createKafka } from '../common/kafkaClient';
 import { config } from '../common/config';
 import { logger } from '../common/logger';
@@ -21,6 +29,28 @@ import {
   TransactionOptions
 } from '../common/transactionManager';
 import { MetadataManager, EnhancedMessageMetadata } from '../common/metadataManager';
+import { PrometheusMetric } from '../common/healthServer';
+import {
+  Counter,
+  DEFAULT_SIZE_BUCKETS,
+  Histogram,
+  MetricsRegistry
+} from '../common/metricsRegistry';
+import {
+  buildDelayHeaders,
+  DelayOptions,
+  getDefaultDelayTopic,
+  resolveDeliverAt
+} from '../common/delayedDelivery';
+import { DLQ_HEADERS } from '../common/deadLetterPublisher';
+import {
+  isStaleMetadataError,
+  TopicMetadataCache,
+  TopicMetadataCacheMetrics,
+  TopicMetadataCacheOptions
+} from '../common/topicMetadataCache';
+import { RecordAccumulator, RecordAccumulatorMetrics } from '../common/recordAccumulator';
+import { DeliveryCallback, DeliveryReport, matchRecordMetadata } from '../common/deliveryReport';
 
 export interface ProducerOptions {
   serializationFormat?: SerializationFormat;
@@ -34,13 +64,100 @@ export interface ProducerOptions {
   enableTransactions?: boolean;
   transactionOptions?: TransactionOptions;
   defaultMetadata?: Partial<EnhancedMessageMetadata>;
+  metricsRegistry?: MetricsRegistry;
+  delayTopic?: string;
+  onDelivery?: DeliveryCallback;
+  invalidMessagePolicy?: InvalidMessagePolicy;
+  invalidMessageTopic?: string;
+  topicMetadataCache?: TopicMetadataCache;
+  metadataCache?: TopicMetadataCacheOptions;
+}
+
+export interface BatchMessage {
+  message: any;
+  key?: string;
+  headers?: Record<string, string>;
+  metadata?: Partial<EnhancedMessageMetadata>;
+}
+
+export type InvalidMessagePolicy = 'failFast' | 'skipInvalid' | 'dlqInvalid';
+
+export interface BatchSendOptions {
+  invalidMessagePolicy?: InvalidMessagePolicy;
+}
+
+export interface BatchMessageResult {
+  index: number;
+  reason?: string;
+  report?: DeliveryReport;
+  deadLetterTopic?: string;
+}
+
+export interface BatchChunkResult {
+  index: number;
+  messageIndexes: number[];
+  sent: boolean;
+  error?: string;
+}
+
+export interface BatchSendResult {
+  accepted: BatchMessageResult[];
+  rejected: BatchMessageResult[];
+  failed: BatchMessageResult[];
+  chunks: BatchChunkResult[];
+}
+
+interface InvalidBatchMessage {
+  index: number;
+  message: any;
+  key?: string;
+  headers?: Record<string, string>;
+  metadata?: Partial<EnhancedMessageMetadata>;
+  reason: string;
+}
+
+export type SendOptions = DelayOptions;
+
+interface PreparedRecord {
+  topic: string;
+  message: Message;
+  serializedLength: number;
+  deliverAt?: number;
+}
+
+interface ProducerInstruments {
+  sendDuration: Histogram;
+  serializationDuration: Histogram;
+  batchSize: Histogram;
+  errors: Counter;
+}
+
+export interface ProducerMetrics {
+  messagesSent: number;
+  sendRequests: number;
+  failedSends: number;
+  lastSendLatencyMs?: number;
+  averageSendLatencyMs: number;
+  maxSendLatencyMs: number;
+  buffer: RecordAccumulatorMetrics;
+  topicMetadata: TopicMetadataCacheMetrics;
 }
 
 export class MessageProducer {
   private producer!: Producer;
+  private connected = false;
+  private readonly metrics = {
+    messagesSent: 0,
+    sendRequests: 0,
+    failedSends: 0,
+    totalSendLatencyMs: 0,
+    maxSendLatencyMs: 0,
+    lastSendLatencyMs: undefined as number | undefined
+  };
   private validator: MessageValidator;
   private serializer: MessageSerializer;
   private enableValidation: boolean;
+  private readonly invalidMessagePolicy: InvalidMessagePolicy;
   private compressionType?: CompressionTypes;
   private batchingConfig: { maxBatchSize: number; lingerMs: number };
   private timeoutMs: number;
@@ -48,9 +165,15 @@ export class MessageProducer {
   private partitioner?: Partitioner;
   private transactionManager?: TransactionManager;
   private metadataManager: MetadataManager;
+  private readonly metricsRegistry: MetricsRegistry;
+  private readonly instruments: ProducerInstruments;
+  private readonly accumulator: RecordAccumulator<DeliveryReport>;
+  private readonly preparingRecords: Set<Promise<PreparedRecord>> = new Set();
+  private readonly topicMetadata: TopicMetadataCache;
 
   constructor(private options: ProducerOptions = {}) {
     this.enableValidation = options.enableValidation ?? true;
+    this.invalidMessagePolicy = options.invalidMessagePolicy ?? 'failFast';
     this.validator = new MessageValidator(options.schema);
     this.serializer = MessageSerializerFactory.create(options.serializationFormat ?? 'json');
     this.compressionType = options.config?.compression?.type;
@@ -59,11 +182,52 @@ export class MessageProducer {
       lingerMs: options.config?.batching?.lingerMs ?? 100
     };
     this.timeoutMs = options.config?.timeout?.requestTimeoutMs ?? 30000;
+    this.accumulator = new RecordAccumulator<DeliveryReport>(
+      (topic, messages) =>
+        this.sendRecord({
+          topic,
+          compression: this.compressionType,
+          timeout: this.timeoutMs,
+          messages
+        }),
+      {
+        ...this.batchingConfig,
+        bufferMemory: options.config?.batching?.bufferMemory,
+        onBufferFull: options.config?.batching?.onBufferFull,
+        maxBlockMs: options.config?.batching?.maxBlockMs
+      }
+    );
     if (options.enableRouting) {
       this.messageRouter = new MessageRouter(options.defaultRoutingTopic || config.kafkaTopic);
     }
     this.partitioner = options.partitioner;
+    this.topicMetadata =
+      options.topicMetadataCache ?? new TopicMetadataCache(options.metadataCache);
     this.metadataManager = new MetadataManager(options.defaultMetadata);
+    this.metricsRegistry = options.metricsRegistry ?? new MetricsRegistry();
+    this.instruments = {
+      sendDuration: this.metricsRegistry.histogram({
+        name: 'kafka_producer_send_duration_ms',
+        help: 'Produce request latency',
+        labelNames: ['topic']
+      }),
+      serializationDuration: this.metricsRegistry.histogram({
+        name: 'kafka_producer_serialization_duration_ms',
+        help: 'Message serialization time',
+        buckets: [0.1, 0.5, 1, 5, 10, 50, 100]
+      }),
+      batchSize: this.metricsRegistry.histogram({
+        name: 'kafka_producer_batch_size',
+        help: 'Messages per produce request',
+        labelNames: ['topic'],
+        buckets: DEFAULT_SIZE_BUCKETS
+      }),
+      errors: this.metricsRegistry.counter({
+        name: 'kafka_producer_errors_total',
+        help: 'Producer errors by reason',
+        labelNames: ['reason']
+      })
+    };
   }
 
   async initialize(): Promise<void> {
@@ -79,6 +243,7 @@ export class MessageProducer {
     const producerConfig = configBuilder.build();
     this.producer = kafka.producer(producerConfig);
     await this.producer.connect();
+    this.connected = true;
 
     if (this.options.enableTransactions) {
       this.transactionManager = new TransactionManager(
@@ -98,169 +263,167 @@ export class MessageProducer {
       partitioner: this.partitioner?.getName(),
       transactions: !!this.transactionManager
     });
+
+    if (this.partitioner) {
+      await this.topicMetadata.prefetch(this.getKnownTopics());
+    }
   }
 
   async sendMessage(
     message: any,
     key?: string,
     headers?: Record<string, string>,
-    metadata?: Partial<EnhancedMessageMetadata>
-  ): Promise<void> {
+    metadata?: Partial<EnhancedMessageMetadata>,
+    options: SendOptions = {}
+  ): Promise<DeliveryReport> {
     try {
-      const enhancedMetadata = this.metadataManager.createMetadata(metadata);
-      if (this.enableValidation) {
-        const validationResult = this.validator.validate(message);
-        if (!validationResult.isValid) {
-          const error = new Error(
-            `Message validation failed: ${validationResult.error || 'Unknown validation error'}`
-          );
-          logger.error('Message validation failed', {
-            topic: config.kafkaTopic,
-            message,
-            validationError: validationResult.error
-          });
-          throw error;
-        }
-      }
-      let targetTopic = config.kafkaTopic;
-      if (this.messageRouter) {
-        const routingResult = this.messageRouter.route(message, enhancedMetadata);
-        targetTopic = routingResult.topic;
-        if (routingResult.matchedRule) {
-          logger.debug('Message routed', {
-            originalTopic: config.kafkaTopic,
-            targetTopic,
-            rule: routingResult.matchedRule.name
-          });
-        }
-      }
+      const record = await this.prepareRecord(message, key, headers, metadata, options);
 
-      const serializedMessage = this.serializer.serialize(message);
-      const combinedHeaders = { ...headers };
-      const metadataHeaders = this.metadataManager.metadataToHeaders(enhancedMetadata);
-      const kafkaHeaders: Record<string, Buffer> = {};
-      Object.entries(metadataHeaders).forEach(([key, value]) => {
-        kafkaHeaders[key] = value;
-      });
-
-      if (combinedHeaders) {
-        Object.keys(combinedHeaders).forEach(headerKey => {
-          kafkaHeaders[headerKey] = Buffer.from(combinedHeaders[headerKey]);
-        });
-      }
-
-      let partition: number | undefined;
-      if (this.partitioner) {
-        const partitionCount = (await this.getTopicPartitionCount(targetTopic)) || 3;
-        partition = this.partitioner.partition({
-          topic: targetTopic,
-          partitionCount,
-          message,
-          key,
-          metadata: enhancedMetadata
-        });
-      }
-
-      await this.producer.send({
-        topic: targetTopic,
-        messages: [
-          {
-            partition,
-            key: key ? Buffer.from(key) : undefined,
-            value: Buffer.from(serializedMessage),
-            headers: Object.keys(kafkaHeaders).length > 0 ? kafkaHeaders : undefined,
-            timestamp: Date.now().toString()
-          }
-        ]
+      const [report] = await this.sendRecord({
+        topic: record.topic,
+        messages: [record.message]
       });
 
       logger.info('Message sent successfully', {
         topic: config.kafkaTopic,
-        messageLength: serializedMessage.length,
+        messageLength: record.serializedLength,
         hasKey: !!key,
-        hasHeaders: !!headers
+        hasHeaders: !!headers,
+        ...(record.deliverAt !== undefined && {
+          delayTopic: record.topic,
+          deliverAt: record.deliverAt
+        })
       });
+      return report;
     } catch (error) {
       logger.error('Failed to send message', { topic: config.kafkaTopic, message, error });
       throw error;
     }
   }
 
-  async sendBatch(
-    messages: Array<{ message: any; key?: string; headers?: Record<string, string> }>
-  ): Promise<void> {
+  async send(
+    message: any,
+    key?: string,
+    headers?: Record<string, string>,
+    metadata?: Partial<EnhancedMessageMetadata>,
+    options: SendOptions = {}
+  ): Promise<DeliveryReport> {
+    const preparing = this.prepareRecord(message, key, headers, metadata, options);
+    this.preparingRecords.add(preparing);
     try {
-      const kafkaMessages = [];
-      const partitionCount = this.partitioner
-        ? (await this.getTopicPartitionCount(config.kafkaTopic)) || 3
-        : undefined;
-
-      for (const { message, key, headers } of messages) {
-        if (this.enableValidation) {
-          const validationResult = this.validator.validate(message);
-          if (!validationResult.isValid) {
-            const error = new Error(
-              `Batch message validation failed: ${validationResult.error || 'Unknown validation error'}`
-            );
-            logger.error('Batch message validation failed', {
-              topic: config.kafkaTopic,
-              message,
-              validationError: validationResult.error
-            });
-            throw error;
-          }
-        }
+      const record = await preparing;
+      return this.accumulator.append(record.topic, record.message);
+    } finally {
+      this.preparingRecords.delete(preparing);
+    }
+  }
 
-        const serializedMessage = this.serializer.serialize(message);
-        const kafkaHeaders: Record<string, Buffer> = {};
+  async flush(): Promise<void> {
+    await Promise.allSettled(Array.from(this.preparingRecords));
+    await this.accumulator.flush();
+  }
 
-        if (headers) {
-          Object.keys(headers).forEach(headerKey => {
-            kafkaHeaders[headerKey] = Buffer.from(headers[headerKey]);
-          });
-        }
+  async sendBatch(
+    messages: BatchMessage[],
+    options: BatchSendOptions = {}
+  ): Promise<BatchSendResult> {
+    const policy = options.invalidMessagePolicy ?? this.invalidMessagePolicy;
+    const result: BatchSendResult = { accepted: [], rejected: [], failed: [], chunks: [] };
 
-        let partition: number | undefined;
-        if (this.partitioner && partitionCount) {
-          const enhancedMetadata = this.metadataManager.createMetadata(
-            this.options.defaultMetadata || {}
-          );
-          partition = this.partitioner.partition({
+    try {
+      const records: Array<{ index: number; record: PreparedRecord }> = [];
+      const invalidMessages: InvalidBatchMessage[] = [];
+
+      for (const [index, { message, key, headers, metadata }] of messages.entries()) {
+        const validationError = this.getValidationError(message);
+        if (validationError !== undefined) {
+          const reason = `Batch message validation failed: ${validationError}`;
+          logger.error('Batch message validation failed', {
             topic: config.kafkaTopic,
-            partitionCount,
             message,
-            key,
-            metadata: enhancedMetadata
+            validationError,
+            policy
           });
+          if (policy === 'failFast') {
+            throw new Error(reason);
+          }
+          invalidMessages.push({ index, message, key, headers, metadata, reason });
+          continue;
         }
 
-        kafkaMessages.push({
-          partition,
-          key: key ? Buffer.from(key) : undefined,
-          value: serializedMessage,
-          headers: Object.keys(kafkaHeaders).length > 0 ? kafkaHeaders : undefined,
-          timestamp: Date.now().toString()
-        });
+        try {
+          records.push({
+            index,
+            record: await this.buildRecord(message, key, headers, metadata, {})
+          });
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          logger.error('Failed to prepare batch message', { index, error });
+          result.failed.push({ index, reason });
+        }
       }
 
-      const chunks = this.chunkMessages(kafkaMessages, this.batchingConfig.maxBatchSize);
-      for (const chunk of chunks) {
-        await this.producer.send({
-          topic: config.kafkaTopic,
-          compression: this.compressionType,
-          timeout: this.timeoutMs,
-          messages: chunk
-        });
+      if (policy === 'dlqInvalid' && invalidMessages.length > 0) {
+        await this.deadLetterInvalid(invalidMessages, result);
+      } else {
+        invalidMessages.forEach(({ index, reason }) => result.rejected.push({ index, reason }));
+      }
 
-        if (chunks.length > 1 && this.batchingConfig.lingerMs > 0) {
-          await new Promise(resolve => setTimeout(resolve, this.batchingConfig.lingerMs));
+      const chunks = this.chunkMessages(records, this.batchingConfig.maxBatchSize);
+      let chunkFailed = false;
+      for (const [chunkIndex, chunk] of chunks.entries()) {
+        const chunkResult: BatchChunkResult = {
+          index: chunkIndex,
+          messageIndexes: chunk.map(entry => entry.index),
+          sent: false
+        };
+        result.chunks.push(chunkResult);
+
+        if (chunkFailed) {
+          chunkResult.error = 'Not sent because an earlier chunk failed';
+          chunk.forEach(({ index }) => result.failed.push({ index, reason: chunkResult.error }));
+          continue;
+        }
+
+        const groups = this.groupByTopic(chunk);
+        try {
+          const reports = await this.sendTopicMessages(
+            groups.map(({ topic, entries }) => ({
+              topic,
+              messages: entries.map(entry => entry.record.message)
+            }))
+          );
+          chunkResult.sent = true;
+          groups.forEach(({ entries }, groupIndex) =>
+            entries.forEach(({ index }, position) =>
+              result.accepted.push({ index, report: reports[groupIndex][position] })
+            )
+          );
+        } catch (error) {
+          chunkFailed = true;
+          chunkResult.error = error instanceof Error ? error.message : String(error);
+          chunk.forEach(({ index }) => result.failed.push({ index, reason: chunkResult.error }));
+          logger.error('Failed to send batch messages', {
+            topics: groups.map(group => group.topic),
+            chunk: chunkIndex,
+            messageCount: chunk.length,
+            error
+          });
+          continue;
         }
       }
 
-      logger.info('Batch messages sent successfully', {
-        topic: config.kafkaTopic,
-        messageCount: messages.length
-      });
+      result.accepted.sort((a, b) => a.index - b.index);
+
+      if (result.failed.length === 0) {
+        logger.info('Batch messages sent successfully', {
+          topics: Array.from(new Set(records.map(entry => entry.record.topic))),
+          messageCount: messages.length,
+          accepted: result.accepted.length,
+          rejected: result.rejected.length
+        });
+      }
+      return result;
     } catch (error) {
       logger.error('Failed to send batch messages', {
         topic: config.kafkaTopic,
@@ -290,6 +453,7 @@ export class MessageProducer {
         maxBatchSize: config.batching.maxBatchSize ?? this.batchingConfig.maxBatchSize,
         lingerMs: config.batching.lingerMs ?? this.batchingConfig.lingerMs
       };
+      this.accumulator.configure(this.batchingConfig);
     }
     if (config.timeout) {
       this.timeoutMs = config.timeout.requestTimeoutMs ?? this.timeoutMs;
@@ -363,35 +527,377 @@ export class MessageProducer {
     };
   }
 
-  private chunkMessages<T>(messages: T[], chunkSize: number): T[][] {
-    const chunks: T[][] = [];
-    for (let i = 0; i < messages.length; i += chunkSize) {
-      chunks.push(messages.slice(i, i + chunkSize));
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  getMetrics(): ProducerMetrics {
+    return {
+      messagesSent: this.metrics.messagesSent,
+      sendRequests: this.metrics.sendRequests,
+      failedSends: this.metrics.failedSends,
+      lastSendLatencyMs: this.metrics.lastSendLatencyMs,
+      averageSendLatencyMs:
+        this.metrics.sendRequests === 0
+          ? 0
+          : this.metrics.totalSendLatencyMs / this.metrics.sendRequests,
+      maxSendLatencyMs: this.metrics.maxSendLatencyMs,
+      buffer: this.accumulator.getMetrics(),
+      topicMetadata: this.topicMetadata.getMetrics()
+    };
+  }
+
+  getPrometheusMetrics(): PrometheusMetric[] {
+    const metrics = this.getMetrics();
+    return [
+      {
+        name: 'kafka_producer_messages_sent_total',
+        help: 'Messages acknowledged by the broker',
+        type: 'counter',
+        samples: [{ value: metrics.messagesSent }]
+      },
+      {
+        name: 'kafka_producer_send_requests_total',
+        help: 'Produce requests by result',
+        type: 'counter',
+        samples: [
+          { labels: { result: 'success' }, value: metrics.sendRequests },
+          { labels: { result: 'failed' }, value: metrics.failedSends }
+        ]
+      },
+      {
+        name: 'kafka_producer_buffered_bytes',
+        help: 'Bytes held in the send buffer awaiting delivery',
+        type: 'gauge',
+        samples: [{ value: metrics.buffer.bufferedBytes }]
+      },
+      ...this.metricsRegistry.toPrometheus()
+    ];
+  }
+
+  getMetricsRegistry(): MetricsRegistry {
+    return this.metricsRegistry;
+  }
+
+  private async prepareRecord(
+    message: any,
+    key: string | undefined,
+    headers: Record<string, string> | undefined,
+    metadata: Partial<EnhancedMessageMetadata> | undefined,
+    options: SendOptions
+  ): Promise<PreparedRecord> {
+    const validationError = this.getValidationError(message);
+    if (validationError !== undefined) {
+      logger.error('Message validation failed', {
+        topic: config.kafkaTopic,
+        message,
+        validationError
+      });
+      throw new Error(`Message validation failed: ${validationError}`);
     }
-    return chunks;
+    return this.buildRecord(message, key, headers, metadata, options);
   }
 
-  private async getTopicPartitionCount(topic: string): Promise<number | undefined> {
+  private getValidationError(message: any): string | undefined {
+    if (!this.enableValidation) {
+      return undefined;
+    }
+    const validationResult = this.validator.validate(message);
+    if (validationResult.isValid) {
+      return undefined;
+    }
+    this.instruments.errors.inc({ reason: 'validation_failed' });
+    return validationResult.error || 'Unknown validation error';
+  }
+
+  private async buildRecord(
+    message: any,
+    key: string | undefined,
+    headers: Record<string, string> | undefined,
+    metadata: Partial<EnhancedMessageMetadata> | undefined,
+    options: SendOptions
+  ): Promise<PreparedRecord> {
+    const deliverAt = resolveDeliverAt(options);
+    const enhancedMetadata = this.metadataManager.createMetadata(metadata);
+    const targetTopic = this.resolveTargetTopic(message, enhancedMetadata);
+
+    const serializedMessage = this.serialize(message);
+    const metadataHeaders = this.metadataManager.metadataToHeaders(enhancedMetadata);
+    const kafkaHeaders: Record<string, Buffer> = {};
+    Object.entries(metadataHeaders).forEach(([key, value]) => {
+      kafkaHeaders[key] = value;
+    });
+
+    if (headers) {
+      Object.keys(headers).forEach(headerKey => {
+        kafkaHeaders[headerKey] = Buffer.from(headers[headerKey]);
+      });
+    }
+
+    let partition: number | undefined;
+    if (this.partitioner) {
+      partition = this.partitioner.partition({
+        topic: targetTopic,
+        partitionCount: await this.topicMetadata.getPartitionCount(targetTopic),
+        message,
+        key,
+        metadata: enhancedMetadata
+      });
+    }
+
+    let topic = targetTopic;
+    if (deliverAt !== undefined) {
+      topic = this.options.delayTopic || getDefaultDelayTopic();
+      Object.assign(kafkaHeaders, buildDelayHeaders(deliverAt, targetTopic, partition));
+      partition = undefined;
+    }
+
+    return {
+      topic,
+      deliverAt,
+      serializedLength: serializedMessage.length,
+      message: {
+        partition,
+        key: key ? Buffer.from(key) : undefined,
+        value: Buffer.from(serializedMessage),
+        headers: Object.keys(kafkaHeaders).length > 0 ? kafkaHeaders : undefined,
+        timestamp: Date.now().toString()
+      }
+    };
+  }
+
+  private resolveTargetTopic(message: any, metadata: EnhancedMessageMetadata): string {
+    if (!this.messageRouter) {
+      return config.kafkaTopic;
+    }
+
+    const routingResult = this.messageRouter.route(message, metadata);
+    if (routingResult.matchedRule) {
+      logger.debug('Message routed', {
+        originalTopic: config.kafkaTopic,
+        targetTopic: routingResult.topic,
+        rule: routingResult.matchedRule.name
+      });
+    }
+    return routingResult.topic;
+  }
+
+  private async sendRecord(record: ProducerRecord): Promise<DeliveryReport[]> {
     try {
-      const kafka = createKafka();
-      const admin = kafka.admin();
-      await admin.connect();
+      const recordMetadata = await this.timedSend([record], () => this.producer.send(record));
+      return this.reportDelivery(record, recordMetadata);
+    } catch (error) {
+      this.reportFailure(record, error);
+      throw error;
+    }
+  }
 
-      const metadata = await admin.fetchTopicMetadata({ topics: [topic] });
-      const topicMetadata = metadata.topics.find(t => t.name === topic);
+  private async sendTopicMessages(topicMessages: TopicMessages[]): Promise<DeliveryReport[][]> {
+    try {
+      const recordMetadata = await this.timedSend(topicMessages, () =>
+        this.producer.sendBatch({
+          topicMessages,
+          compression: this.compressionType,
+          timeout: this.timeoutMs
+        })
+      );
+      return topicMessages.map(group => this.reportDelivery(group, recordMetadata));
+    } catch (error) {
+      topicMessages.forEach(group => this.reportFailure(group, error));
+      throw error;
+    }
+  }
+
+  private reportDelivery(
+    { topic, messages }: TopicMessages,
+    recordMetadata: RecordMetadata[]
+  ): DeliveryReport[] {
+    const reports = matchRecordMetadata(topic, messages, recordMetadata).map((report, index) => ({
+      ...report,
+      ...this.getMessageIds(messages[index])
+    }));
+    reports.forEach(report => this.notifyDelivery(report));
+    return reports;
+  }
 
-      await admin.disconnect();
+  private reportFailure({ topic, messages }: TopicMessages, error: unknown): void {
+    messages.forEach(message =>
+      this.notifyDelivery({
+        topic,
+        partition: message.partition,
+        timestamp: message.timestamp,
+        ...this.getMessageIds(message),
+        error: error instanceof Error ? error : new Error(String(error))
+      })
+    );
+  }
 
-      return topicMetadata?.partitions.length;
+  private getMessageIds(message: Message): Pick<DeliveryReport, 'messageId' | 'correlationId'> {
+    if (!message.headers) {
+      return {};
+    }
+    const metadata = this.metadataManager.headersToMetadata(
+      message.headers as Record<string, Buffer>
+    );
+    return { messageId: metadata.messageId, correlationId: metadata.correlationId };
+  }
+
+  private notifyDelivery(report: DeliveryReport): void {
+    if (!this.options.onDelivery) {
+      return;
+    }
+    try {
+      this.options.onDelivery(report);
     } catch (error) {
-      logger.error('Failed to fetch topic partition count', { topic, error });
-      return undefined;
+      logger.error('Delivery callback failed', {
+        topic: report.topic,
+        messageId: report.messageId,
+        error: error instanceof Error ? error.message : error
+      });
+    }
+  }
+
+  private async deadLetterInvalid(
+    invalidMessages: InvalidBatchMessage[],
+    result: BatchSendResult
+  ): Promise<void> {
+    const groups = new Map<string, Array<{ index: number; reason: string; message: Message }>>();
+
+    invalidMessages.forEach(({ index, message, key, headers, metadata, reason }) => {
+      try {
+        const originalTopic = this.resolveTargetTopic(
+          message,
+          this.metadataManager.createMetadata(metadata)
+        );
+        const topic = this.options.invalidMessageTopic || `${originalTopic}.DLQ`;
+        const kafkaHeaders: Record<string, Buffer> = {
+          [DLQ_HEADERS.reason]: Buffer.from('Validation failed'),
+          [DLQ_HEADERS.originalTopic]: Buffer.from(originalTopic),
+          [DLQ_HEADERS.exceptionMessage]: Buffer.from(reason)
+        };
+        Object.entries(headers || {}).forEach(([headerKey, value]) => {
+          kafkaHeaders[headerKey] = Buffer.from(value);
+        });
+
+        const entries = groups.get(topic) || [];
+        entries.push({
+          index,
+          reason,
+          message: {
+            key: key ? Buffer.from(key) : undefined,
+            value: Buffer.from(this.serializer.serialize(message)),
+            headers: kafkaHeaders,
+            timestamp: Date.now().toString()
+          }
+        });
+        groups.set(topic, entries);
+      } catch (error) {
+        const failure = error instanceof Error ? error.message : String(error);
+        result.failed.push({ index, reason: `Dead-letter publish failed: ${failure}` });
+        logger.error('Failed to prepare invalid batch message for dead-letter topic', {
+          index,
+          error
+        });
+      }
+    });
+
+    for (const [topic, entries] of groups) {
+      try {
+        await this.producer.send({ topic, messages: entries.map(entry => entry.message) });
+        entries.forEach(({ index, reason }) =>
+          result.rejected.push({ index, reason, deadLetterTopic: topic })
+        );
+        logger.info('Invalid batch messages sent to dead-letter topic', {
+          topic,
+          messageCount: entries.length
+        });
+      } catch (error) {
+        const reason = `Dead-letter publish failed: ${error instanceof Error ? error.message : error}`;
+        entries.forEach(({ index }) => result.failed.push({ index, reason }));
+        logger.error('Failed to send invalid batch messages to dead-letter topic', {
+          topic,
+          messageCount: entries.length,
+          error
+        });
+      }
+    }
+  }
+
+  private serialize(message: any): string {
+    const startTime = performance.now();
+    const serialized = this.serializer.serialize(message);
+    this.instruments.serializationDuration.observe(performance.now() - startTime);
+    return serialized;
+  }
+
+  private async timedSend<T>(
+    topicMessages: Array<{ topic: string; messages: unknown[] }>,
+    send: () => Promise<T>
+  ): Promise<T> {
+    const startTime = Date.now();
+    try {
+      const result = await send();
+      const latencyMs = Date.now() - startTime;
+      topicMessages.forEach(({ topic, messages }) => {
+        this.instruments.sendDuration.observe(latencyMs, { topic });
+        this.instruments.batchSize.observe(messages.length, { topic });
+        this.metrics.messagesSent += messages.length;
+      });
+      this.metrics.sendRequests++;
+      this.metrics.totalSendLatencyMs += latencyMs;
+      this.metrics.maxSendLatencyMs = Math.max(this.metrics.maxSendLatencyMs, latencyMs);
+      this.metrics.lastSendLatencyMs = latencyMs;
+      return result;
+    } catch (error) {
+      this.metrics.failedSends++;
+      this.instruments.errors.inc({ reason: 'send_failed' });
+      if (isStaleMetadataError(error)) {
+        topicMessages.forEach(({ topic }) => this.topicMetadata.invalidate(topic));
+      }
+      throw error;
+    }
+  }
+
+  private getKnownTopics(): string[] {
+    const topics = new Set([config.kafkaTopic]);
+    if (this.options.defaultRoutingTopic) {
+      topics.add(this.options.defaultRoutingTopic);
     }
+    this.getRoutingRules().forEach(rule => topics.add(rule.targetTopic));
+    return Array.from(topics);
+  }
+
+  private groupByTopic<T extends { record: PreparedRecord }>(
+    entries: T[]
+  ): Array<{ topic: string; entries: T[] }> {
+    const groups = new Map<string, T[]>();
+    entries.forEach(entry => {
+      const group = groups.get(entry.record.topic) || [];
+      group.push(entry);
+      groups.set(entry.record.topic, group);
+    });
+    return Array.from(groups.entries()).map(([topic, groupEntries]) => ({
+      topic,
+      entries: groupEntries
+    }));
+  }
+
+  private chunkMessages<T>(messages: T[], chunkSize: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < messages.length; i += chunkSize) {
+      chunks.push(messages.slice(i, i + chunkSize));
+    }
+    return chunks;
   }
 
   async disconnect(): Promise<void> {
     if (this.producer) {
+      await this.flush();
       await this.producer.disconnect();
+      if (!this.options.topicMetadataCache) {
+        await this.topicMetadata.close();
+      }
+      this.connected = false;
       logger.info('Producer disconnected');
     }
   }